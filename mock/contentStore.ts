@@ -0,0 +1,389 @@
+// mock/contentStore.ts
+import type {
+  ContentFixture,
+  FixtureItem,
+  FixturePage,
+  MockGraphQLResponse
+} from './types';
+
+/**
+ * An aliased root field of a GraphQL operation, e.g. item0: item(where: {...}) { ... }
+ */
+interface RootField {
+  alias: string;
+  name: string;
+  args: string;
+  selection: string;
+}
+
+export type ContentApiMode = 'live' | 'preview';
+
+export interface MockContentStore {
+  /** Resolve a query or mutation sent to the authoring GraphQL endpoint */
+  resolveAuthoring: (query: string) => MockGraphQLResponse;
+  /** Resolve a query sent to Experience Edge (live) or the preview content API */
+  resolveContent: (query: string, mode: ContentApiMode) => MockGraphQLResponse;
+  /** pages.context payload for every page in the fixture */
+  getPageContexts: () => Array<Record<string, unknown>>;
+  /** application.context payload */
+  getApplicationContext: () => Record<string, unknown>;
+  /** Whether a sitecoreContextId refers to the live content API */
+  isLiveContextId: (sitecoreContextId: string | null) => boolean;
+  /** Discard publishes made since the store was created */
+  reset: () => void;
+}
+
+const normalizeId = (id: string): string => id.replace(/[{}-]/g, '').toUpperCase();
+
+/**
+ * Read a balanced (...) or {...} block starting at `start`
+ */
+const readBlock = (text: string, start: number, open: string, close: string): { content: string; end: number } => {
+  let depth = 0;
+  for (let index = start; index < text.length; index++) {
+    if (text[index] === open) {
+      depth++;
+    } else if (text[index] === close) {
+      depth--;
+      if (depth === 0) {
+        return { content: text.slice(start + 1, index), end: index + 1 };
+      }
+    }
+  }
+  throw new Error(`Unterminated ${open}${close} block in query`);
+};
+
+/**
+ * Find the aliased root fields of the first operation in a query
+ * Only the shapes the app sends are supported: every root field is aliased and takes arguments
+ */
+const parseRootFields = (query: string): RootField[] => {
+  const bodyStart = query.indexOf('{');
+  if (bodyStart < 0) {
+    return [];
+  }
+
+  const body = readBlock(query, bodyStart, '{', '}').content;
+  const fieldPattern = /(\w+)\s*:\s*(\w+)\s*\(/y;
+  const fields: RootField[] = [];
+  let index = 0;
+
+  while (index < body.length) {
+    fieldPattern.lastIndex = index;
+    const match = fieldPattern.exec(body);
+    if (!match) {
+      index++;
+      continue;
+    }
+
+    const args = readBlock(body, index + match[0].length - 1, '(', ')');
+    let end = args.end;
+    let selection = '';
+    const selectionStart = body.slice(end).search(/\S/);
+    if (selectionStart >= 0 && body[end + selectionStart] === '{') {
+      const block = readBlock(body, end + selectionStart, '{', '}');
+      selection = block.content;
+      end = block.end;
+    }
+
+    fields.push({ alias: match[1], name: match[2], args: args.content, selection });
+    index = end;
+  }
+
+  return fields;
+};
+
+const getStringArg = (args: string, name: string): string | undefined => {
+  return new RegExp(`\\b${name}\\s*:\\s*"([^"]*)"`).exec(args)?.[1];
+};
+
+const getBooleanArg = (args: string, name: string): boolean => {
+  return new RegExp(`\\b${name}\\s*:\\s*true\\b`).test(args);
+};
+
+const escapeXml = (value: string): string => {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+};
+
+/**
+ * Serialize fixture presentation details as a shared layout (__Renderings) field value
+ */
+const toLayoutXml = (presentationDetails: Record<string, unknown>): string => {
+  const devices = (presentationDetails.devices || []) as Array<{
+    id: string;
+    renderings?: Array<{ id?: string; placeholderKey?: string; dataSource?: string }>;
+  }>;
+
+  const deviceXml = devices.map(device => {
+    const renderingXml = (device.renderings || []).map((rendering, index) => {
+      const uid = `{00000000-0000-4000-8000-${String(index + 1).padStart(12, '0')}}`;
+      return `<r uid="${uid}" id="${escapeXml(rendering.id || '')}" ph="${escapeXml(rendering.placeholderKey || '')}" ds="${escapeXml(rendering.dataSource || '')}" />`;
+    }).join('');
+    return `<d id="{${device.id}}">${renderingXml}</d>`;
+  }).join('');
+
+  return `<r xmlns:xsd="http://www.w3.org/2001/XMLSchema">${deviceXml}</r>`;
+};
+
+/**
+ * Selection of the nodes inside a children(...) { nodes { ... } } selection, if there is one
+ */
+const getChildrenNodeSelection = (selection: string): string | null => {
+  const childrenIndex = selection.search(/\bchildren\b/);
+  if (childrenIndex < 0) {
+    return null;
+  }
+
+  const nodesIndex = selection.slice(childrenIndex).search(/\bnodes\s*\{/);
+  if (nodesIndex < 0) {
+    return '';
+  }
+
+  const blockStart = selection.indexOf('{', childrenIndex + nodesIndex);
+  return readBlock(selection, blockStart, '{', '}').content;
+};
+
+/**
+ * Current time in Sitecore's date field format, which sorts lexicographically
+ */
+const toSitecoreDate = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+};
+
+/**
+ * Create an in-memory content store for a fixture
+ * Publishing through the authoring endpoint updates what the live content API returns until reset() is called
+ */
+export const createMockContentStore = (fixture: ContentFixture): MockContentStore => {
+  let items: FixtureItem[] = structuredClone(fixture.items);
+  let operations = new Map<string, number>();
+
+  const getLanguages = (item: FixtureItem): string[] => item.languages || [fixture.language];
+
+  // Pages get their shared layout from the presentation details in the fixture
+  const layoutByItemId = new Map(fixture.pages.map(page => [
+    normalizeId(page.itemId),
+    toLayoutXml(page.presentationDetails)
+  ]));
+
+  const getChildren = (item: FixtureItem, language: string): FixtureItem[] => {
+    const prefix = `${item.path.toLowerCase()}/`;
+    return items.filter(candidate => {
+      const candidatePath = candidate.path.toLowerCase();
+      return candidatePath.startsWith(prefix) &&
+        !candidatePath.slice(prefix.length).includes('/') &&
+        getLanguages(candidate).includes(language);
+    });
+  };
+
+  const findItem = (idOrPath: string | undefined, language: string): FixtureItem | null => {
+    if (!idOrPath) {
+      return null;
+    }
+
+    const isPath = idOrPath.startsWith('/');
+    const item = items.find(candidate => isPath
+      ? candidate.path.toLowerCase() === idOrPath.toLowerCase()
+      : normalizeId(candidate.itemId) === normalizeId(idOrPath)
+    );
+
+    return item && getLanguages(item).includes(language) ? item : null;
+  };
+
+  const toAuthoringItem = (item: FixtureItem, language: string, selection: string): Record<string, unknown> => {
+    const aliasedFields: Record<string, { value: string } | null> = {};
+    for (const match of selection.matchAll(/(\w+)\s*:\s*field\(\s*name\s*:\s*"([^"]+)"\s*\)/g)) {
+      const value = match[2] === '__Renderings'
+        ? item.fields[match[2]] ?? layoutByItemId.get(normalizeId(item.itemId))
+        : item.fields[match[2]];
+      aliasedFields[match[1]] = value === undefined ? null : { value };
+    }
+
+    // Every child is returned in a single page
+    const childSelection = getChildrenNodeSelection(selection);
+    const children = childSelection === null
+      ? {}
+      : {
+          children: {
+            nodes: getChildren(item, language).map(child => toAuthoringItem(child, language, childSelection)),
+            pageInfo: { hasNextPage: false, endCursor: null }
+          }
+        };
+
+    return {
+      itemId: item.itemId.toLowerCase(),
+      name: item.name,
+      path: item.path,
+      version: item.version,
+      template: { name: item.template },
+      language: { name: language },
+      workflow: item.workflow
+        ? {
+            workflow: { workflowId: normalizeId(item.workflow.workflowName), displayName: item.workflow.workflowName },
+            workflowState: { stateId: normalizeId(item.workflow.stateName), displayName: item.workflow.stateName, final: item.workflow.final }
+          }
+        : null,
+      languages: getLanguages(item).map(name => ({ version: item.version, language: { name } })),
+      hasChildren: getChildren(item, language).length > 0,
+      fields: {
+        nodes: Object.entries(item.fields).map(([name, value]) => ({ name, value }))
+      },
+      ...aliasedFields,
+      ...children
+    };
+  };
+
+  const toContentItem = (item: FixtureItem, language: string, selection: string, mode: ContentApiMode) => {
+    const version = mode === 'live' ? item.publishedVersion : item.version;
+    if (version === null) {
+      return null;
+    }
+
+    const fields = mode === 'live' ? item.publishedFields || item.fields : item.fields;
+    const includeStandardFields = !/excludeStandardFields\s*:\s*true/.test(selection);
+
+    return {
+      id: normalizeId(item.itemId),
+      name: item.name,
+      version,
+      language: { name: language },
+      ...(/\bfields\b/.test(selection)
+        ? {
+            fields: Object.entries(fields)
+              .filter(([name]) => includeStandardFields || !name.startsWith('__'))
+              .map(([name, value]) => ({ name, value }))
+          }
+        : {})
+    };
+  };
+
+  /**
+   * Publish an item (and optionally its descendants) the way a real publish would skip
+   * items that are in a non-final workflow state, marked never publish, or scheduled for later
+   */
+  const publishItem = (args: string): string | null => {
+    const root = findItem(getStringArg(args, 'rootItemId'), fixture.language);
+    if (!root) {
+      return null;
+    }
+
+    const now = toSitecoreDate(new Date());
+    const targets = getBooleanArg(args, 'publishSubItems')
+      ? items.filter(item => item === root || item.path.startsWith(`${root.path}/`))
+      : [root];
+    const publishable = targets.filter(item =>
+      (!item.workflow || item.workflow.final) &&
+      item.fields['__Never publish'] !== '1' &&
+      !(item.fields.__Publish && item.fields.__Publish > now)
+    );
+
+    publishable.forEach(item => {
+      item.publishedVersion = item.version;
+      item.publishedFields = { ...item.fields };
+    });
+
+    const operationId = `mock-publish-${operations.size + 1}`;
+    operations.set(operationId, publishable.length);
+    return operationId;
+  };
+
+  const resolve = (
+    query: string,
+    resolveField: (field: RootField) => unknown
+  ): MockGraphQLResponse => {
+    let fields: RootField[];
+    try {
+      fields = parseRootFields(query);
+    } catch (error) {
+      return { data: null, errors: [{ message: error instanceof Error ? error.message : String(error) }] };
+    }
+
+    const data: Record<string, unknown> = {};
+    const errors: Array<{ message: string }> = [];
+    fields.forEach(field => {
+      try {
+        data[field.alias] = resolveField(field);
+      } catch (error) {
+        data[field.alias] = null;
+        errors.push({ message: error instanceof Error ? error.message : String(error) });
+      }
+    });
+
+    return errors.length > 0 ? { data, errors } : { data };
+  };
+
+  const resolveAuthoring = (query: string): MockGraphQLResponse => resolve(query, field => {
+    switch (field.name) {
+      case 'item': {
+        const language = getStringArg(field.args, 'language') || fixture.language;
+        const item = findItem(getStringArg(field.args, 'itemId') || getStringArg(field.args, 'path'), language);
+        return item ? toAuthoringItem(item, language, field.selection) : null;
+      }
+      case 'publishItem': {
+        const operationId = publishItem(field.args);
+        if (!operationId) {
+          throw new Error(`Root item ${getStringArg(field.args, 'rootItemId')} not found`);
+        }
+        return { operationId };
+      }
+      case 'publishingStatus': {
+        const processed = operations.get(getStringArg(field.args, 'publishingOperationId') || '');
+        return processed === undefined
+          ? { isDone: true, isFailed: true, processed: 0, state: 'Unknown publishing operation' }
+          : { isDone: true, isFailed: false, processed, state: 'Finished' };
+      }
+      default:
+        throw new Error(`Field "${field.name}" is not supported by the mock authoring endpoint`);
+    }
+  });
+
+  const resolveContent = (query: string, mode: ContentApiMode): MockGraphQLResponse => resolve(query, field => {
+    if (field.name !== 'item') {
+      throw new Error(`Field "${field.name}" is not supported by the mock content endpoint`);
+    }
+
+    const language = getStringArg(field.args, 'language') || fixture.language;
+    const item = findItem(getStringArg(field.args, 'path'), language);
+    return item ? toContentItem(item, language, field.selection, mode) : null;
+  });
+
+  const toPageContext = (page: FixturePage) => {
+    const item = items.find(candidate => normalizeId(candidate.itemId) === normalizeId(page.itemId));
+    return {
+      siteInfo: {
+        name: fixture.siteName,
+        language: fixture.language
+      },
+      pageInfo: {
+        id: page.itemId.toLowerCase(),
+        name: item?.name,
+        path: item?.path,
+        language: fixture.language,
+        version: item?.version,
+        presentationDetails: JSON.stringify(page.presentationDetails)
+      }
+    };
+  };
+
+  return {
+    resolveAuthoring,
+    resolveContent,
+    getPageContexts: () => fixture.pages.map(toPageContext),
+    getApplicationContext: () => ({
+      id: 'mock-app',
+      name: 'Published Status (mock host)',
+      resourceAccess: [
+        {
+          resourceId: 'xmcloud',
+          tenantId: 'mock-tenant',
+          context: fixture.contextIds
+        }
+      ]
+    }),
+    isLiveContextId: (sitecoreContextId) => sitecoreContextId === fixture.contextIds.live,
+    reset: () => {
+      items = structuredClone(fixture.items);
+      operations = new Map();
+    }
+  };
+};
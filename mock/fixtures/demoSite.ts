@@ -0,0 +1,179 @@
+// mock/fixtures/demoSite.ts
+import type { ContentFixture } from '../types';
+
+const HOME = '6B7C1F4A-2E3D-4C5B-9A8F-0D1E2F3A4B5C';
+const PRODUCTS = '0C9D8E7F-6A5B-4C3D-8E2F-1A0B9C8D7E6F';
+const HERO = 'A1B2C3D4-0001-4000-8000-000000000001';
+const PROMO = 'A1B2C3D4-0002-4000-8000-000000000002';
+const TEXT = 'A1B2C3D4-0003-4000-8000-000000000003';
+const ARTICLE = 'A1B2C3D4-0004-4000-8000-000000000004';
+const CARD = 'A1B2C3D4-0005-4000-8000-000000000005';
+const BANNER = 'A1B2C3D4-0006-4000-8000-000000000006';
+const TEASER = 'A1B2C3D4-0007-4000-8000-000000000007';
+const HERO_IMAGE = 'B2C3D4E5-0001-4000-8000-000000000001';
+
+const SITE_ROOT = '/sitecore/content/Demo/Demo Site';
+
+/**
+ * Demo site covering the statuses the app distinguishes:
+ * up-to-date, outdated in workflow, never published, scheduled, link references and a reference cycle
+ */
+export const demoSite: ContentFixture = {
+  siteName: 'Demo Site',
+  language: 'en',
+  contextIds: {
+    preview: 'mock-preview-context',
+    live: 'mock-live-context'
+  },
+  pages: [
+    {
+      itemId: HOME,
+      presentationDetails: {
+        devices: [
+          {
+            id: 'FE5D7FDF-89C0-4D99-9AA3-B5FBD009C9F3',
+            renderings: [
+              { id: 'hero', placeholderKey: 'headless-main', dataSource: `{${HERO}}` },
+              { id: 'promo', placeholderKey: 'headless-main', dataSource: `{${PROMO}}` },
+              { id: 'rich-text', placeholderKey: 'headless-main', dataSource: 'local:/Data/Text 1' }
+            ]
+          }
+        ]
+      }
+    },
+    {
+      itemId: PRODUCTS,
+      presentationDetails: {
+        devices: [
+          {
+            id: 'FE5D7FDF-89C0-4D99-9AA3-B5FBD009C9F3',
+            renderings: [
+              { id: 'teaser', placeholderKey: 'headless-main', dataSource: `{${TEASER}}` },
+              { id: 'banner', placeholderKey: 'headless-footer', dataSource: `{${BANNER}}` }
+            ]
+          }
+        ]
+      }
+    }
+  ],
+  items: [
+    {
+      itemId: HOME,
+      name: 'Home',
+      path: `${SITE_ROOT}/Home`,
+      template: 'Page',
+      version: 2,
+      publishedVersion: 2,
+      fields: { Title: 'Welcome' },
+      languages: ['en', 'de-DE']
+    },
+    {
+      itemId: PRODUCTS,
+      name: 'Products',
+      path: `${SITE_ROOT}/Home/Products`,
+      template: 'Page',
+      version: 1,
+      publishedVersion: 1,
+      fields: { Title: 'Products' }
+    },
+    {
+      itemId: HERO,
+      name: 'Home Hero',
+      path: `${SITE_ROOT}/Data/Heroes/Home Hero`,
+      template: 'Hero',
+      version: 1,
+      publishedVersion: 1,
+      fields: {
+        Title: 'Build faster',
+        Image: `<image mediaid="{${HERO_IMAGE}}" alt="Hero" />`
+      },
+      languages: ['en', 'de-DE']
+    },
+    {
+      itemId: PROMO,
+      name: 'Spring Promo',
+      path: `${SITE_ROOT}/Data/Promos/Spring Promo`,
+      template: 'Promo',
+      version: 3,
+      publishedVersion: 2,
+      fields: {
+        Title: 'Spring sale: 30% off everything',
+        Link: `<link text="Read more" linktype="internal" id="{${ARTICLE}}" />`
+      },
+      publishedFields: {
+        Title: 'Spring sale: 20% off everything',
+        Link: `<link text="Read more" linktype="internal" id="{${ARTICLE}}" />`
+      },
+      workflow: {
+        workflowName: 'Sample Workflow',
+        stateName: 'Awaiting Approval',
+        final: false
+      }
+    },
+    {
+      itemId: TEXT,
+      name: 'Text 1',
+      path: `${SITE_ROOT}/Home/Data/Text 1`,
+      template: 'Text',
+      version: 1,
+      publishedVersion: null,
+      fields: {
+        Text: `<p>See our <a href="~/link.aspx?_id=${CARD.replace(/-/g, '')}&amp;_z=z">launch card</a>.</p>`
+      }
+    },
+    {
+      itemId: ARTICLE,
+      name: 'Spring Launch',
+      path: `${SITE_ROOT}/Home/News/Spring Launch`,
+      template: 'Article',
+      version: 1,
+      publishedVersion: 1,
+      fields: {
+        Title: 'Spring launch',
+        Related: `{${CARD}}`
+      }
+    },
+    {
+      itemId: CARD,
+      name: 'Launch Card',
+      path: `${SITE_ROOT}/Data/Cards/Launch Card`,
+      template: 'Card',
+      version: 2,
+      publishedVersion: 1,
+      fields: {
+        Heading: 'Launch week',
+        'Related Promo': `{${PROMO}}`
+      },
+      publishedFields: {
+        Heading: 'Launch day',
+        'Related Promo': `{${PROMO}}`
+      },
+      workflow: {
+        workflowName: 'Sample Workflow',
+        stateName: 'Approved',
+        final: true
+      }
+    },
+    {
+      itemId: BANNER,
+      name: 'Summer Banner',
+      path: `${SITE_ROOT}/Data/Banners/Summer Banner`,
+      template: 'Banner',
+      version: 1,
+      publishedVersion: null,
+      fields: {
+        Heading: 'Summer is coming',
+        __Publish: '20991231T000000Z'
+      }
+    },
+    {
+      itemId: TEASER,
+      name: 'Product Teaser',
+      path: `${SITE_ROOT}/Data/Teasers/Product Teaser`,
+      template: 'Teaser',
+      version: 1,
+      publishedVersion: 1,
+      fields: { Heading: 'Our products' }
+    }
+  ]
+};
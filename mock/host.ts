@@ -0,0 +1,161 @@
+// mock/host.ts
+// Minimal stand-in for the Sitecore Marketplace host: answers the SDK handshake, the pages.context and
+// application.context queries, and forwards host.request calls (xmc.* GraphQL) to the dev-server endpoints.
+
+const SDK_SOURCE = 'sitecore-marketplace-sdk';
+
+interface MockContext {
+  applicationContext: Record<string, unknown>;
+  pages: Array<{ pageInfo: { id: string; name?: string; path?: string; revision?: string } } & Record<string, unknown>>;
+}
+
+interface HostRequestPayload {
+  path: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: ArrayBuffer;
+}
+
+interface SdkMessage {
+  id: string;
+  type: 'request' | 'response' | 'event' | 'handshake';
+  source?: string;
+  action?: string;
+  payload?: unknown;
+  handshakeType?: 'request' | 'response';
+}
+
+const frame = document.getElementById('app-frame') as HTMLIFrameElement;
+const pageSelect = document.getElementById('page-select') as HTMLSelectElement;
+const saveButton = document.getElementById('save-button') as HTMLButtonElement;
+const resetButton = document.getElementById('reset-button') as HTMLButtonElement;
+const log = document.getElementById('message-log') as HTMLPreElement;
+
+let context: MockContext | null = null;
+
+const appendLog = (line: string) => {
+  log.textContent = `${new Date().toLocaleTimeString()} ${line}\n${log.textContent}`.slice(0, 20000);
+};
+
+const postToApp = (message: Record<string, unknown>) => {
+  frame.contentWindow?.postMessage(
+    { ...message, source: SDK_SOURCE, timestamp: Date.now() },
+    window.location.origin
+  );
+};
+
+const getCurrentPageContext = () => {
+  return context?.pages.find(page => page.pageInfo.id === pageSelect.value) || context?.pages[0];
+};
+
+/**
+ * Forward an SDK fetch (used by the xmc module for GraphQL calls) to the dev-server mock endpoints
+ */
+const forwardHostRequest = async ({ path, method = 'GET', headers, body }: HostRequestPayload) => {
+  const response = await fetch(`/mock/host${path}`, { method, headers, body });
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: Object.fromEntries(response.headers.entries()),
+    body: await response.arrayBuffer()
+  };
+};
+
+const handleRequest = async (action: string, payload: unknown): Promise<unknown> => {
+  // The SDK appends :query / :mutation to the action name
+  switch (action.split(':')[0]) {
+    case 'pages.context':
+      return getCurrentPageContext();
+    case 'application.context':
+      return context?.applicationContext;
+    case 'host.request':
+      return forwardHostRequest(payload as HostRequestPayload);
+    case 'host.setNavbarItems':
+      return undefined;
+    default:
+      throw new Error(`Action "${action}" is not supported by the mock host`);
+  }
+};
+
+window.addEventListener('message', (event: MessageEvent<SdkMessage>) => {
+  const message = event.data;
+  if (event.source !== frame.contentWindow || message?.source !== SDK_SOURCE) {
+    return;
+  }
+
+  if (message.type === 'handshake' && message.handshakeType === 'request') {
+    appendLog('handshake');
+    postToApp({
+      id: message.id,
+      type: 'handshake',
+      event: 'handshake:response',
+      handshakeType: 'response',
+      sdkType: 'host',
+      success: true,
+      version: '1'
+    });
+    return;
+  }
+
+  if (message.type !== 'request' || !message.action) {
+    return;
+  }
+
+  appendLog(`→ ${message.action}`);
+  handleRequest(message.action, message.payload)
+    .then(data => postToApp({ id: message.id, type: 'response', success: true, data }))
+    .catch(error => {
+      appendLog(`✗ ${message.action}: ${error instanceof Error ? error.message : String(error)}`);
+      postToApp({
+        id: message.id,
+        type: 'response',
+        success: false,
+        error: {
+          code: 'EXECUTION_ERROR',
+          message: error instanceof Error ? error.message : 'Error processing request'
+        }
+      });
+    });
+});
+
+// Switching pages notifies subscribers of pages.context, like navigating in the Pages editor
+pageSelect.addEventListener('change', () => {
+  appendLog(`pages.context → ${pageSelect.selectedOptions[0]?.textContent}`);
+  postToApp({ id: crypto.randomUUID(), type: 'event', event: 'pages.context', payload: getCurrentPageContext() });
+});
+
+// Saving in the editor gives the page a new revision and notifies subscribers of pages.context
+saveButton.addEventListener('click', () => {
+  const page = getCurrentPageContext();
+  if (!page) {
+    return;
+  }
+  page.pageInfo = { ...page.pageInfo, revision: crypto.randomUUID() };
+  appendLog(`pages.context → saved ${page.pageInfo.name}`);
+  postToApp({ id: crypto.randomUUID(), type: 'event', event: 'pages.context', payload: page });
+});
+
+resetButton.addEventListener('click', async () => {
+  await fetch('/mock/reset', { method: 'POST' });
+  appendLog('fixture state reset');
+  frame.contentWindow?.location.reload();
+});
+
+const init = async () => {
+  const response = await fetch('/mock/context');
+  context = await response.json() as MockContext;
+
+  context.pages.forEach(page => {
+    const option = document.createElement('option');
+    option.value = page.pageInfo.id;
+    option.textContent = `${page.pageInfo.name} (${page.pageInfo.path})`;
+    pageSelect.appendChild(option);
+  });
+
+  // Load the app only once the context is available to answer its first queries
+  frame.src = '/?mockHost';
+};
+
+init().catch(error => {
+  appendLog(`Failed to load mock context: ${error instanceof Error ? error.message : String(error)}`);
+});
@@ -0,0 +1,71 @@
+// mock/types.ts
+
+/**
+ * A content item in the mock content tree
+ * Authoring always serves the latest version; Experience Edge serves the published one
+ */
+export interface FixtureItem {
+  /** Item ID, uppercase with hyphens */
+  itemId: string;
+  name: string;
+  path: string;
+  template: string;
+  /** Latest version in the master database */
+  version: number;
+  /** Version on Experience Edge, or null when the item was never published */
+  publishedVersion: number | null;
+  /** Latest field values, including standard fields such as __Publish */
+  fields: Record<string, string>;
+  /** Field values of the published version; defaults to `fields` */
+  publishedFields?: Record<string, string>;
+  /** Workflow state of the latest version */
+  workflow?: {
+    workflowName: string;
+    stateName: string;
+    final: boolean;
+  };
+  /**
+   * Languages the item has versions in
+   * @default ['en']
+   */
+  languages?: string[];
+}
+
+/**
+ * A page that can be opened in the mock Pages editor
+ */
+export interface FixturePage {
+  itemId: string;
+  /** Presentation details as returned in pages.context (devices → renderings) */
+  presentationDetails: Record<string, unknown>;
+}
+
+/**
+ * A complete content tree served by the mock host and the Edge stand-in
+ */
+export interface ContentFixture {
+  siteName: string;
+  language: string;
+  /** Context IDs returned in application.context; the host routes content API calls by these */
+  contextIds: {
+    preview: string;
+    live: string;
+  };
+  pages: FixturePage[];
+  items: FixtureItem[];
+}
+
+/**
+ * Body of a GraphQL request sent to the mock endpoints
+ */
+export interface MockGraphQLRequest {
+  query: string;
+}
+
+/**
+ * GraphQL response returned by the mock endpoints
+ */
+export interface MockGraphQLResponse {
+  data: Record<string, unknown> | null;
+  errors?: Array<{ message: string }>;
+}
@@ -0,0 +1,80 @@
+// mock/vitePlugin.ts
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+import { createMockContentStore } from './contentStore';
+import type { ContentFixture, MockGraphQLRequest } from './types';
+
+const readJsonBody = async (req: IncomingMessage): Promise<MockGraphQLRequest> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}') as MockGraphQLRequest;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Dev-server endpoints backing the mock Marketplace host (mock-host.html)
+ *
+ * - GET  /mock/context                        pages.context payloads and application.context
+ * - POST /mock/reset                          discard publishes made during the session
+ * - POST /mock/host/v1/authoring/graphql      authoring GraphQL (xmc.authoring.graphql)
+ * - POST /mock/host/content/api/graphql/v1    live or preview GraphQL, chosen by sitecoreContextId
+ * - POST /mock/edge/graphql                   Experience Edge stand-in for VITE_SITECORE_EDGE_ENDPOINT
+ */
+export const mockMarketplace = (fixture: ContentFixture): Plugin => ({
+  name: 'mock-marketplace',
+  apply: 'serve',
+  configureServer(server) {
+    const store = createMockContentStore(fixture);
+
+    server.middlewares.use('/mock', (req, res, next) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+
+      const handle = async () => {
+        if (req.method === 'GET' && url.pathname === '/context') {
+          sendJson(res, 200, {
+            applicationContext: store.getApplicationContext(),
+            pages: store.getPageContexts()
+          });
+          return;
+        }
+
+        if (req.method !== 'POST') {
+          next();
+          return;
+        }
+
+        switch (url.pathname) {
+          case '/reset':
+            store.reset();
+            sendJson(res, 200, { ok: true });
+            return;
+          case '/host/v1/authoring/graphql':
+            sendJson(res, 200, store.resolveAuthoring((await readJsonBody(req)).query || ''));
+            return;
+          case '/host/content/api/graphql/v1': {
+            const mode = store.isLiveContextId(url.searchParams.get('sitecoreContextId')) ? 'live' : 'preview';
+            sendJson(res, 200, store.resolveContent((await readJsonBody(req)).query || '', mode));
+            return;
+          }
+          case '/edge/graphql':
+            sendJson(res, 200, store.resolveContent((await readJsonBody(req)).query || '', 'live'));
+            return;
+          default:
+            next();
+        }
+      };
+
+      handle().catch(error => {
+        console.error('Mock marketplace request failed:', error);
+        sendJson(res, 500, { errors: [{ message: error instanceof Error ? error.message : 'Unknown error occurred' }] });
+      });
+    });
+  }
+});
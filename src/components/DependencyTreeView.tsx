@@ -0,0 +1,126 @@
+// components/DependencyTreeView.tsx
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  HStack,
+  IconButton,
+  Text,
+  VStack,
+  Badge
+} from '@chakra-ui/react';
+import { PublishingStatusIndicator, ItemTypeBadge } from './PublishingStatusIndicator';
+import { buildDependencyTree, getExpandableKeys } from '../utils/dependencyTree';
+import type { DependencyTreeNode, ProcessedItemInfo } from '../types/itemInformation';
+
+interface DependencyTreeViewProps {
+  currentItem: ProcessedItemInfo;
+  referencedItems: ProcessedItemInfo[];
+}
+
+interface TreeNodeProps {
+  node: DependencyTreeNode;
+  level: number;
+  collapsedKeys: Set<string>;
+  onToggle: (key: string) => void;
+}
+
+const TreeNode: React.FC<TreeNodeProps> = ({ node, level, collapsedKeys, onToggle }) => {
+  const hasChildren = node.children.length > 0;
+  const isExpanded = hasChildren && !collapsedKeys.has(node.key);
+
+  return (
+    <Box>
+      <HStack spacing={2} pl={level * 5} py={1} align="center">
+        {hasChildren ? (
+          <IconButton
+            aria-label={isExpanded ? 'Collapse' : 'Expand'}
+            size="xs"
+            variant="ghost"
+            onClick={() => onToggle(node.key)}
+            icon={<Text as="span">{isExpanded ? '▾' : '▸'}</Text>}
+          />
+        ) : (
+          <Box w={6} />
+        )}
+
+        {node.item ? (
+          <>
+            <Text fontSize="sm" fontWeight={level === 0 ? 'bold' : 'medium'}>
+              {node.item.name}
+            </Text>
+            <ItemTypeBadge itemType={node.item.itemType} provenance={node.item.provenance} size="sm" />
+            <PublishingStatusIndicator item={node.item} size="sm" />
+            {node.isCycle && (
+              <Badge colorScheme="yellow" title="This item references one of its ancestors">
+                Cycle
+              </Badge>
+            )}
+            {node.isRepeat && (
+              <Badge colorScheme="gray" title="This item is referenced more than once; its references are shown where it first appears">
+                Shown above
+              </Badge>
+            )}
+          </>
+        ) : (
+          <Text fontSize="sm" color="gray.500" fontFamily="mono">
+            {node.label}
+          </Text>
+        )}
+
+        {hasChildren && !isExpanded && (
+          <Text fontSize="xs" color="gray.400">
+            ({node.children.length})
+          </Text>
+        )}
+      </HStack>
+
+      {isExpanded && node.children.map(child => (
+        <TreeNode
+          key={child.key}
+          node={child}
+          level={level + 1}
+          collapsedKeys={collapsedKeys}
+          onToggle={onToggle}
+        />
+      ))}
+    </Box>
+  );
+};
+
+export const DependencyTreeView: React.FC<DependencyTreeViewProps> = ({
+  currentItem,
+  referencedItems
+}) => {
+  const tree = useMemo(
+    () => buildDependencyTree(currentItem, referencedItems),
+    [currentItem, referencedItems]
+  );
+  const [collapsedKeys, setCollapsedKeys] = useState<Set<string>>(new Set());
+
+  const handleToggle = (key: string) => {
+    setCollapsedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <VStack align="stretch" spacing={2}>
+      <HStack spacing={2}>
+        <Button size="xs" variant="outline" onClick={() => setCollapsedKeys(new Set())}>
+          Expand all
+        </Button>
+        <Button size="xs" variant="outline" onClick={() => setCollapsedKeys(new Set(getExpandableKeys(tree)))}>
+          Collapse all
+        </Button>
+      </HStack>
+      <TreeNode node={tree} level={0} collapsedKeys={collapsedKeys} onToggle={handleToggle} />
+    </VStack>
+  );
+};
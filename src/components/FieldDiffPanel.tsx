@@ -0,0 +1,202 @@
+// components/FieldDiffPanel.tsx
+import React, { useState } from 'react';
+import {
+  Drawer,
+  DrawerOverlay,
+  DrawerContent,
+  DrawerHeader,
+  DrawerBody,
+  DrawerCloseButton,
+  VStack,
+  HStack,
+  Text,
+  Box,
+  Badge,
+  Switch,
+  FormControl,
+  FormLabel,
+  Spinner,
+  Center,
+  Alert,
+  AlertIcon,
+  AlertDescription,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td
+} from '@chakra-ui/react';
+import { useFieldDiff } from '../hooks/useFieldDiff';
+import { getFieldDisplayText, parseFieldAttributes } from '../utils/fieldDiff';
+import type { FieldDiff } from '../types/fieldDiff';
+import type { ProcessedItemInfo } from '../types/itemInformation';
+
+interface FieldDiffPanelProps {
+  item: ProcessedItemInfo | null;
+  onClose: () => void;
+}
+
+const getStatusColor = (status: FieldDiff['status']): string => {
+  switch (status) {
+    case 'added':
+      return 'green';
+    case 'removed':
+      return 'red';
+    case 'changed':
+      return 'orange';
+    case 'unchanged':
+    default:
+      return 'gray';
+  }
+};
+
+// Attribute-by-attribute comparison for image and link fields
+const AttributeDiff: React.FC<{ field: FieldDiff }> = ({ field }) => {
+  const published = parseFieldAttributes(field.publishedValue);
+  const latest = parseFieldAttributes(field.latestValue);
+  const names = Array.from(new Set([...Object.keys(published), ...Object.keys(latest)]));
+
+  return (
+    <Table size="sm" variant="simple">
+      <Thead>
+        <Tr>
+          <Th>Attribute</Th>
+          <Th>Published</Th>
+          <Th>Latest</Th>
+        </Tr>
+      </Thead>
+      <Tbody>
+        {names.map(name => {
+          const isChanged = published[name] !== latest[name];
+          return (
+            <Tr key={name} bg={isChanged ? 'orange.50' : undefined}>
+              <Td fontFamily="mono" fontSize="xs">{name}</Td>
+              <Td fontSize="xs" wordBreak="break-all">{published[name] ?? '-'}</Td>
+              <Td fontSize="xs" wordBreak="break-all">{latest[name] ?? '-'}</Td>
+            </Tr>
+          );
+        })}
+      </Tbody>
+    </Table>
+  );
+};
+
+// Inline word-level diff for text and rich text fields
+const TextDiff: React.FC<{ field: FieldDiff }> = ({ field }) => {
+  if (field.status === 'unchanged') {
+    return (
+      <Text fontSize="sm" whiteSpace="pre-wrap" color="gray.600">
+        {getFieldDisplayText(field.latestValue, field.kind) || '(empty)'}
+      </Text>
+    );
+  }
+
+  // Values too large to diff are shown side by side
+  if (field.segments.length === 0) {
+    return (
+      <VStack align="stretch" spacing={2}>
+        <Box bg="red.50" p={2} borderRadius="md">
+          <Text fontSize="xs" fontWeight="semibold" mb={1}>Published</Text>
+          <Text fontSize="sm" whiteSpace="pre-wrap">{getFieldDisplayText(field.publishedValue, field.kind) || '(empty)'}</Text>
+        </Box>
+        <Box bg="green.50" p={2} borderRadius="md">
+          <Text fontSize="xs" fontWeight="semibold" mb={1}>Latest</Text>
+          <Text fontSize="sm" whiteSpace="pre-wrap">{getFieldDisplayText(field.latestValue, field.kind) || '(empty)'}</Text>
+        </Box>
+      </VStack>
+    );
+  }
+
+  return (
+    <Text fontSize="sm" whiteSpace="pre-wrap">
+      {field.segments.map((segment, index) => (
+        <Text
+          as="span"
+          key={index}
+          bg={segment.type === 'added' ? 'green.100' : segment.type === 'removed' ? 'red.100' : undefined}
+          textDecoration={segment.type === 'removed' ? 'line-through' : undefined}
+        >
+          {segment.text}
+        </Text>
+      ))}
+    </Text>
+  );
+};
+
+export const FieldDiffPanel: React.FC<FieldDiffPanelProps> = ({ item, onClose }) => {
+  const { diff, loading, error } = useFieldDiff(item);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const changedFields = diff?.fields.filter(field => field.status !== 'unchanged') || [];
+  const visibleFields = showUnchanged ? diff?.fields || [] : changedFields;
+
+  return (
+    <Drawer isOpen={!!item} onClose={onClose} placement="right" size="lg">
+      <DrawerOverlay />
+      <DrawerContent>
+        <DrawerCloseButton />
+        <DrawerHeader>
+          <VStack align="start" spacing={1}>
+            <Text>{item?.name}</Text>
+            {diff && (
+              <Text fontSize="sm" fontWeight="normal" color="gray.500">
+                Latest v{diff.latestVersion} vs published {diff.publishedVersion ? `v${diff.publishedVersion}` : '(not published)'}
+                {' · '}{changedFields.length} changed field{changedFields.length === 1 ? '' : 's'}
+              </Text>
+            )}
+          </VStack>
+        </DrawerHeader>
+        <DrawerBody>
+          {loading && (
+            <Center py={10}>
+              <Spinner size="lg" color="blue.500" />
+            </Center>
+          )}
+
+          {error && (
+            <Alert status="error">
+              <AlertIcon />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {!loading && diff && (
+            <VStack align="stretch" spacing={4}>
+              <FormControl display="flex" alignItems="center">
+                <FormLabel htmlFor="show-unchanged-fields" mb={0} fontSize="sm">
+                  Show unchanged fields
+                </FormLabel>
+                <Switch
+                  id="show-unchanged-fields"
+                  isChecked={showUnchanged}
+                  onChange={(e) => setShowUnchanged(e.target.checked)}
+                />
+              </FormControl>
+
+              {visibleFields.length === 0 && (
+                <Text fontSize="sm" color="gray.500">
+                  No field differences between the latest and the published version.
+                </Text>
+              )}
+
+              {visibleFields.map(field => (
+                <Box key={field.name} borderWidth="1px" borderRadius="md" p={3}>
+                  <HStack spacing={2} mb={2}>
+                    <Text fontWeight="semibold" fontSize="sm">{field.name}</Text>
+                    <Badge colorScheme={getStatusColor(field.status)}>{field.status}</Badge>
+                    <Badge variant="outline">{field.kind}</Badge>
+                  </HStack>
+                  {field.kind === 'image' || field.kind === 'link'
+                    ? <AttributeDiff field={field} />
+                    : <TextDiff field={field} />
+                  }
+                </Box>
+              ))}
+            </VStack>
+          )}
+        </DrawerBody>
+      </DrawerContent>
+    </Drawer>
+  );
+};
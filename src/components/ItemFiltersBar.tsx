@@ -0,0 +1,170 @@
+// components/ItemFiltersBar.tsx
+import React from 'react';
+import {
+  HStack,
+  Input,
+  Select,
+  Button,
+  Wrap,
+  WrapItem
+} from '@chakra-ui/react';
+import { getItemTypeLabel } from '../utils/itemTypeUtils';
+import { hasActiveFilters } from '../utils/itemFilters';
+import type {
+  ItemFilterOptions,
+  ItemFilters,
+  ItemSort,
+  ItemSortKey,
+  ItemStatusFilter
+} from '../utils/itemFilters';
+import type { ItemType } from '../types/itemInformation';
+
+const STATUS_OPTIONS: Array<{ value: ItemStatusFilter; label: string }> = [
+  { value: 'up-to-date', label: 'Up-to-date' },
+  { value: 'outdated', label: 'Outdated' },
+  { value: 'not-published', label: 'Not Published' },
+  { value: 'preview-only', label: 'In Preview Only' },
+  { value: 'restricted', label: 'Restricted / Scheduled' },
+  { value: 'awaiting-approval', label: 'Awaiting Approval' },
+  { value: 'broken-links', label: 'Link Issues' },
+  { value: 'status-unknown', label: 'Status Unknown' }
+];
+
+const SORT_OPTIONS: Array<{ value: ItemSortKey; label: string }> = [
+  { value: 'name', label: 'Name' },
+  { value: 'path', label: 'Path' },
+  { value: 'latestVersion', label: 'Authoring version' },
+  { value: 'publishedVersion', label: 'Live version' },
+  { value: 'versionDifference', label: 'Versions behind' }
+];
+
+interface ItemFiltersBarProps {
+  filters: ItemFilters;
+  onFiltersChange: (filters: ItemFilters) => void;
+  /** Sort column; null keeps the discovery order */
+  sort: ItemSort | null;
+  onSortChange: (sort: ItemSort | null) => void;
+  options: ItemFilterOptions;
+}
+
+// Search, filter and sort controls for the referenced items table
+export const ItemFiltersBar: React.FC<ItemFiltersBarProps> = ({
+  filters,
+  onFiltersChange,
+  sort,
+  onSortChange,
+  options
+}) => {
+  const setFilter = <K extends keyof ItemFilters>(key: K, value: ItemFilters[K]) => {
+    onFiltersChange({ ...filters, [key]: value });
+  };
+
+  return (
+    <Wrap spacing={2} mb={4} align="center">
+      <WrapItem flex="1" minWidth="200px">
+        <Input
+          size="sm"
+          value={filters.search || ''}
+          onChange={(e) => setFilter('search', e.target.value)}
+          placeholder="Search name, path or ID"
+          aria-label="Search referenced items"
+        />
+      </WrapItem>
+      <WrapItem>
+        <Select
+          size="sm"
+          width="auto"
+          value={filters.status || ''}
+          onChange={(e) => setFilter('status', (e.target.value || null) as ItemStatusFilter | null)}
+          aria-label="Filter by status"
+        >
+          <option value="">All statuses</option>
+          {STATUS_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </Select>
+      </WrapItem>
+      <WrapItem>
+        <Select
+          size="sm"
+          width="auto"
+          value={filters.itemType || ''}
+          onChange={(e) => setFilter('itemType', (e.target.value || null) as ItemType | null)}
+          aria-label="Filter by type"
+        >
+          <option value="">All types</option>
+          {options.itemTypes.map(itemType => (
+            <option key={itemType} value={itemType}>{getItemTypeLabel(itemType)}</option>
+          ))}
+        </Select>
+      </WrapItem>
+      {options.templates.length > 0 && (
+        <WrapItem>
+          <Select
+            size="sm"
+            width="auto"
+            value={filters.template || ''}
+            onChange={(e) => setFilter('template', e.target.value || null)}
+            aria-label="Filter by template"
+          >
+            <option value="">All templates</option>
+            {options.templates.map(template => (
+              <option key={template} value={template}>{template}</option>
+            ))}
+          </Select>
+        </WrapItem>
+      )}
+      {options.parents.length > 0 && (
+        <WrapItem>
+          <Select
+            size="sm"
+            width="auto"
+            value={filters.referencedBy || ''}
+            onChange={(e) => setFilter('referencedBy', e.target.value || null)}
+            aria-label="Filter by referencing item"
+          >
+            <option value="">Referenced by any item</option>
+            {options.parents.map(parent => (
+              <option key={parent.id} value={parent.id}>Referenced by {parent.name}</option>
+            ))}
+          </Select>
+        </WrapItem>
+      )}
+      <WrapItem>
+        <HStack spacing={1}>
+          <Select
+            size="sm"
+            width="auto"
+            value={sort?.key || ''}
+            onChange={(e) => onSortChange(e.target.value
+              ? { key: e.target.value as ItemSortKey, direction: sort?.direction || 'asc' }
+              : null)}
+            aria-label="Sort by"
+          >
+            <option value="">Discovery order</option>
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>Sort by {option.label.toLowerCase()}</option>
+            ))}
+          </Select>
+          {sort && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onSortChange({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' })}
+              title={sort.direction === 'asc' ? 'Ascending' : 'Descending'}
+            >
+              {sort.direction === 'asc' ? '↑' : '↓'}
+            </Button>
+          )}
+        </HStack>
+      </WrapItem>
+      {hasActiveFilters(filters) && (
+        <WrapItem>
+          <Button size="sm" variant="link" onClick={() => onFiltersChange({})}>
+            Clear filters
+          </Button>
+        </WrapItem>
+      )}
+    </Wrap>
+  );
+};
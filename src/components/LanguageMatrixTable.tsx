@@ -0,0 +1,156 @@
+// components/LanguageMatrixTable.tsx
+import React from 'react';
+import {
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  VStack,
+  HStack,
+  Text,
+  Box,
+  Badge,
+  Alert,
+  AlertIcon,
+  AlertDescription,
+  Spinner,
+  Center
+} from '@chakra-ui/react';
+import { useLanguageMatrix } from '../hooks/useLanguageMatrix';
+import { PublishingStatusIndicator, ItemTypeBadge } from './PublishingStatusIndicator';
+import type { LanguageGapSummary, ProcessedItemInfo } from '../types/itemInformation';
+
+interface LanguageMatrixTableProps {
+  items: ProcessedItemInfo[];
+}
+
+// Component for showing the gaps of a single language
+const LanguageGapBadges: React.FC<{ summary: LanguageGapSummary }> = ({ summary }) => {
+  const isComplete = summary.missingVersions === 0 &&
+    summary.unpublishedItems === 0 &&
+    summary.outdatedItems === 0 &&
+    summary.unknownItems === 0;
+
+  return (
+    <HStack spacing={2} wrap="wrap">
+      <Badge colorScheme="blue">{summary.language}</Badge>
+      {isComplete && (
+        <Badge colorScheme="green">All {summary.upToDateItems} up-to-date</Badge>
+      )}
+      {summary.outdatedItems > 0 && (
+        <Badge colorScheme="orange">{summary.outdatedItems} Outdated</Badge>
+      )}
+      {summary.unpublishedItems > 0 && (
+        <Badge colorScheme="red">{summary.unpublishedItems} Not Published</Badge>
+      )}
+      {summary.missingVersions > 0 && (
+        <Badge colorScheme="gray">{summary.missingVersions} No Version</Badge>
+      )}
+      {summary.unknownItems > 0 && (
+        <Badge colorScheme="gray">{summary.unknownItems} Status Unknown</Badge>
+      )}
+    </HStack>
+  );
+};
+
+export const LanguageMatrixTable: React.FC<LanguageMatrixTableProps> = ({ items }) => {
+  const { matrix, loading, error } = useLanguageMatrix(items, true);
+
+  if (loading) {
+    return (
+      <Center py={10}>
+        <VStack spacing={4}>
+          <Spinner size="lg" color="blue.500" />
+          <Text>Loading versions for all languages...</Text>
+        </VStack>
+      </Center>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert status="error">
+        <AlertIcon />
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!matrix || matrix.languages.length === 0) {
+    return (
+      <Alert status="info">
+        <AlertIcon />
+        <AlertDescription>No language versions found for the current items.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <VStack spacing={6} align="stretch">
+      {/* Gaps per language */}
+      <Box>
+        <Text fontSize="md" fontWeight="semibold" mb={3}>
+          Gaps per Language
+        </Text>
+        <VStack align="start" spacing={2}>
+          {matrix.summary.map(summary => (
+            <LanguageGapBadges key={summary.language} summary={summary} />
+          ))}
+        </VStack>
+      </Box>
+
+      {/* Items × languages */}
+      <Box overflowX="auto">
+        <Table variant="simple" size="sm">
+          <Thead>
+            <Tr>
+              <Th>Item Information</Th>
+              <Th>Type</Th>
+              {matrix.languages.map(language => (
+                <Th key={language}>{language}</Th>
+              ))}
+            </Tr>
+          </Thead>
+          <Tbody>
+            {matrix.rows.map(({ item, cells }) => (
+              <Tr key={item.id}>
+                <Td>
+                  <VStack align="start" spacing={1}>
+                    <Text fontWeight="medium" fontSize="sm">
+                      {item.name}
+                    </Text>
+                    <Text fontSize="xs" color="gray.500">
+                      {item.path}
+                    </Text>
+                  </VStack>
+                </Td>
+                <Td>
+                  <ItemTypeBadge itemType={item.itemType} provenance={item.provenance} size="sm" />
+                </Td>
+                {matrix.languages.map(language => {
+                  const cell = cells[language];
+                  return (
+                    <Td key={language}>
+                      {cell ? (
+                        <VStack align="start" spacing={1}>
+                          <PublishingStatusIndicator item={cell} size="sm" />
+                          <Text fontSize="xs" color="gray.500">
+                            {cell.authoringState === 'unavailable' ? '?' : `v${cell.latestVersion}`} / {cell.liveState === 'unavailable' ? '?' : cell.publishedVersion ? `v${cell.publishedVersion}` : '-'}
+                          </Text>
+                        </VStack>
+                      ) : (
+                        <Text fontSize="xs" color="gray.400">No version</Text>
+                      )}
+                    </Td>
+                  );
+                })}
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      </Box>
+    </VStack>
+  );
+};
@@ -0,0 +1,65 @@
+// components/MediaDetails.tsx
+import React, { useState } from 'react';
+import {
+  Badge,
+  Box,
+  HStack,
+  Image,
+  Text,
+  Tooltip,
+  VStack
+} from '@chakra-ui/react';
+import type { MediaBlobState, MediaInfo } from '../types/itemInformation';
+import { describeMediaBlobState, formatFileSize, isImageMedia } from '../utils/mediaItems';
+
+const BLOB_BADGES: Record<MediaBlobState, { label: string; colorScheme: string }> = {
+  published: { label: 'File on Edge', colorScheme: 'green' },
+  missing: { label: 'File missing on Edge', colorScheme: 'orange' },
+  'not-published': { label: 'File not published', colorScheme: 'red' },
+  unknown: { label: 'File not checked', colorScheme: 'gray' }
+};
+
+interface MediaDetailsProps {
+  media: MediaInfo;
+}
+
+// Thumbnail, file details and Edge file status of a media library item
+export const MediaDetails: React.FC<MediaDetailsProps> = ({ media }) => {
+  const [thumbnailFailed, setThumbnailFailed] = useState(false);
+  const showThumbnail = !!media.edgeUrl && isImageMedia(media) && !thumbnailFailed;
+
+  const details = [
+    media.extension?.toUpperCase(),
+    formatFileSize(media.size),
+    media.width && media.height ? `${media.width}×${media.height}` : ''
+  ].filter(Boolean).join(' · ');
+
+  const badge = media.hasBlob
+    ? BLOB_BADGES[media.blobState || 'unknown']
+    : { label: 'No file', colorScheme: 'gray' };
+
+  return (
+    <HStack spacing={2} align="center">
+      {showThumbnail && (
+        <Box flexShrink={0} borderWidth="1px" borderRadius="sm" overflow="hidden">
+          <Image
+            src={media.edgeUrl}
+            alt={media.alt || ''}
+            boxSize="40px"
+            objectFit="cover"
+            loading="lazy"
+            onError={() => setThumbnailFailed(true)}
+          />
+        </Box>
+      )}
+      <VStack align="start" spacing={0}>
+        {details && (
+          <Text fontSize="xs" color="gray.500">{details}</Text>
+        )}
+        <Tooltip label={describeMediaBlobState(media)} placement="top">
+          <Badge colorScheme={badge.colorScheme} fontSize="2xs">{badge.label}</Badge>
+        </Tooltip>
+      </VStack>
+    </HStack>
+  );
+};
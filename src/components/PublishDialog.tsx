@@ -0,0 +1,192 @@
+// components/PublishDialog.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+  ModalCloseButton,
+  Button,
+  Checkbox,
+  FormControl,
+  FormLabel,
+  FormHelperText,
+  Input,
+  VStack,
+  HStack,
+  Text,
+  Badge,
+  Spinner,
+  Box
+} from '@chakra-ui/react';
+import type { ProcessedItemInfo } from '../types/itemInformation';
+import type { PublishJob, PublishOptions } from '../types/publishing';
+import { DEFAULT_PUBLISH_OPTIONS } from '../hooks/usePublishing';
+
+interface PublishDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: ProcessedItemInfo[];
+  onPublish: (options: PublishOptions) => void;
+}
+
+const parseList = (value: string): string[] =>
+  value.split(',').map(entry => entry.trim()).filter(entry => entry.length > 0);
+
+export const PublishDialog: React.FC<PublishDialogProps> = ({
+  isOpen,
+  onClose,
+  items,
+  onPublish
+}) => {
+  const [languages, setLanguages] = useState('');
+  const [targets, setTargets] = useState('');
+  const [publishSubItems, setPublishSubItems] = useState(DEFAULT_PUBLISH_OPTIONS.publishSubItems);
+  const [publishRelatedItems, setPublishRelatedItems] = useState(DEFAULT_PUBLISH_OPTIONS.publishRelatedItems);
+
+  // Reset the form with the languages of the selected items each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      const itemLanguages = Array.from(new Set(items.map(item => item.language).filter((language): language is string => !!language)));
+      setLanguages((itemLanguages.length > 0 ? itemLanguages : DEFAULT_PUBLISH_OPTIONS.languages).join(', '));
+      setTargets(DEFAULT_PUBLISH_OPTIONS.targetDatabases.join(', '));
+      setPublishSubItems(DEFAULT_PUBLISH_OPTIONS.publishSubItems);
+      setPublishRelatedItems(DEFAULT_PUBLISH_OPTIONS.publishRelatedItems);
+    }
+  }, [isOpen, items]);
+
+  const languageList = parseList(languages);
+  const targetList = parseList(targets);
+  const canPublish = items.length > 0 && languageList.length > 0 && targetList.length > 0;
+
+  const handlePublish = () => {
+    onPublish({
+      ...DEFAULT_PUBLISH_OPTIONS,
+      languages: languageList,
+      targetDatabases: targetList,
+      publishSubItems,
+      publishRelatedItems
+    });
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="lg">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          Publish {items.length === 1 ? items[0].name : `${items.length} Items`}
+        </ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <VStack align="stretch" spacing={4}>
+            {items.length > 1 && (
+              <Box maxH="150px" overflowY="auto">
+                {items.map(item => (
+                  <Text key={item.id} fontSize="sm" color="gray.600">
+                    {item.name}
+                  </Text>
+                ))}
+              </Box>
+            )}
+
+            <FormControl>
+              <FormLabel>Languages</FormLabel>
+              <Input value={languages} onChange={(e) => setLanguages(e.target.value)} size="sm" />
+              <FormHelperText>Comma-separated language codes, e.g. en, de-DE</FormHelperText>
+            </FormControl>
+
+            <FormControl>
+              <FormLabel>Publishing Targets</FormLabel>
+              <Input value={targets} onChange={(e) => setTargets(e.target.value)} size="sm" />
+              <FormHelperText>Comma-separated target database names</FormHelperText>
+            </FormControl>
+
+            <Checkbox isChecked={publishSubItems} onChange={(e) => setPublishSubItems(e.target.checked)}>
+              Publish subitems
+            </Checkbox>
+
+            <Checkbox isChecked={publishRelatedItems} onChange={(e) => setPublishRelatedItems(e.target.checked)}>
+              Publish related items
+            </Checkbox>
+          </VStack>
+        </ModalBody>
+        <ModalFooter>
+          <HStack spacing={3}>
+            <Button variant="ghost" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button colorScheme="blue" onClick={handlePublish} isDisabled={!canPublish}>
+              Publish
+            </Button>
+          </HStack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+// Component for showing the progress of publish jobs
+interface PublishJobsListProps {
+  jobs: PublishJob[];
+  onClear?: () => void;
+}
+
+const getJobStateColor = (state: PublishJob['state']): string => {
+  switch (state) {
+    case 'completed':
+      return 'green';
+    case 'failed':
+      return 'red';
+    case 'timed-out':
+      return 'orange';
+    case 'running':
+      return 'blue';
+    case 'queued':
+    default:
+      return 'gray';
+  }
+};
+
+export const PublishJobsList: React.FC<PublishJobsListProps> = ({ jobs, onClear }) => {
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const hasFinishedJobs = jobs.some(job => job.state !== 'queued' && job.state !== 'running');
+
+  return (
+    <VStack align="stretch" spacing={2}>
+      <HStack justify="space-between">
+        <Text fontSize="md" fontWeight="semibold">
+          Publish Jobs
+        </Text>
+        {onClear && hasFinishedJobs && (
+          <Button size="xs" variant="ghost" onClick={onClear}>
+            Clear finished
+          </Button>
+        )}
+      </HStack>
+      {jobs.map(job => (
+        <HStack key={job.operationId} spacing={3}>
+          {(job.state === 'queued' || job.state === 'running') && <Spinner size="xs" />}
+          <Badge colorScheme={getJobStateColor(job.state)} textTransform="capitalize">
+            {job.state === 'timed-out' ? 'Timed out' : job.state}
+          </Badge>
+          <Text fontSize="sm">{job.itemNames.join(', ')}</Text>
+          <Text fontSize="xs" color="gray.500">
+            {job.options.languages.join(', ')}
+            {job.processed > 0 && ` · ${job.processed} processed`}
+          </Text>
+          {job.error && (
+            <Text fontSize="xs" color={job.state === 'timed-out' ? 'orange.500' : 'red.500'}>
+              {job.error}
+            </Text>
+          )}
+        </HStack>
+      ))}
+    </VStack>
+  );
+};
@@ -1,5 +1,5 @@
 ﻿// components/PublishedStatusTable.tsx
-import React from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   Table,
   Thead,
@@ -19,27 +19,141 @@ import {
   AlertDescription,
   Spinner,
   Center,
-  useToast
+  ButtonGroup,
+  Select,
+  Switch,
+  FormControl,
+  FormLabel,
+  Menu,
+  MenuButton,
+  MenuList,
+  MenuItem,
+  MenuDivider,
+  useToast,
+  useDisclosure
 } from '@chakra-ui/react';
 import { useItemInformation } from '../hooks/useItemInformation';
+import { DEFAULT_MAX_REFERENCE_DEPTH } from '../utils/referenceTraversal';
+import { usePublishing } from '../hooks/usePublishing';
 import { 
   PublishingStatusIndicator, 
   PublishingStatusSummary, 
-  ItemTypeBadge 
+  ItemTypeBadge,
+  EnvironmentVersion,
+  LinkIssueBadges,
+  RenderingVariantBadges
 } from './PublishingStatusIndicator';
-import { formatGuidWithHyphens } from '../utils/dataProcessing';
+import { PublishDialog, PublishJobsList } from './PublishDialog';
+import { LanguageMatrixTable } from './LanguageMatrixTable';
+import { DependencyTreeView } from './DependencyTreeView';
+import { SiteAuditPanel } from './SiteAuditPanel';
+import { FieldDiffPanel } from './FieldDiffPanel';
+import { ItemFiltersBar } from './ItemFiltersBar';
+import { MediaDetails } from './MediaDetails';
+import { formatGuidWithHyphens, isFromPageDesign } from '../utils/dataProcessing';
+import { describeProvenance } from '../utils/itemTypeUtils';
+import { needsPublishing } from '../utils/publishingStatus';
+import { exportReport, getReportFileName, getReportMimeType } from '../utils/reportExport';
+import type { ReportExportFormat } from '../utils/reportExport';
+import { filterItems, getFilterOptions, sortItems } from '../utils/itemFilters';
+import type { ItemFilters, ItemSort, ItemSortKey } from '../utils/itemFilters';
+import type { ProcessedItemInfo } from '../types/itemInformation';
+import type { PublishJob, PublishOptions } from '../types/publishing';
+
+const REFERENCE_DEPTH_OPTIONS = [1, 2, 3, 4, 5];
+
+const POLL_INTERVAL_OPTIONS = [
+  { value: 0, label: 'Auto-refresh off' },
+  { value: 30000, label: 'Every 30 seconds' },
+  { value: 60000, label: 'Every minute' },
+  { value: 300000, label: 'Every 5 minutes' }
+];
+
+interface SortableThProps {
+  sortKey: ItemSortKey;
+  sort: ItemSort | null;
+  onSortChange: (sort: ItemSort | null) => void;
+  children: React.ReactNode;
+}
+
+// Column header that sorts by its column, toggling the direction on repeated clicks
+const SortableTh: React.FC<SortableThProps> = ({ sortKey, sort, onSortChange, children }) => {
+  const isSorted = sort?.key === sortKey;
+  return (
+    <Th
+      cursor="pointer"
+      userSelect="none"
+      onClick={() => onSortChange({ key: sortKey, direction: isSorted && sort.direction === 'asc' ? 'desc' : 'asc' })}
+      aria-sort={isSorted ? (sort.direction === 'asc' ? 'ascending' : 'descending') : undefined}
+    >
+      {children}
+      {isSorted && (sort.direction === 'asc' ? ' ↑' : ' ↓')}
+    </Th>
+  );
+};
 
 export const PublishedStatusTable: React.FC = () => {
+  const [maxReferenceDepth, setMaxReferenceDepth] = useState(DEFAULT_MAX_REFERENCE_DEPTH);
+  const [pollInterval, setPollInterval] = useState(0);
+
   const { 
     data, 
     items, 
     loading, 
     error, 
-    refetch 
-  } = useItemInformation();
+    refetch,
+    refetchItems,
+    forceRefresh,
+    referenceGraphTruncated,
+    partialFailures,
+    lastUpdated 
+  } = useItemInformation({ maxReferenceDepth, pollInterval });
 
   const toast = useToast();
 
+  // Refresh the published items; subitems and related items may be anywhere in the list, so all are refreshed then
+  const handleJobsCompleted = useCallback((finishedJobs: PublishJob[]) => {
+    const publishedDescendants = finishedJobs.some(job => job.options.publishSubItems || job.options.publishRelatedItems);
+    const itemIds = publishedDescendants
+      ? items.map(item => item.id)
+      : finishedJobs.flatMap(job => job.itemIds);
+    refetchItems(itemIds);
+  }, [items, refetchItems]);
+
+  const { 
+    jobs: publishJobs, 
+    isPublishing, 
+    error: publishError, 
+    publish, 
+    clearFinishedJobs 
+  } = usePublishing({ onJobsCompleted: handleJobsCompleted });
+
+  const publishDialog = useDisclosure();
+  const [itemsToPublish, setItemsToPublish] = useState<ProcessedItemInfo[]>([]);
+  const [diffItem, setDiffItem] = useState<ProcessedItemInfo | null>(null);
+  const [filters, setFilters] = useState<ItemFilters>({});
+  const [sort, setSort] = useState<ItemSort | null>(null);
+  const [viewMode, setViewMode] = useState<'table' | 'tree' | 'languages' | 'audit'>('table');
+
+  const openPublishDialog = (publishItems: ProcessedItemInfo[]) => {
+    setItemsToPublish(publishItems);
+    publishDialog.onOpen();
+  };
+
+  const handlePublish = async (options: PublishOptions) => {
+    await publish(itemsToPublish.map(item => ({ id: item.id, name: item.name })), options);
+    toast({
+      title: 'Publish Started',
+      description: `Publishing ${itemsToPublish.length} item${itemsToPublish.length > 1 ? 's' : ''}. The table will refresh when publishing finishes.`,
+      status: 'info',
+      duration: 3000,
+      isClosable: true,
+    });
+  };
+
+  // Long values such as exported reports are summarized instead of echoed in the toast
+  const formatCopiedText = (text: string) => text.length > 80 ? `${text.split('\n').length} lines` : text;
+
   const copyToClipboard = async (text: string, description: string = 'Item ID') => {
     try {
       if (navigator.clipboard && window.isSecureContext) {
@@ -47,7 +161,7 @@ export const PublishedStatusTable: React.FC = () => {
         await navigator.clipboard.writeText(text);
         toast({
           title: `${description} Copied!`,
-          description: `${text} has been copied to clipboard`,
+          description: `${formatCopiedText(text)} has been copied to clipboard`,
           status: 'success',
           duration: 2000,
           isClosable: true,
@@ -69,7 +183,7 @@ export const PublishedStatusTable: React.FC = () => {
         if (successful) {
           toast({
             title: `${description} Copied!`,
-            description: `${text} has been copied to clipboard`,
+            description: `${formatCopiedText(text)} has been copied to clipboard`,
             status: 'success',
             duration: 2000,
             isClosable: true,
@@ -90,7 +204,25 @@ export const PublishedStatusTable: React.FC = () => {
     }
   };
 
-  if (loading) {
+  const downloadReport = (format: ReportExportFormat) => {
+    if (!data) {
+      return;
+    }
+
+    const generatedAt = new Date();
+    const blob = new Blob([exportReport(data, format, generatedAt)], { type: getReportMimeType(format) });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getReportFileName(data, format, generatedAt);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  // Background refreshes keep the current data on screen
+  if (loading && !data) {
     return (
       <Center py={10}>
         <VStack spacing={4}>
@@ -133,6 +265,117 @@ export const PublishedStatusTable: React.FC = () => {
     );
   }
 
+  const visibleReferencedItems = sortItems(filterItems(data.referencedItems, filters), sort);
+  // Items that only come from the page design are listed in their own group
+  const visiblePageItems = visibleReferencedItems.filter(item => !isFromPageDesign(item));
+  const visibleDesignItems = visibleReferencedItems.filter(isFromPageDesign);
+
+  const renderReferencedItemRow = (item: ProcessedItemInfo) => (
+    <Tr key={item.id}>
+      <Td>
+        <VStack align="start" spacing={1}>
+          <Text fontWeight="medium" fontSize="sm">
+            {item.name}
+          </Text>
+          <Text fontSize="xs" color="gray.500">
+            {item.path}
+          </Text>
+          <HStack spacing={2} align="center">
+            <Text fontSize="xs" fontFamily="mono" color="blue.600">
+              ID: {formatGuidWithHyphens(item.id)}
+            </Text>
+            <Button 
+              size="xs" 
+              variant="ghost" 
+              onClick={() => copyToClipboard(formatGuidWithHyphens(item.id), 'Item ID')}
+              title="Copy Item ID"
+            >
+              📋
+            </Button>
+          </HStack>
+          {item.template && (
+            <Text fontSize="xs" color="gray.400">
+              Template: {item.template}
+            </Text>
+          )}
+          {item.media && <MediaDetails media={item.media} />}
+          <LinkIssueBadges item={item} />
+        </VStack>
+      </Td>
+      <Td>
+        {item.referencedBy && item.referencedBy.length > 0 ? (
+          <VStack align="start" spacing={1}>
+            {item.referencedBy.map((parent) => (
+              <Text key={parent.id} fontSize="sm" color="gray.600">
+                <span aria-hidden="true">📌</span> {parent.displayName || parent.name}
+              </Text>
+            ))}
+          </VStack>
+        ) : (
+          <Text fontSize="sm" color="gray.400">-</Text>
+        )}
+      </Td>
+      <Td>
+        <VStack align="start" spacing={1}>
+          <ItemTypeBadge itemType={item.itemType} provenance={item.provenance} />
+          {item.provenance && item.provenance.length > 0 && (
+            <Text fontSize="xs" color="gray.500">
+              {describeProvenance(item.provenance[0])}
+              {item.provenance.length > 1 && ` +${item.provenance.length - 1} more`}
+            </Text>
+          )}
+          <RenderingVariantBadges provenance={item.provenance} />
+        </VStack>
+      </Td>
+      <Td>
+        <Text fontWeight="semibold">
+          v{item.latestVersion}
+        </Text>
+      </Td>
+      <Td>
+        <EnvironmentVersion
+          version={item.previewVersion}
+          state={item.previewState}
+          latestVersion={item.latestVersion}
+          notFoundLabel="Not in Preview"
+        />
+      </Td>
+      <Td>
+        <EnvironmentVersion
+          version={item.publishedVersion}
+          state={item.liveState}
+          latestVersion={item.latestVersion}
+          notFoundLabel="Not Published"
+        />
+      </Td>
+      <Td>
+        <PublishingStatusIndicator item={item} showDetails={false} />
+      </Td>
+      <Td>
+        <HStack spacing={2}>
+          {needsPublishing(item) && (
+            <Button 
+              size="xs" 
+              colorScheme="orange" 
+              onClick={() => openPublishDialog([item])}
+            >
+              Publish
+            </Button>
+          )}
+          {item.isOutdated && (
+            <Button 
+              size="xs" 
+              variant="outline" 
+              onClick={() => setDiffItem(item)}
+            >
+              Diff
+            </Button>
+          )}
+        </HStack>
+      </Td>
+    </Tr>
+  );
+
   return (
     <VStack spacing={6} align="stretch" p={6}>
       {/* Header */}
@@ -141,21 +384,169 @@ export const PublishedStatusTable: React.FC = () => {
         <Text color="gray.600" fontSize="sm">
           Current item and referenced items publishing information
         </Text>
-        <Button colorScheme="blue" onClick={refetch} size="sm">
-          Refresh
-        </Button>
+        <HStack spacing={3}>
+          <Button colorScheme="blue" onClick={forceRefresh} size="sm" isLoading={loading} loadingText="Refreshing">
+            Refresh
+          </Button>
+          <Button 
+            colorScheme="orange" 
+            variant="outline"
+            size="sm"
+            onClick={() => openPublishDialog(items.filter(needsPublishing))}
+            isDisabled={!items.some(needsPublishing)}
+            isLoading={isPublishing}
+            loadingText="Publishing"
+          >
+            Publish Outdated & Unpublished ({items.filter(needsPublishing).length})
+          </Button>
+          <Menu>
+            <MenuButton as={Button} size="sm" variant="outline">
+              Export
+            </MenuButton>
+            <MenuList fontSize="sm">
+              <MenuItem onClick={() => downloadReport('csv')}>Download CSV</MenuItem>
+              <MenuItem onClick={() => downloadReport('json')}>Download JSON</MenuItem>
+              <MenuItem onClick={() => downloadReport('markdown')}>Download Markdown checklist</MenuItem>
+              <MenuDivider />
+              <MenuItem onClick={() => copyToClipboard(exportReport(data, 'markdown'), 'Markdown checklist')}>
+                Copy Markdown checklist
+              </MenuItem>
+            </MenuList>
+          </Menu>
+          <Select 
+            size="sm" 
+            width="auto"
+            value={maxReferenceDepth}
+            onChange={(e) => setMaxReferenceDepth(Number(e.target.value))}
+            title="Reference depth"
+          >
+            {REFERENCE_DEPTH_OPTIONS.map(depth => (
+              <option key={depth} value={depth}>
+                Depth {depth}
+              </option>
+            ))}
+          </Select>
+          <Select 
+            size="sm" 
+            width="auto"
+            value={pollInterval}
+            onChange={(e) => setPollInterval(Number(e.target.value))}
+            title="Auto-refresh interval: picks up publishes made outside this app, which the editor does not report"
+          >
+            {POLL_INTERVAL_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </Select>
+          {lastUpdated && (
+            <Text fontSize="xs" color="gray.500" whiteSpace="nowrap">
+              Updated {lastUpdated.toLocaleTimeString()}
+            </Text>
+          )}
+        </HStack>
       </VStack>
 
+      {partialFailures && partialFailures.length > 0 && (
+        <Alert status="warning">
+          <AlertIcon />
+          <VStack align="start" spacing={1}>
+            <AlertTitle>Some items could not be loaded</AlertTitle>
+            {partialFailures.map((failure, index) => (
+              <AlertDescription key={index} fontSize="sm">
+                {failure.itemIds.length} item{failure.itemIds.length > 1 ? 's' : ''} from the {failure.endpoint} endpoint: {failure.error}
+              </AlertDescription>
+            ))}
+          </VStack>
+        </Alert>
+      )}
+
+      {referenceGraphTruncated && (
+        <Alert status="warning">
+          <AlertIcon />
+          <AlertDescription>
+            Some references are deeper than {maxReferenceDepth} level{maxReferenceDepth > 1 ? 's' : ''} and were not followed. Increase the depth to include them.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {publishError && (
+        <Alert status="error">
+          <AlertIcon />
+          <AlertDescription>{publishError}</AlertDescription>
+        </Alert>
+      )}
+
+      <PublishJobsList jobs={publishJobs} onClear={clearFinishedJobs} />
+
+      {/* View Mode */}
+      <ButtonGroup size="sm" isAttached variant="outline">
+        <Button 
+          onClick={() => setViewMode('table')}
+          colorScheme={viewMode === 'table' ? 'blue' : 'gray'}
+        >
+          Table
+        </Button>
+        <Button 
+          onClick={() => setViewMode('tree')}
+          colorScheme={viewMode === 'tree' ? 'blue' : 'gray'}
+        >
+          Tree
+        </Button>
+        <Button 
+          onClick={() => setViewMode('languages')}
+          colorScheme={viewMode === 'languages' ? 'blue' : 'gray'}
+        >
+          All Languages
+        </Button>
+        <Button 
+          onClick={() => setViewMode('audit')}
+          colorScheme={viewMode === 'audit' ? 'blue' : 'gray'}
+        >
+          Site Audit
+        </Button>
+      </ButtonGroup>
+
+      {/* Language Matrix */}
+      {viewMode === 'languages' && <LanguageMatrixTable items={items} />}
+
+      {/* Site Audit */}
+      {viewMode === 'audit' && (
+        <SiteAuditPanel 
+          defaultRootPath={data.currentItem.path}
+          language={data.currentItem.language || 'en'}
+          maxReferenceDepth={maxReferenceDepth}
+        />
+      )}
+
+      {/* Dependency Tree */}
+      {viewMode === 'tree' && (
+        <Box>
+          <Heading size="md" mb={4}>Content Dependencies</Heading>
+          <DependencyTreeView 
+            currentItem={data.currentItem} 
+            referencedItems={data.referencedItems} 
+          />
+        </Box>
+      )}
+
       {/* Summary */}
-      <Box>
-        <Text fontSize="md" fontWeight="semibold" mb={3}>
-          Publishing Summary
-        </Text>
-        <PublishingStatusSummary items={items} />
-      </Box>
+      {(viewMode === 'table' || viewMode === 'tree') && (
+        <Box>
+          <Text fontSize="md" fontWeight="semibold" mb={3}>
+            Publishing Summary
+          </Text>
+          {/* The badges filter the referenced items table, so in table view they count the same list */}
+          <PublishingStatusSummary 
+            items={viewMode === 'table' ? data.referencedItems : items} 
+            activeStatus={viewMode === 'table' ? filters.status : null}
+            onStatusClick={viewMode === 'table' ? (status => setFilters({ ...filters, status })) : undefined}
+          />
+        </Box>
+      )}
 
       {/* Current Item Section */}
-      {data.currentItem && (
+      {viewMode === 'table' && data.currentItem && (
         <Box>
           <Heading size="md" mb={4}>Current Item</Heading>
           <Table variant="simple" size="md">
@@ -163,9 +554,11 @@ export const PublishedStatusTable: React.FC = () => {
               <Tr>
                 <Th>Item Information</Th>
                 <Th>Type</Th>
-                <Th>Latest Version</Th>
-                <Th>Published Version</Th>
+                <Th>Authoring</Th>
+                <Th>Preview</Th>
+                <Th>Live</Th>
                 <Th>Publishing Status</Th>
+                <Th>Actions</Th>
               </Tr>
             </Thead>
             <Tbody>
@@ -203,12 +596,20 @@ export const PublishedStatusTable: React.FC = () => {
                   <Text fontWeight="semibold">v{data.currentItem.latestVersion}</Text>
                 </Td>
                 <Td>
-                  <Text>
-                    {data.currentItem.publishedVersion 
-                      ? `v${data.currentItem.publishedVersion}`
-                      : 'Not Published'
-                    }
-                  </Text>
+                  <EnvironmentVersion
+                    version={data.currentItem.previewVersion}
+                    state={data.currentItem.previewState}
+                    latestVersion={data.currentItem.latestVersion}
+                    notFoundLabel="Not in Preview"
+                  />
+                </Td>
+                <Td>
+                  <EnvironmentVersion
+                    version={data.currentItem.publishedVersion}
+                    state={data.currentItem.liveState}
+                    latestVersion={data.currentItem.latestVersion}
+                    notFoundLabel="Not Published"
+                  />
                 </Td>
                 <Td>
                   <PublishingStatusIndicator 
@@ -216,6 +617,28 @@ export const PublishedStatusTable: React.FC = () => {
                     showDetails={false}
                   />
                 </Td>
+                <Td>
+                  <HStack spacing={2}>
+                    {needsPublishing(data.currentItem) && (
+                      <Button 
+                        size="xs" 
+                        colorScheme="orange" 
+                        onClick={() => openPublishDialog([data.currentItem])}
+                      >
+                        Publish
+                      </Button>
+                    )}
+                    {data.currentItem.isOutdated && (
+                      <Button 
+                        size="xs" 
+                        variant="outline" 
+                        onClick={() => setDiffItem(data.currentItem)}
+                      >
+                        Diff
+                      </Button>
+                    )}
+                  </HStack>
+                </Td>
               </Tr>
             </Tbody>
           </Table>
@@ -223,91 +646,83 @@ export const PublishedStatusTable: React.FC = () => {
       )}
 
       {/* Referenced Items Section */}
-      {data.referencedItems.length > 0 && (
+      {viewMode === 'table' && data.referencedItems.length > 0 && (
         <Box>
-          <Heading size="md" mb={4}>
-            Referenced Items ({data.referencedItems.length})
-          </Heading>
+          <HStack justify="space-between" mb={4}>
+            <Heading size="md">
+              Referenced Items ({visibleReferencedItems.length === data.referencedItems.length
+                ? data.referencedItems.length
+                : `${visibleReferencedItems.length} of ${data.referencedItems.length}`})
+            </Heading>
+            <FormControl display="flex" alignItems="center" width="auto">
+              <FormLabel htmlFor="blocked-by-workflow-filter" mb={0} fontSize="sm">
+                Only items blocked by workflow
+              </FormLabel>
+              <Switch
+                id="blocked-by-workflow-filter"
+                isChecked={filters.status === 'awaiting-approval'}
+                onChange={(e) => setFilters({ ...filters, status: e.target.checked ? 'awaiting-approval' : null })}
+              />
+            </FormControl>
+          </HStack>
+          <ItemFiltersBar
+            filters={filters}
+            onFiltersChange={setFilters}
+            sort={sort}
+            onSortChange={setSort}
+            options={getFilterOptions(data.referencedItems)}
+          />
           <Table variant="simple" size="md">
             <Thead>
               <Tr>
-                <Th>Item Information</Th>
+                <SortableTh sortKey="name" sort={sort} onSortChange={setSort}>Item Information</SortableTh>
+                <Th>Referenced By</Th>
                 <Th>Type</Th>
-                <Th>Latest Version</Th>
-                <Th>Published Version</Th>
+                <SortableTh sortKey="latestVersion" sort={sort} onSortChange={setSort}>Authoring</SortableTh>
+                <Th>Preview</Th>
+                <SortableTh sortKey="publishedVersion" sort={sort} onSortChange={setSort}>Live</SortableTh>
                 <Th>Publishing Status</Th>
+                <Th>Actions</Th>
               </Tr>
             </Thead>
             <Tbody>
-              {data.referencedItems.map((item) => (
-                <Tr key={item.id}>
-                  <Td>
-                    <VStack align="start" spacing={1}>
-                      <Text fontWeight="medium" fontSize="sm">
-                        {item.name}
-                      </Text>
-                      <Text fontSize="xs" color="gray.500">
-                        {item.path}
-                      </Text>
-                      <HStack spacing={2} align="center">
-                        <Text fontSize="xs" fontFamily="mono" color="blue.600">
-                          ID: {formatGuidWithHyphens(item.id)}
-                        </Text>
-                        <Button 
-                          size="xs" 
-                          variant="ghost" 
-                          onClick={() => copyToClipboard(formatGuidWithHyphens(item.id), 'Item ID')}
-                          title="Copy Item ID"
-                        >
-                          📋
-                        </Button>
-                      </HStack>
-                      {item.template && (
-                        <Text fontSize="xs" color="gray.400">
-                          Template: {item.template}
-                        </Text>
-                      )}
-                    </VStack>
-                  </Td>
-                  <Td>
-                    {item.referencedBy && item.referencedBy.length > 0 ? (
-                      <VStack align="start" spacing={1}>
-                        {item.referencedBy.map((parent) => (
-                          <Text key={parent.id} fontSize="sm" color="gray.600">
-                            <span aria-hidden="true">📌</span> {parent.displayName || parent.name}
-                          </Text>
-                        ))}
-                      </VStack>
-                    ) : (
-                      <Text fontSize="sm" color="gray.400">-</Text>
-                    )}
-                  </Td>
-                  <Td>
-                    <ItemTypeBadge itemType={item.itemType} />
-                  </Td>
-                  <Td>
-                    <Text fontWeight="semibold">
-                      v{item.latestVersion}
+              {visiblePageItems.map(renderReferencedItemRow)}
+              {visibleDesignItems.length > 0 && (
+                <Tr>
+                  <Td colSpan={8} bg="gray.50">
+                    <Text fontSize="sm" fontWeight="semibold">
+                      From page design ({visibleDesignItems.length})
                     </Text>
-                  </Td>
-                  <Td>
-                    <Text>
-                      {item.publishedVersion 
-                        ? `v${item.publishedVersion}`
-                        : 'Not Published'
-                      }
+                    <Text fontSize="xs" color="gray.500">
+                      Page design, partial designs and their datasources; these are shown on every page that uses the design
                     </Text>
                   </Td>
-                  <Td>
-                    <PublishingStatusIndicator item={item} showDetails={false} />
+                </Tr>
+              )}
+              {visibleDesignItems.map(renderReferencedItemRow)}
+              {visibleReferencedItems.length === 0 && (
+                <Tr>
+                  <Td colSpan={8}>
+                    <Text fontSize="sm" color="gray.500" textAlign="center">
+                      No referenced items match the filters
+                    </Text>
                   </Td>
                 </Tr>
-              ))}
+              )}
             </Tbody>
           </Table>
         </Box>
       )}
 
+      <PublishDialog
+        isOpen={publishDialog.isOpen}
+        onClose={publishDialog.onClose}
+        items={itemsToPublish}
+        onPublish={handlePublish}
+      />
+
+      <FieldDiffPanel item={diffItem} onClose={() => setDiffItem(null)} />
+
       {/* Debug Information (can be removed in production) */}
       {process.env.NODE_ENV === 'development' && (
         <Box>
@@ -8,8 +8,24 @@ import {
   Text,
   VStack
 } from '@chakra-ui/react';
-import type { ProcessedItemInfo } from '../types/itemInformation';
-import { getItemTypeColor, getItemTypeLabel } from '../utils/itemTypeUtils';
+import type {
+  ItemLookupState,
+  ItemProvenance,
+  ProcessedItemInfo
+} from '../types/itemInformation';
+import {
+  describeLinkIssue,
+  describeProvenance,
+  describeRenderingVariant,
+  getItemTypeColor,
+  getItemTypeLabel,
+  getRenderingVariants
+} from '../utils/itemTypeUtils';
+import { getLinkIssues } from '../utils/dataProcessing';
+import { matchesStatusFilter } from '../utils/itemFilters';
+import type { ItemStatusFilter } from '../utils/itemFilters';
+import { getPublishingStatus } from '../utils/publishingStatus';
+import type { PublishingStatusIcon } from '../utils/publishingStatus';
 
 // Define our own icons with proper typing
 interface IconProps {
@@ -42,6 +58,13 @@ const TimeIcon = (props: IconProps) => (
   </svg>
 );
 
+const STATUS_ICONS: Record<PublishingStatusIcon, (props: IconProps) => React.ReactElement> = {
+  check: CheckCircleIcon,
+  warning: WarningIcon,
+  error: XCircleIcon,
+  time: TimeIcon
+};
+
 interface PublishingStatusIndicatorProps {
   item: ProcessedItemInfo;
   showDetails?: boolean;
@@ -53,34 +76,8 @@ export const PublishingStatusIndicator: React.FC<PublishingStatusIndicatorProps>
   showDetails = false,
   size = 'md'
 }) => {
-  const getStatusConfig = () => {
-    if (!item.isPublished) {
-      return {
-        status: 'Not Published',
-        colorScheme: 'red',
-        icon: XCircleIcon,
-        description: 'This item has not been published to the live environment'
-      };
-    }
-
-    if (item.isOutdated) {
-      return {
-        status: 'Outdated',
-        colorScheme: 'orange',
-        icon: WarningIcon,
-        description: `Published version (${item.publishedVersion}) is behind latest version (${item.latestVersion})`
-      };
-    }
-
-    return {
-      status: 'Up-to-date',
-      colorScheme: 'green',
-      icon: CheckCircleIcon,
-      description: `Published version (${item.publishedVersion}) matches latest version (${item.latestVersion})`
-    };
-  };
-
-  const statusConfig = getStatusConfig();
+  const statusConfig = getPublishingStatus(item);
+  const statusIcon = STATUS_ICONS[statusConfig.icon];
 
   const StatusBadge = (
     <Badge
@@ -90,7 +87,7 @@ export const PublishingStatusIndicator: React.FC<PublishingStatusIndicatorProps>
       alignItems="center"
       gap={1}
     >
-      <Icon as={statusConfig.icon} boxSize={3} />
+      <Icon as={statusIcon} boxSize={3} />
       {statusConfig.status}
     </Badge>
   );
@@ -112,6 +109,12 @@ export const PublishingStatusIndicator: React.FC<PublishingStatusIndicatorProps>
             <Icon as={TimeIcon} boxSize={3} />
             <Text>Latest: v{item.latestVersion}</Text>
           </HStack>
+          {item.previewVersion && (
+            <HStack spacing={1}>
+              <Icon as={CheckCircleIcon} boxSize={3} color="blue.500" />
+              <Text>Preview: v{item.previewVersion}</Text>
+            </HStack>
+          )}
           {item.isPublished && (
             <HStack spacing={1}>
               <Icon as={CheckCircleIcon} boxSize={3} color="green.500" />
@@ -133,58 +136,181 @@ export const PublishingStatusIndicator: React.FC<PublishingStatusIndicatorProps>
 // Component for showing a summary of multiple items' publishing status
 interface PublishingStatusSummaryProps {
   items: ProcessedItemInfo[];
+  /** Status quick filter that is applied; its badge is highlighted */
+  activeStatus?: ItemStatusFilter | null;
+  /** Makes the badges clickable quick filters; the Total badge and the active badge clear the filter */
+  onStatusClick?: (status: ItemStatusFilter | null) => void;
 }
 
-export const PublishingStatusSummary: React.FC<PublishingStatusSummaryProps> = ({ items }) => {
+interface SummaryBadgeProps {
+  colorScheme: string;
+  icon?: (props: IconProps) => React.ReactElement;
+  isActive: boolean;
+  onClick?: () => void;
+  children: React.ReactNode;
+}
+
+const SummaryBadge: React.FC<SummaryBadgeProps> = ({ colorScheme, icon, isActive, onClick, children }) => (
+  <Badge
+    colorScheme={colorScheme}
+    size="lg"
+    variant={isActive ? 'solid' : 'subtle'}
+    {...(onClick && {
+      as: 'button',
+      type: 'button',
+      cursor: 'pointer',
+      onClick,
+      'aria-pressed': isActive,
+      _hover: { opacity: 0.8 }
+    })}
+  >
+    {icon && <Icon as={icon} boxSize={3} mr={1} />}
+    {children}
+  </Badge>
+);
+
+export const PublishingStatusSummary: React.FC<PublishingStatusSummaryProps> = ({
+  items,
+  activeStatus = null,
+  onStatusClick
+}) => {
+  const count = (status: ItemStatusFilter) => items.filter(item => matchesStatusFilter(item, status)).length;
   const summary = {
     total: items.length,
-    published: items.filter(item => item.isPublished).length,
-    unpublished: items.filter(item => !item.isPublished).length,
-    outdated: items.filter(item => item.isOutdated).length,
-    upToDate: items.filter(item => item.isPublished && !item.isOutdated).length
+    unpublished: count('not-published'),
+    outdated: count('outdated'),
+    upToDate: count('up-to-date'),
+    previewOnly: count('preview-only'),
+    blockedByWorkflow: count('awaiting-approval'),
+    restricted: count('restricted'),
+    linkIssues: count('broken-links'),
+    unknown: count('status-unknown')
   };
 
+  const badgeProps = (status: ItemStatusFilter) => ({
+    isActive: activeStatus === status,
+    onClick: onStatusClick && (() => onStatusClick(activeStatus === status ? null : status))
+  });
+
   return (
     <HStack spacing={4} wrap="wrap">
-      <Badge colorScheme="blue" size="lg">
+      <SummaryBadge
+        colorScheme="blue"
+        isActive={false}
+        onClick={onStatusClick && (() => onStatusClick(null))}
+      >
         {summary.total} Total Items
-      </Badge>
+      </SummaryBadge>
       
       {summary.upToDate > 0 && (
-        <Badge colorScheme="green" size="lg">
-          <Icon as={CheckCircleIcon} boxSize={3} mr={1} />
+        <SummaryBadge colorScheme="green" icon={CheckCircleIcon} {...badgeProps('up-to-date')}>
           {summary.upToDate} Up-to-date
-        </Badge>
+        </SummaryBadge>
       )}
       
       {summary.outdated > 0 && (
-        <Badge colorScheme="orange" size="lg">
-          <Icon as={WarningIcon} boxSize={3} mr={1} />
+        <SummaryBadge colorScheme="orange" icon={WarningIcon} {...badgeProps('outdated')}>
           {summary.outdated} Outdated
-        </Badge>
+        </SummaryBadge>
       )}
       
       {summary.unpublished > 0 && (
-        <Badge colorScheme="red" size="lg">
-          <Icon as={XCircleIcon} boxSize={3} mr={1} />
+        <SummaryBadge colorScheme="red" icon={XCircleIcon} {...badgeProps('not-published')}>
           {summary.unpublished} Not Published
-        </Badge>
+        </SummaryBadge>
+      )}
+
+      {summary.previewOnly > 0 && (
+        <SummaryBadge colorScheme="blue" icon={WarningIcon} {...badgeProps('preview-only')}>
+          {summary.previewOnly} In Preview Only
+        </SummaryBadge>
+      )}
+
+      {summary.restricted > 0 && (
+        <SummaryBadge colorScheme="purple" icon={TimeIcon} {...badgeProps('restricted')}>
+          {summary.restricted} Restricted / Scheduled
+        </SummaryBadge>
+      )}
+
+      {summary.blockedByWorkflow > 0 && (
+        <SummaryBadge colorScheme="yellow" icon={TimeIcon} {...badgeProps('awaiting-approval')}>
+          {summary.blockedByWorkflow} Awaiting Approval
+        </SummaryBadge>
+      )}
+
+      {summary.linkIssues > 0 && (
+        <SummaryBadge colorScheme="red" icon={WarningIcon} {...badgeProps('broken-links')}>
+          {summary.linkIssues} Link Issues
+        </SummaryBadge>
+      )}
+
+      {summary.unknown > 0 && (
+        <SummaryBadge colorScheme="gray" icon={WarningIcon} {...badgeProps('status-unknown')}>
+          {summary.unknown} Status Unknown
+        </SummaryBadge>
       )}
     </HStack>
   );
 };
 
+// Component for showing the version an environment serves, compared with the latest authoring version
+interface EnvironmentVersionProps {
+  /** Version served by the environment; null when the item is not there */
+  version?: number | null;
+  /** Lookup state on the environment; undefined when it was not queried */
+  state?: ItemLookupState;
+  latestVersion: number;
+  /** Label when the item was queried but not found */
+  notFoundLabel: string;
+}
+
+export const EnvironmentVersion: React.FC<EnvironmentVersionProps> = ({
+  version,
+  state,
+  latestVersion,
+  notFoundLabel
+}) => {
+  if (state === undefined) {
+    return <Text color="gray.400">-</Text>;
+  }
+
+  if (state === 'unavailable') {
+    return (
+      <Tooltip label="This environment could not be queried" placement="top">
+        <Text color="gray.400">Unknown</Text>
+      </Tooltip>
+    );
+  }
+
+  if (!version) {
+    return <Text color="red.500">{notFoundLabel}</Text>;
+  }
+
+  const isBehind = version < latestVersion;
+  return (
+    <Tooltip
+      label={isBehind ? `${latestVersion - version} version${latestVersion - version > 1 ? 's' : ''} behind authoring` : 'Matches authoring'}
+      placement="top"
+    >
+      <Text color={isBehind ? 'orange.500' : undefined}>v{version}</Text>
+    </Tooltip>
+  );
+};
+
 // Component for displaying item type
 interface ItemTypeBadgeProps {
   itemType: ProcessedItemInfo['itemType'];
   size?: 'sm' | 'md' | 'lg';
+  /** Where the item was discovered; shown as a tooltip explaining why it is listed */
+  provenance?: ItemProvenance[];
 }
 
 export const ItemTypeBadge: React.FC<ItemTypeBadgeProps> = ({ 
   itemType, 
-  size = 'md' 
+  size = 'md',
+  provenance
 }) => {
-  return (
+  const badge = (
     <Badge
       colorScheme={getItemTypeColor(itemType)}
       size={size}
@@ -193,4 +319,77 @@ export const ItemTypeBadge: React.FC<ItemTypeBadgeProps> = ({
       {getItemTypeLabel(itemType)}
     </Badge>
   );
-};
\ No newline at end of file
+
+  if (!provenance || provenance.length === 0) {
+    return badge;
+  }
+
+  return (
+    <Tooltip
+      placement="top"
+      label={
+        <VStack align="start" spacing={0}>
+          {provenance.map((entry, index) => (
+            <Text key={index} fontSize="xs">{describeProvenance(entry)}</Text>
+          ))}
+        </VStack>
+      }
+    >
+      {badge}
+    </Tooltip>
+  );
+};
+// Component for flagging links to deleted, unpublished or off-site items
+interface LinkIssueBadgesProps {
+  item: ProcessedItemInfo;
+}
+
+export const LinkIssueBadges: React.FC<LinkIssueBadgesProps> = ({ item }) => {
+  const issues = getLinkIssues(item);
+  if (issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <HStack spacing={1} wrap="wrap">
+      {issues.map(issue => {
+        const { label, description } = describeLinkIssue(issue);
+        return (
+          <Tooltip key={issue} label={description} placement="top">
+            <Badge colorScheme={issue === 'outside-site' ? 'yellow' : 'red'} fontSize="2xs">
+              {label}
+            </Badge>
+          </Tooltip>
+        );
+      })}
+    </HStack>
+  );
+};
+
+// Component for naming the personalization rules and test variants that use a datasource
+interface RenderingVariantBadgesProps {
+  provenance?: ItemProvenance[];
+}
+
+export const RenderingVariantBadges: React.FC<RenderingVariantBadgesProps> = ({ provenance }) => {
+  const variants = getRenderingVariants(provenance);
+  if (variants.length === 0) {
+    return null;
+  }
+
+  return (
+    <HStack spacing={1} wrap="wrap">
+      {variants.map(variant => (
+        <Tooltip
+          key={`${variant.kind}:${variant.name}`}
+          label={`Used as datasource by ${describeRenderingVariant(variant)}`}
+          placement="top"
+        >
+          <Badge colorScheme={variant.kind === 'ab-test' ? 'purple' : 'teal'} fontSize="2xs" textTransform="none">
+            {variant.kind === 'ab-test' ? 'A/B' : 'Rule'}: {variant.name}
+          </Badge>
+        </Tooltip>
+      ))}
+    </HStack>
+  );
+};
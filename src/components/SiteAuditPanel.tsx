@@ -0,0 +1,295 @@
+// components/SiteAuditPanel.tsx
+import React, { useState } from 'react';
+import {
+  Accordion,
+  AccordionButton,
+  AccordionIcon,
+  AccordionItem,
+  AccordionPanel,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  VStack,
+  HStack,
+  Text,
+  Box,
+  Badge,
+  Button,
+  Input,
+  Select,
+  Progress,
+  Alert,
+  AlertIcon,
+  AlertDescription
+} from '@chakra-ui/react';
+import { useSiteAudit } from '../hooks/useSiteAudit';
+import { DEFAULT_MAX_AUDIT_PAGES } from '../utils/siteAudit';
+import { EnvironmentVersion, ItemTypeBadge, PublishingStatusIndicator } from './PublishingStatusIndicator';
+import type { SiteAuditPageResult, SiteAuditProgress } from '../types/siteAudit';
+
+const MAX_PAGES_OPTIONS = [50, DEFAULT_MAX_AUDIT_PAGES, 500, 1000];
+
+interface SiteAuditPanelProps {
+  /** Subtree suggested when the panel opens, usually the current page */
+  defaultRootPath: string;
+  language: string;
+  maxReferenceDepth: number;
+}
+
+const describeProgress = (progress: SiteAuditProgress | null): string => {
+  if (!progress) {
+    return 'Starting audit...';
+  }
+  if (progress.phase === 'discovering') {
+    return `Finding pages (${progress.pagesFound} found) — ${progress.currentPath}`;
+  }
+  return `Auditing page ${progress.pagesAudited + 1} of ${progress.pagesFound} — ${progress.currentPath}`;
+};
+
+// Component for listing the outdated and unpublished items of one audited page
+const AuditPageIssues: React.FC<{ result: SiteAuditPageResult }> = ({ result }) => {
+  if (result.error) {
+    return (
+      <Alert status="error">
+        <AlertIcon />
+        <AlertDescription fontSize="sm">{result.error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <VStack align="stretch" spacing={2}>
+      {result.failures.length > 0 && (
+        <Text fontSize="xs" color="orange.600">
+          {result.failures.reduce((count, failure) => count + failure.itemIds.length, 0)} item lookups failed; the status of some items may be missing
+        </Text>
+      )}
+      <Table variant="simple" size="sm">
+        <Thead>
+          <Tr>
+            <Th>Item Information</Th>
+            <Th>Type</Th>
+            <Th>Authoring</Th>
+            <Th>Preview</Th>
+            <Th>Live</Th>
+            <Th>Publishing Status</Th>
+          </Tr>
+        </Thead>
+        <Tbody>
+          {result.issues.map(item => (
+            <Tr key={item.id}>
+              <Td>
+                <VStack align="start" spacing={0}>
+                  <Text fontWeight="medium" fontSize="sm">{item.name}</Text>
+                  <Text fontSize="xs" color="gray.500">{item.path}</Text>
+                </VStack>
+              </Td>
+              <Td>
+                <ItemTypeBadge itemType={item.itemType} provenance={item.provenance} size="sm" />
+              </Td>
+              <Td>
+                <Text fontWeight="semibold">v{item.latestVersion}</Text>
+              </Td>
+              <Td>
+                <EnvironmentVersion
+                  version={item.previewVersion}
+                  state={item.previewState}
+                  latestVersion={item.latestVersion}
+                  notFoundLabel="Not in Preview"
+                />
+              </Td>
+              <Td>
+                <EnvironmentVersion
+                  version={item.publishedVersion}
+                  state={item.liveState}
+                  latestVersion={item.latestVersion}
+                  notFoundLabel="Not Published"
+                />
+              </Td>
+              <Td>
+                <PublishingStatusIndicator item={item} size="sm" />
+              </Td>
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    </VStack>
+  );
+};
+
+export const SiteAuditPanel: React.FC<SiteAuditPanelProps> = ({
+  defaultRootPath,
+  language,
+  maxReferenceDepth
+}) => {
+  const [rootPath, setRootPath] = useState(defaultRootPath);
+  const [maxPages, setMaxPages] = useState(DEFAULT_MAX_AUDIT_PAGES);
+  const { report, progress, loading, error, startAudit, cancelAudit } = useSiteAudit();
+
+  const pagesNeedingAttention = report?.pages.filter(page => page.issues.length > 0 || page.error) || [];
+  const progressValue = progress?.phase === 'auditing' && progress.pagesFound > 0
+    ? (progress.pagesAudited / progress.pagesFound) * 100
+    : undefined;
+
+  return (
+    <VStack spacing={6} align="stretch">
+      <VStack align="stretch" spacing={2}>
+        <Text fontSize="sm" color="gray.600">
+          Walk every page below a site root or content subtree and compare each page and its references with what is published.
+        </Text>
+        <HStack spacing={3}>
+          <Input
+            size="sm"
+            value={rootPath}
+            onChange={(e) => setRootPath(e.target.value)}
+            placeholder="/sitecore/content/Tenant/Site/Home"
+            fontFamily="mono"
+            isDisabled={loading}
+          />
+          <Select
+            size="sm"
+            width="auto"
+            value={maxPages}
+            onChange={(e) => setMaxPages(Number(e.target.value))}
+            title="Maximum number of pages"
+            isDisabled={loading}
+          >
+            {MAX_PAGES_OPTIONS.map(option => (
+              <option key={option} value={option}>
+                Up to {option} pages
+              </option>
+            ))}
+          </Select>
+          {loading ? (
+            <Button size="sm" variant="outline" colorScheme="red" onClick={cancelAudit} flexShrink={0}>
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              colorScheme="blue"
+              onClick={() => startAudit(rootPath, { language, maxPages, maxReferenceDepth })}
+              isDisabled={!rootPath.trim().startsWith('/sitecore/')}
+              flexShrink={0}
+            >
+              Run Audit
+            </Button>
+          )}
+        </HStack>
+      </VStack>
+
+      {loading && (
+        <Box>
+          <Progress size="sm" value={progressValue} isIndeterminate={progressValue === undefined} mb={2} />
+          <Text fontSize="xs" color="gray.500" noOfLines={1}>
+            {describeProgress(progress)}
+          </Text>
+        </Box>
+      )}
+
+      {error && (
+        <Alert status="error">
+          <AlertIcon />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <VStack align="stretch" spacing={4}>
+          {report.cancelled && (
+            <Alert status="info">
+              <AlertIcon />
+              <AlertDescription>
+                The audit was cancelled; the report covers the {report.summary.pagesAudited} page{report.summary.pagesAudited !== 1 ? 's' : ''} audited before that.
+              </AlertDescription>
+            </Alert>
+          )}
+          {report.truncated && (
+            <Alert status="warning">
+              <AlertIcon />
+              <AlertDescription>
+                The subtree has more pages than the limit; only the first {report.summary.pagesAudited} were audited.
+              </AlertDescription>
+            </Alert>
+          )}
+          {report.discoveryFailures.length > 0 && (
+            <Alert status="warning" alignItems="flex-start">
+              <AlertIcon />
+              <AlertDescription fontSize="sm">
+                <Text>
+                  The children of {report.discoveryFailures.length} item{report.discoveryFailures.length !== 1 ? 's' : ''} could not be listed; pages below them were not audited.
+                </Text>
+                {report.discoveryFailures.map(failure => (
+                  <Text key={failure.path} fontFamily="mono">
+                    {failure.path}: {failure.error}
+                  </Text>
+                ))}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <HStack spacing={4} wrap="wrap">
+            <Badge colorScheme="blue" size="lg">
+              {report.summary.pagesAudited} Pages Audited
+            </Badge>
+            {report.summary.pagesWithIssues > 0 ? (
+              <Badge colorScheme="orange" size="lg">
+                {report.summary.pagesWithIssues} Pages Need Publishing
+              </Badge>
+            ) : (
+              <Badge colorScheme="green" size="lg">
+                All Pages Up-to-date
+              </Badge>
+            )}
+            {report.summary.outdatedItems > 0 && (
+              <Badge colorScheme="orange" size="lg">
+                {report.summary.outdatedItems} Outdated Items
+              </Badge>
+            )}
+            {report.summary.unpublishedItems > 0 && (
+              <Badge colorScheme="red" size="lg">
+                {report.summary.unpublishedItems} Unpublished Items
+              </Badge>
+            )}
+            {report.summary.pagesFailed > 0 && (
+              <Badge colorScheme="gray" size="lg">
+                {report.summary.pagesFailed} Pages Failed
+              </Badge>
+            )}
+          </HStack>
+
+          {pagesNeedingAttention.length > 0 && (
+            <Accordion allowMultiple>
+              {pagesNeedingAttention.map(result => (
+                <AccordionItem key={result.page.id}>
+                  <AccordionButton>
+                    <HStack flex="1" spacing={3} textAlign="left">
+                      <VStack align="start" spacing={0} flex="1">
+                        <Text fontWeight="medium" fontSize="sm">{result.page.name}</Text>
+                        <Text fontSize="xs" color="gray.500">{result.page.path}</Text>
+                      </VStack>
+                      {result.error ? (
+                        <Badge colorScheme="gray">Failed</Badge>
+                      ) : (
+                        <Badge colorScheme="orange">
+                          {result.issues.length} item{result.issues.length !== 1 ? 's' : ''}
+                        </Badge>
+                      )}
+                    </HStack>
+                    <AccordionIcon ml={2} />
+                  </AccordionButton>
+                  <AccordionPanel>
+                    <AuditPageIssues result={result} />
+                  </AccordionPanel>
+                </AccordionItem>
+              ))}
+            </Accordion>
+          )}
+        </VStack>
+      )}
+    </VStack>
+  );
+};
@@ -0,0 +1,79 @@
+// hooks/useFieldDiff.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useFieldDiff } from './useFieldDiff';
+import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+import { clearQueryCaches } from '../utils/graphqlQueries';
+import { createFakeClient, respondWithItems } from '../test/fakeClient';
+import type { GraphQLResponder } from '../test/fakeClient';
+import { PROMO_ID, applicationContext } from '../test/fixtures/pageContexts';
+import { authoringItems, liveItems } from '../test/fixtures/graphqlResponses';
+import type { ProcessedItemInfo } from '../types/itemInformation';
+
+vi.mock('../utils/hooks/useMarketplaceClient', () => ({
+  useMarketplaceClient: vi.fn()
+}));
+
+const promo: ProcessedItemInfo = {
+  id: PROMO_ID,
+  name: 'Spring Promo',
+  path: authoringItems[PROMO_ID].path,
+  latestVersion: 3,
+  publishedVersion: 2,
+  isPublished: true,
+  isOutdated: true,
+  versionDifference: 1,
+  itemType: 'datasource',
+  language: 'en'
+};
+
+const useClient = (authoring: GraphQLResponder, live: GraphQLResponder) => {
+  vi.mocked(useMarketplaceClient).mockReturnValue({
+    client: createFakeClient({ applicationContext, authoring, live }).client,
+    error: null,
+    isLoading: false,
+    isInitialized: true,
+    initialize: vi.fn()
+  });
+};
+
+describe('useFieldDiff', () => {
+  afterEach(() => {
+    clearQueryCaches();
+    vi.clearAllMocks();
+  });
+
+  it('compares the latest authoring fields with the published fields', async () => {
+    useClient(
+      respondWithItems({
+        [PROMO_ID]: {
+          ...authoringItems[PROMO_ID],
+          fields: { nodes: [{ name: 'Title', value: 'Spring sale now on' }, { name: '__Updated', value: '20250601T120000Z' }] }
+        }
+      }),
+      respondWithItems({ [PROMO_ID]: { ...liveItems[PROMO_ID], fields: [{ name: 'Title', value: 'Spring sale' }] } })
+    );
+
+    const { result } = renderHook(() => useFieldDiff(promo));
+
+    await waitFor(() => expect(result.current.diff).not.toBeNull());
+    expect(result.current.diff).toMatchObject({ itemId: PROMO_ID, latestVersion: 3, publishedVersion: 2 });
+    expect(result.current.diff!.fields).toEqual([{
+      name: 'Title',
+      kind: 'text',
+      status: 'changed',
+      latestValue: 'Spring sale now on',
+      publishedValue: 'Spring sale',
+      segments: [{ text: 'Spring sale', type: 'unchanged' }, { text: ' now on', type: 'added' }]
+    }]);
+  });
+
+  it('reports an error instead of a diff when the live query fails', async () => {
+    useClient(respondWithItems(authoringItems), () => ({ errors: [{ message: 'Forbidden' }] }));
+
+    const { result } = renderHook(() => useFieldDiff(promo));
+
+    await waitFor(() => expect(result.current.error).toBe('Failed to load field values for comparison'));
+    expect(result.current.diff).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+// hooks/useFieldDiff.ts
+import { useState, useEffect, useCallback } from 'react';
+import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+
+import {
+  getItemsFromAuthoring,
+  getItemsFromLive,
+  getSitecoreContextIds
+} from '../utils/graphqlQueries';
+import { diffItemFields } from '../utils/fieldDiff';
+import { getResultItem } from '../utils/dataProcessing';
+import type {
+  AuthoringItemResponse,
+  LiveItemResponse,
+  ProcessedItemInfo
+} from '../types/itemInformation';
+import type { ItemFieldDiff } from '../types/fieldDiff';
+
+export interface UseFieldDiffResult {
+  /** Field-by-field comparison of the latest and published versions */
+  diff: ItemFieldDiff | null;
+  /** Loading state */
+  loading: boolean;
+  /** Error state */
+  error: string | null;
+  /** Function to manually refetch the comparison */
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook for comparing the latest authoring field values of an item with the values published to Experience Edge
+ * @param item - Item to compare; nothing is fetched while null
+ */
+export const useFieldDiff = (item: ProcessedItemInfo | null): UseFieldDiffResult => {
+  const { client, isInitialized } = useMarketplaceClient();
+  const [diff, setDiff] = useState<ItemFieldDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchFieldDiff = useCallback(async () => {
+    if (!item) {
+      setDiff(null);
+      return;
+    }
+
+    if (!client || !isInitialized) {
+      setError('Marketplace client not initialized');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const language = item.language || 'en';
+      const { sitecoreContextId, liveContextId } = await getSitecoreContextIds(client);
+
+      const [authoringResult, liveResult] = await Promise.all([
+        getItemsFromAuthoring(client, [item.id], sitecoreContextId, language),
+        getItemsFromLive(client, [item.id], liveContextId, language, true)
+      ]);
+
+      const authoring = getResultItem<AuthoringItemResponse>(authoringResult, item.id);
+      const live = getResultItem<LiveItemResponse>(liveResult, item.id);
+
+      if (authoring.state === 'unavailable' || live.state === 'unavailable') {
+        throw new Error('Failed to load field values for comparison');
+      }
+
+      const authoringItem = authoring.item;
+      const liveItem = live.item;
+
+      if (!authoringItem) {
+        throw new Error('Item not found in authoring');
+      }
+
+      setDiff({
+        itemId: item.id,
+        latestVersion: authoringItem.version,
+        publishedVersion: liveItem?.version ?? null,
+        fields: diffItemFields(authoringItem.fields?.nodes || [], liveItem?.fields || null)
+      });
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      console.error('Error fetching field diff:', err);
+      setError(errorMessage);
+      setDiff(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [client, isInitialized, item]);
+
+  const refetch = useCallback(async () => {
+    await fetchFieldDiff();
+  }, [fetchFieldDiff]);
+
+  useEffect(() => {
+    fetchFieldDiff();
+  }, [fetchFieldDiff]);
+
+  return {
+    diff,
+    loading,
+    error,
+    refetch
+  };
+};
@@ -0,0 +1,395 @@
+// hooks/useItemInformation.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useItemInformation, useSpecificItemsInformation } from './useItemInformation';
+import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+import { formatGuidWithoutHyphens } from '../utils/dataProcessing';
+import { invalidateItemCache } from '../utils/queryCache';
+import { createFakeClient, respondWithItems } from '../test/fakeClient';
+import type { FakeClient } from '../test/fakeClient';
+import {
+  FOOTER_ID,
+  HERO_ID,
+  PAGE_ID,
+  PROMO_ID,
+  applicationContext,
+  homePageContext
+} from '../test/fixtures/pageContexts';
+import {
+  CARD_ID,
+  TEXT_ID,
+  authoringItems,
+  authoringItemsByPath,
+  liveItems,
+  previewItems
+} from '../test/fixtures/graphqlResponses';
+import type { ProcessedItemInfo } from '../types/itemInformation';
+
+vi.mock('../utils/hooks/useMarketplaceClient', () => ({
+  useMarketplaceClient: vi.fn()
+}));
+
+const compact = formatGuidWithoutHyphens;
+
+const useClient = (client: FakeClient['client'] | null) => {
+  vi.mocked(useMarketplaceClient).mockReturnValue({
+    client,
+    error: null,
+    isLoading: false,
+    isInitialized: !!client,
+    initialize: vi.fn()
+  });
+};
+
+const findItem = (items: ProcessedItemInfo[], itemId: string) => {
+  return items.find(item => compact(item.id) === compact(itemId));
+};
+
+describe('useItemInformation', () => {
+  beforeEach(() => {
+    const { client } = createFakeClient({
+      pageContext: homePageContext,
+      applicationContext,
+      authoring: respondWithItems({ ...authoringItems, ...authoringItemsByPath }),
+      live: respondWithItems(liveItems),
+      preview: respondWithItems(previewItems)
+    });
+    useClient(client);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('loads the current page and its datasources with their publishing status', async () => {
+    const { result } = renderHook(() => useItemInformation());
+
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+
+    const { currentItem, referencedItems } = result.current.data!;
+    expect(currentItem).toMatchObject({ id: PAGE_ID, name: 'Home', isPublished: true, isOutdated: false });
+    expect(findItem(referencedItems, HERO_ID)).toMatchObject({ itemType: 'datasource', isOutdated: false });
+    expect(findItem(referencedItems, PROMO_ID)).toMatchObject({ itemType: 'datasource', isOutdated: true, versionDifference: 1 });
+    expect(findItem(referencedItems, FOOTER_ID)).toMatchObject({ itemType: 'datasource', isPublished: false });
+    expect(result.current.error).toBeNull();
+    expect(result.current.partialFailures).toEqual([]);
+  });
+
+  it('resolves local datasources relative to the page', async () => {
+    const { result } = renderHook(() => useItemInformation());
+
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+
+    const text = findItem(result.current.items, TEXT_ID);
+    expect(text).toMatchObject({ name: 'Text 1', itemType: 'datasource', isPublished: false });
+    expect(text?.provenance).toEqual([{ source: 'local-datasource', detail: 'Data/Text 1' }]);
+  });
+
+  it('follows references in datasource fields', async () => {
+    const { result } = renderHook(() => useItemInformation());
+
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+
+    const card = findItem(result.current.items, CARD_ID);
+    expect(card).toMatchObject({ name: 'Launch Card', itemType: 'link', latestVersion: 2, publishedVersion: 1 });
+    expect(card?.referencedBy?.map(ref => ref.name)).toEqual(['Spring Promo']);
+    expect(result.current.referenceGraphTruncated).toBe(false);
+  });
+
+  it('stops following references at the configured depth', async () => {
+    const { result } = renderHook(() => useItemInformation({ maxReferenceDepth: 0 }));
+
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+
+    expect(findItem(result.current.items, CARD_ID)).toBeUndefined();
+    expect(result.current.referenceGraphTruncated).toBe(true);
+  });
+
+  it('keeps authoring data when Experience Edge is unavailable', async () => {
+    const { client } = createFakeClient({
+      pageContext: homePageContext,
+      applicationContext,
+      authoring: respondWithItems({ ...authoringItems, ...authoringItemsByPath }),
+      live: () => {
+        throw new Error('Service Unavailable');
+      }
+    });
+    useClient(client);
+    const { result } = renderHook(() => useItemInformation());
+
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+
+    expect(result.current.data!.currentItem).toMatchObject({ name: 'Home', liveState: 'unavailable' });
+    expect(result.current.partialFailures?.some(failure => failure.endpoint === 'live')).toBe(true);
+  });
+
+  it('compares authoring, preview and live versions, including nested items', async () => {
+    const { result } = renderHook(() => useItemInformation());
+
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+
+    expect(findItem(result.current.items, FOOTER_ID)).toMatchObject({ previewVersion: 1, liveState: 'not-found' });
+    expect(findItem(result.current.items, TEXT_ID)).toMatchObject({ previewState: 'not-found' });
+    expect(findItem(result.current.items, CARD_ID)).toMatchObject({ latestVersion: 2, previewVersion: 2, publishedVersion: 1 });
+    expect(result.current.data!.summary.previewOnlyItems).toBe(1);
+  });
+
+  it('reports an error when the page context has no item', async () => {
+    const { client } = createFakeClient({ pageContext: {}, applicationContext });
+    useClient(client);
+    const { result } = renderHook(() => useItemInformation());
+
+    await waitFor(() => expect(result.current.error).toBe('No item IDs found in current context'));
+    expect(result.current.data).toBeNull();
+  });
+
+  it('does not query anything before the client is initialized', async () => {
+    useClient(null);
+    const { result } = renderHook(() => useItemInformation());
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.data).toBeNull();
+    expect(result.current.error).toBeNull();
+  });
+
+  it('keeps links to deleted items as broken links', async () => {
+    const remainingItems = { ...authoringItems };
+    delete remainingItems[CARD_ID];
+    const { client } = createFakeClient({
+      pageContext: homePageContext,
+      applicationContext,
+      authoring: respondWithItems({ ...remainingItems, ...authoringItemsByPath }),
+      live: respondWithItems(liveItems),
+      preview: respondWithItems(previewItems)
+    });
+    useClient(client);
+
+    const { result } = renderHook(() => useItemInformation());
+
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+    expect(findItem(result.current.items, CARD_ID)).toMatchObject({
+      itemType: 'link',
+      authoringState: 'not-found',
+      referencedBy: [expect.objectContaining({ id: PROMO_ID })]
+    });
+  });
+
+  it('reads the shared and final layout of the page and leaves out removed renderings', async () => {
+    const device = '{FE5D7FDF-89C0-4D99-9AA3-B5FBD009C9F3}';
+    const sharedLayout = `<r><d id="${device}"><r uid="{A}" ph="headless-main" ds="{${HERO_ID}}" /><r uid="{B}" ph="headless-footer" ds="{${FOOTER_ID}}" /></d></r>`;
+    const finalLayout = `<r xmlns:p="p" xmlns:s="s" p:p="1"><d id="${device}"><r uid="{B}" p:d="1" /><r uid="{C}" p:after="r[@uid='{A}']" s:ph="headless-main" s:ds="{${PROMO_ID}}" /></d></r>`;
+    // The layout fields are also among the page's standard fields, as the authoring endpoint returns them
+    const page = {
+      ...authoringItems[PAGE_ID],
+      fields: {
+        nodes: [
+          { name: '__Renderings', value: sharedLayout },
+          { name: '__Final Renderings', value: finalLayout }
+        ]
+      },
+      renderings: { value: sharedLayout },
+      finalRenderings: { value: finalLayout }
+    };
+    const { client } = createFakeClient({
+      pageContext: homePageContext,
+      applicationContext,
+      authoring: respondWithItems({ ...authoringItems, [PAGE_ID]: page, ...authoringItemsByPath }),
+      live: respondWithItems(liveItems),
+      preview: respondWithItems(previewItems)
+    });
+    useClient(client);
+
+    const { result } = renderHook(() => useItemInformation());
+
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+    expect(findItem(result.current.items, FOOTER_ID)).toBeUndefined();
+    expect(findItem(result.current.items, TEXT_ID)).toBeUndefined();
+    expect(findItem(result.current.items, HERO_ID)?.provenance).toEqual([
+      { source: 'rendering-datasource', detail: 'headless-main', layer: 'shared' }
+    ]);
+    expect(findItem(result.current.items, PROMO_ID)?.provenance).toEqual([
+      { source: 'rendering-datasource', detail: 'headless-main', layer: 'final' }
+    ]);
+  });
+
+  it('queries live data with the live context ID', async () => {
+    const fake = createFakeClient({
+      pageContext: homePageContext,
+      applicationContext,
+      authoring: respondWithItems({ ...authoringItems, ...authoringItemsByPath }),
+      live: respondWithItems(liveItems)
+    });
+    useClient(fake.client);
+    const { result } = renderHook(() => useItemInformation());
+
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+
+    const liveCalls = fake.calls.filter(call => call.key === 'xmc.live.graphql');
+    expect(liveCalls.length).toBeGreaterThan(0);
+    expect(liveCalls.every(call => call.sitecoreContextId === 'test-live-context')).toBe(true);
+  });
+});
+
+describe('useItemInformation auto-refresh', () => {
+  const useHomeClient = () => {
+    const fake = createFakeClient({
+      pageContext: homePageContext,
+      applicationContext,
+      authoring: respondWithItems({ ...authoringItems, ...authoringItemsByPath }),
+      live: respondWithItems(liveItems),
+      preview: respondWithItems(previewItems)
+    });
+    useClient(fake.client);
+    return fake;
+  };
+
+  const pageContextQueries = (fake: FakeClient) =>
+    vi.mocked(fake.client.query).mock.calls.filter(([key, options]) => key === 'pages.context' && !options?.subscribe);
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reloads the page graph when the layout changes', async () => {
+    const fake = useHomeClient();
+    const { result } = renderHook(() => useItemInformation());
+    await waitFor(() => expect(findItem(result.current.items, FOOTER_ID)).toBeDefined());
+
+    const presentationDetails = JSON.parse(homePageContext.pageInfo.presentationDetails);
+    presentationDetails.devices[0].placeholders = [];
+    fake.emitPageContext({
+      ...homePageContext,
+      pageInfo: { ...homePageContext.pageInfo, presentationDetails: JSON.stringify(presentationDetails) }
+    });
+
+    await waitFor(() => expect(findItem(result.current.items, FOOTER_ID)).toBeUndefined());
+    expect(pageContextQueries(fake)).toHaveLength(2);
+  });
+
+  it('refreshes the loaded items without resolving the page again when the page is saved', async () => {
+    const fake = useHomeClient();
+    const { result } = renderHook(() => useItemInformation());
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+    const callsBeforeSave = fake.calls.length;
+
+    fake.emitPageContext({ ...homePageContext, pageInfo: { ...homePageContext.pageInfo, revision: 'saved' } });
+
+    await waitFor(() => expect(fake.calls.length).toBeGreaterThan(callsBeforeSave));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(pageContextQueries(fake)).toHaveLength(1);
+  });
+
+  it('ignores notifications that change nothing', async () => {
+    const fake = useHomeClient();
+    const { result } = renderHook(() => useItemInformation());
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+    const callsBefore = fake.calls.length;
+
+    fake.emitPageContext({ ...homePageContext });
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(fake.calls.length).toBe(callsBefore);
+  });
+
+  it('does not subscribe when auto-refresh is off', async () => {
+    const fake = useHomeClient();
+    const { result } = renderHook(() => useItemInformation({ autoRefresh: false }));
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+
+    expect(vi.mocked(fake.client.query).mock.calls.some(([, options]) => options?.subscribe)).toBe(false);
+  });
+
+  it('polls the loaded items at the configured interval', async () => {
+    const fake = useHomeClient();
+    const { result, unmount } = renderHook(() => useItemInformation({ pollInterval: 20 }));
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+    const callsBefore = fake.calls.length;
+
+    await waitFor(() => expect(fake.calls.length).toBeGreaterThan(callsBefore));
+    expect(pageContextQueries(fake)).toHaveLength(1);
+    unmount();
+  });
+});
+
+describe('useItemInformation refetchItems', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('re-queries only the given items and merges them into the loaded data', async () => {
+    const published = { ...liveItems };
+    const fake = createFakeClient({
+      pageContext: homePageContext,
+      applicationContext,
+      authoring: respondWithItems({ ...authoringItems, ...authoringItemsByPath }),
+      live: query => respondWithItems(published)(query),
+      preview: respondWithItems(previewItems)
+    });
+    useClient(fake.client);
+    const { result } = renderHook(() => useItemInformation());
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+    const loadedCard = findItem(result.current.items, CARD_ID);
+    const loadedIds = result.current.items.map(item => item.id);
+    const outdatedBefore = result.current.data?.summary.outdatedItems || 0;
+    const callsBefore = fake.calls.length;
+
+    published[CARD_ID] = { ...liveItems[CARD_ID], version: 2 };
+    invalidateItemCache({ endpoints: ['live'], itemIds: [CARD_ID] });
+    await act(() => result.current.refetchItems([CARD_ID]));
+
+    const newCalls = fake.calls.slice(callsBefore);
+    expect(newCalls.map(call => call.key)).toEqual(['xmc.live.graphql']);
+    expect(newCalls[0].query.match(/item\d+:/g)).toHaveLength(1);
+    expect(result.current.items.map(item => item.id)).toEqual(loadedIds);
+    expect(findItem(result.current.items, CARD_ID)).toMatchObject({
+      publishedVersion: 2,
+      isOutdated: false,
+      itemType: loadedCard?.itemType,
+      referencedBy: loadedCard?.referencedBy
+    });
+    expect(result.current.data?.summary.outdatedItems).toBe(outdatedBefore - 1);
+    expect(result.current.loading).toBe(false);
+  });
+
+  it('does not query items that are not loaded', async () => {
+    const fake = createFakeClient({
+      pageContext: homePageContext,
+      applicationContext,
+      authoring: respondWithItems({ ...authoringItems, ...authoringItemsByPath }),
+      live: respondWithItems(liveItems),
+      preview: respondWithItems(previewItems)
+    });
+    useClient(fake.client);
+    const { result } = renderHook(() => useItemInformation());
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+    const callsBefore = fake.calls.length;
+
+    await act(() => result.current.refetchItems(['F0000000-0000-4000-8000-00000000000F']));
+
+    expect(fake.calls.length).toBe(callsBefore);
+  });
+});
+
+describe('useSpecificItemsInformation forceRefresh', () => {
+  it('queries the endpoints again instead of serving cached items', async () => {
+    const published = { ...liveItems };
+    const fake = createFakeClient({
+      applicationContext,
+      authoring: respondWithItems(authoringItems),
+      live: query => respondWithItems(published)(query),
+      preview: respondWithItems(previewItems)
+    });
+    useClient(fake.client);
+    const itemIds = [CARD_ID];
+    const { result } = renderHook(() => useSpecificItemsInformation(itemIds));
+    await waitFor(() => expect(result.current.data).not.toBeNull());
+    expect(findItem(result.current.items, CARD_ID)?.publishedVersion).toBe(1);
+
+    published[CARD_ID] = { ...liveItems[CARD_ID], version: 2 };
+    await act(async () => {
+      await result.current.forceRefresh();
+    });
+
+    expect(findItem(result.current.items, CARD_ID)?.publishedVersion).toBe(2);
+  });
+});
@@ -1,18 +1,33 @@
 // hooks/useItemInformation.ts
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ClientSDK } from '@sitecore-marketplace-sdk/client';
 import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
 
 import { 
+  clearQueryCaches,
   getItemsFromAuthoring, 
   getItemsFromLive, 
-  resolveLocalDatasourcePaths 
+  getItemsFromPreview,
+  getSitecoreContextIds
 } from '../utils/graphqlQueries';
 import { 
   extractItemIdsWithLocalPaths,
+  formatGuidWithoutHyphens,
+  getSiteRootPath,
+  mergeRefreshedItems,
   processItemData, 
   createItemInformationResponse
 } from '../utils/dataProcessing';
+import type { ExtractedItemInfo } from '../utils/dataProcessing';
+import { DEFAULT_MAX_REFERENCE_DEPTH } from '../utils/referenceTraversal';
+import { addMediaStatus, analyzePageItems, extractLayeredPageItems } from '../utils/pageAnalysis';
+import { extractPageDesignItems } from '../utils/pageDesigns';
+import type { PageAnalysisResult } from '../utils/pageAnalysis';
+import { createQueryCache, invalidateItemCache } from '../utils/queryCache';
+import { getPageContextChange, getPageContextSnapshot } from '../utils/pageContextChanges';
+import type { PageContextSnapshot } from '../utils/pageContextChanges';
 import type { 
+  ChunkFailure,
   ItemInformationResponse, 
   ProcessedItemInfo
 } from '../types/itemInformation';
@@ -28,285 +43,271 @@ export interface UseItemInformationResult {
   error: string | null;
   /** Function to manually refetch data */
   refetch: () => Promise<void>;
-  /** Function to refetch only a specific set of items */
+  /** Function to re-query only the given loaded items and merge them into the current data */
   refetchItems: (itemIds: string[]) => Promise<void>;
-  /** Function to force refresh (clears cache and refetches) */
+  /** Function to force refresh (clears cached lookups and refetches) */
   forceRefresh: () => void;
+  /** Whether references beyond the configured depth were not followed */
+  referenceGraphTruncated?: boolean;
+  /** Query chunks that failed while the rest of the data loaded */
+  partialFailures?: ChunkFailure[];
+  /** When the data was last loaded or refreshed */
+  lastUpdated?: Date | null;
 }
 
-export const useItemInformation = (): UseItemInformationResult => {
+export interface UseItemInformationOptions {
+  /**
+   * Maximum number of hops to follow when traversing references in datasource fields
+   * @default 3
+   */
+  maxReferenceDepth?: number;
+  /**
+   * Subscribe to pages.context and refresh when the editor switches pages, saves the page or changes its layout
+   * The Marketplace SDK has no item-saved or publish-completed events: saves of other items (such as
+   * datasources edited outside the page) and publishes started outside this app are not reported,
+   * so use pollInterval to pick those up
+   * @default true
+   */
+  autoRefresh?: boolean;
+  /**
+   * Interval in milliseconds for refreshing the loaded items in the background; 0 disables polling
+   * This is the fallback for changes pages.context does not report, such as publishes made elsewhere
+   * @default 0
+   */
+  pollInterval?: number;
+}
+
+// Last result per page, shown right away when the editor returns to a page while it is reloaded
+const pageResultCache = createQueryCache<PageAnalysisResult>({ ttl: 0, staleTtl: 10 * 60000, maxEntries: 20 });
+
+/**
+ * Query items on the authoring, live and preview endpoints and process the results
+ */
+const queryItems = async (
+  client: ClientSDK,
+  itemIds: string[],
+  language: string,
+  currentItemId?: string
+): Promise<{ items: ProcessedItemInfo[]; failures: ChunkFailure[] }> => {
+  const { sitecoreContextId, liveContextId } = await getSitecoreContextIds(client);
+  const [authoringResult, liveResult, previewResult] = await Promise.all([
+    getItemsFromAuthoring(client, itemIds, sitecoreContextId, language),
+    getItemsFromLive(client, itemIds, liveContextId, language),
+    getItemsFromPreview(client, itemIds, sitecoreContextId, language)
+  ]);
+
+  const processedItems = processItemData(
+    authoringResult,
+    liveResult,
+    itemIds,
+    currentItemId,
+    undefined,
+    undefined,
+    previewResult
+  );
+  const { items, failures: mediaFailures } = await addMediaStatus(client, processedItems, liveContextId, language);
+  const failures = [
+    ...(authoringResult.failures || []),
+    ...(liveResult.failures || []),
+    ...(previewResult.failures || []),
+    ...mediaFailures
+  ];
+  return { items, failures };
+};
+
+/**
+ * Replace the failures reported for refreshed items with the failures of the refresh
+ */
+const mergeRefreshFailures = (
+  failures: ChunkFailure[],
+  refreshedItemIds: string[],
+  refreshFailures: ChunkFailure[]
+): ChunkFailure[] => {
+  const refreshed = new Set(refreshedItemIds.map(formatGuidWithoutHyphens));
+  return [
+    ...failures
+      .map(failure => ({ ...failure, itemIds: failure.itemIds.filter(id => !refreshed.has(formatGuidWithoutHyphens(id))) }))
+      .filter(failure => failure.itemIds.length > 0),
+    ...refreshFailures
+  ];
+};
+
+export const useItemInformation = ({
+  maxReferenceDepth = DEFAULT_MAX_REFERENCE_DEPTH,
+  autoRefresh = true,
+  pollInterval = 0
+}: UseItemInformationOptions = {}): UseItemInformationResult => {
 
   const { client, error: clientError, isInitialized } = useMarketplaceClient();
   const [data, setData] = useState<ItemInformationResponse | null>(null);
   const [items, setItems] = useState<ProcessedItemInfo[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [referenceGraphTruncated, setReferenceGraphTruncated] = useState(false);
+  const [partialFailures, setPartialFailures] = useState<ChunkFailure[]>([]);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  // Latest page context seen, to tell page switches from saves when pages.context notifies
+  const pageContextSnapshotRef = useRef<PageContextSnapshot | null>(null);
+  // Page result cache key of the data on screen
+  const pageKeyRef = useRef<string | null>(null);
+  // Only the latest request may update the state when loads overlap
+  const requestIdRef = useRef(0);
+  // Language the page was loaded in, so loaded items can be refreshed without resolving the page again
+  const languageRef = useRef('en');
+
+  // Loaded data for merging refreshed items into
+  const loadedRef = useRef({ items, partialFailures, referenceGraphTruncated });
+  useEffect(() => {
+    loadedRef.current = { items, partialFailures, referenceGraphTruncated };
+  });
 
-  const fetchItemInformation = useCallback(async (specificItemIds?: string[]) => {
+  const fetchItemInformation = useCallback(async () => {
     if (!client || !isInitialized) {
       setError('Marketplace client not initialized');
       return;
     }
 
+    const requestId = ++requestIdRef.current;
+    const isLatestRequest = () => requestId === requestIdRef.current;
+
     setLoading(true);
     setError(null);
 
     try {
-      let itemIds: string[] = [];
-      let currentItemId: string | undefined;
-      let pageContext: unknown = null;
-      let localPathsToResolve: string[] = [];
-      let currentPagePath = '';
-      let language = 'en'; // Default fallback
-
-      if (specificItemIds && specificItemIds.length > 0) {
-        itemIds = specificItemIds;
-        // For specific items, assume the first one is current (could be improved)
-        currentItemId = specificItemIds[0];
-      } else {
-        // Get current context to identify items
-        const { data: contextData } = await client.query('pages.context');
-        pageContext = contextData;
-        
-        // Extract ALL items from context (current + editable items)
-        const extractionResult = extractItemIdsWithLocalPaths(pageContext);
-        itemIds = extractionResult.itemIds;
-        localPathsToResolve = extractionResult.localPathsToResolve;
-        currentPagePath = extractionResult.currentPagePath;
-        language = extractionResult.language;
-        
-        if (itemIds.length === 0) {
-          throw new Error('No item IDs found in current context');
-        }
-        
-        // The first item should be the current page item (extractItemIds puts it first)
-        currentItemId = itemIds[0];
-      }
-
-
-      // Get application context to extract sitecoreContextId (official approach)
-      let sitecoreContextId: string | undefined;
-      try {
-        const { data: appContext } = await client.query('application.context');
-        
-        // Extract sitecoreContextId according to official documentation
-        sitecoreContextId = appContext?.resourceAccess?.[0]?.context?.preview;
-        
-        if (!sitecoreContextId) {
-          // Try alternative locations as fallback
-          sitecoreContextId = appContext?.resourceAccess?.[0]?.context?.live ||
-                              (appContext as Record<string, unknown>)?.sitecoreContextId as string ||
-                              (appContext as Record<string, unknown>)?.contextId as string;
-        }
-        
-        // If still not found, try to extract from any resourceAccess context
-        if (!sitecoreContextId && appContext?.resourceAccess) {
-          for (const resource of appContext.resourceAccess as Array<Record<string, unknown>>) {
-            if (resource?.context) {
-              const context = resource.context as Record<string, unknown>;
-              sitecoreContextId = context.preview as string || 
-                                 context.live as string || 
-                                 context.master as string;
-              if (sitecoreContextId) break;
-            }
-          }
-        }
-        
-      } catch (error) {
-        console.error('Failed to get application context:', error);
-      }
+      // Get current context to identify items
+      const { data: pageContext } = await client.query('pages.context');
+      pageContextSnapshotRef.current = getPageContextSnapshot(pageContext);
 
-      // Resolve local datasource paths to item IDs if needed
-      if (localPathsToResolve.length > 0 && sitecoreContextId) {
-        try {
-          const resolvedPaths = await resolveLocalDatasourcePaths(
-            client, 
-            localPathsToResolve, 
-            currentPagePath, 
-            sitecoreContextId,
-            language
-          );
-          
-          // Add resolved item IDs to the list
-          Object.values(resolvedPaths).forEach(resolvedId => {
-            if (resolvedId && !itemIds.includes(resolvedId)) {
-              itemIds.push(resolvedId);
-            }
-          });
-        } catch (error) {
-          console.error('Error resolving local datasource paths:', error);
-        }
-      }
+      // Extract ALL items from context (current + editable items); the current page comes first
+      const extraction: ExtractedItemInfo = extractItemIdsWithLocalPaths(pageContext);
 
-      // Query all items (from context) for both authoring and live data
-      const [authoringResult, liveResult] = await Promise.all([
-        getItemsFromAuthoring(client, itemIds, sitecoreContextId, language),
-        getItemsFromLive(client, itemIds, sitecoreContextId, language)
-      ]);
-
-      // STEP 2: Extract nested references from datasource fields (like FAQ items in multilists)
-      const nestedItemIds: string[] = [];
-      const excludedPaths = ['/sitecore/system/', '/sitecore/templates/', '/sitecore/layout/'];
-      // Track which parent items reference which nested items
-      const referencedByMap = new Map<string, Array<{ id: string; name: string; path: string }>>();
-      
-      if (authoringResult?.data?.data) {
-        const authoringData = authoringResult.data.data as Record<string, any>;
-        Object.values(authoringData).forEach((item: any) => {
-          if (item?.fields?.nodes) {
-            // Find displayName field if it exists
-            const displayNameField = item.fields.nodes.find((f: any) => f.name === '__Display name' || f.name === 'Display Name');
-            
-            const parentInfo = {
-              id: item.itemId?.replace(/[{}]/g, '').toUpperCase() || '',
-              name: item.name || 'Unknown',
-              displayName: displayNameField?.value,
-              path: item.path || ''
-            };
-            
-            
-            // Extract GUIDs from field values, but only from content-related fields
-            item.fields.nodes.forEach((field: any) => {
-              if (field.value && typeof field.value === 'string') {
-                // Skip common system/settings fields
-                const systemFields = ['__Created', '__Updated', '__Owner', '__Lock', '__Revision', '__Workflow', '__Standard Values', '__Sortorder'];
-                if (systemFields.some(sf => field.name.includes(sf))) {
-                  return; // Skip system fields
-                }
-                
-                const guidRegex = /\{?[0-9A-Fa-f]{8}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{12}\}?/g;
-                const matches = field.value.match(guidRegex);
-                
-                if (matches) {
-                  matches.forEach((match: string) => {
-                    const cleanGuid = match.replace(/[{}]/g, '').toUpperCase();
-                    
-                    // Track the parent relationship for ALL referenced items (not just new ones)
-                    if (!referencedByMap.has(cleanGuid)) {
-                      referencedByMap.set(cleanGuid, []);
-                    }
-                    const existingRefs = referencedByMap.get(cleanGuid)!;
-                    // Avoid duplicates
-                    if (!existingRefs.some(ref => ref.id === parentInfo.id)) {
-                      existingRefs.push(parentInfo);
-                    }
-                    
-                    // Only add to nested items list if not already in our main list
-                    if (!itemIds.includes(cleanGuid) && !nestedItemIds.includes(cleanGuid)) {
-                      nestedItemIds.push(cleanGuid);
-                    }
-                  });
-                }
-              }
-            });
-          }
-        });
+      if (extraction.itemIds.length === 0) {
+        throw new Error('No item IDs found in current context');
       }
-      
-      // Now query the nested items to check their paths and filter out system items
-      if (nestedItemIds.length > 0) {
-        const [nestedAuthoringResult] = await Promise.all([
-          getItemsFromAuthoring(client, nestedItemIds, sitecoreContextId, language)
-        ]);
-        
-        // Filter out system items based on their paths
-        const validNestedIds: string[] = [];
-        if (nestedAuthoringResult?.data?.data) {
-          const nestedAuthoringData = nestedAuthoringResult.data.data as Record<string, any>;
-          Object.entries(nestedAuthoringData).forEach(([, nestedItem]: [string, any]) => {
-            const itemPath = nestedItem?.path || '';
-            const itemId = nestedItem?.itemId || '';
-            
-            // Check if item path starts with any excluded path
-            const isSystemItem = excludedPaths.some(excludedPath => itemPath.startsWith(excludedPath));
-            
-            if (!isSystemItem && itemPath) {
-              const cleanId = itemId.replace(/[{}]/g, '').toUpperCase();
-              validNestedIds.push(cleanId);
-            }
-          });
-        }
-        
-        // Only proceed if we have valid items
-        if (validNestedIds.length === 0) {
-        }
-        
-        nestedItemIds.splice(0, nestedItemIds.length, ...validNestedIds);
+      languageRef.current = extraction.language;
+
+      // Show what was loaded for this page before (or nothing) while it reloads
+      const pageKey = [formatGuidWithoutHyphens(extraction.itemIds[0]), extraction.language, maxReferenceDepth].join('|');
+      if (pageKey !== pageKeyRef.current) {
+        const cached = pageResultCache.get(pageKey)?.value;
+        pageKeyRef.current = pageKey;
+        setData(cached ? createItemInformationResponse(cached.items) : null);
+        setItems(cached?.items || []);
+        setReferenceGraphTruncated(cached?.truncated || false);
+        setPartialFailures(cached?.failures || []);
       }
 
-      // Query validated nested items for live data and merge results
-      if (nestedItemIds.length > 0) {
-        const [nestedLiveResult] = await Promise.all([
-          getItemsFromLive(client, nestedItemIds, sitecoreContextId, language)
-        ]);
-
-        // We already have authoring data from validation, now get it properly with all fields
-        const [nestedAuthoringFullResult] = await Promise.all([
-          getItemsFromAuthoring(client, nestedItemIds, sitecoreContextId, language)
-        ]);
-
-        // Merge nested results with original results
-        if (nestedAuthoringFullResult?.data?.data && authoringResult?.data?.data) {
-          const authoringData = authoringResult.data.data as Record<string, any>;
-          const nestedAuthoringData = nestedAuthoringFullResult.data.data as Record<string, any>;
-          const startIndex = Object.keys(authoringData).length;
-          
-          Object.entries(nestedAuthoringData).forEach(([, value], index) => {
-            authoringData[`item${startIndex + index}`] = value;
-          });
-        }
-
-        if (nestedLiveResult?.data?.data && liveResult?.data?.data) {
-          const liveData = liveResult.data.data as Record<string, any>;
-          const nestedLiveData = nestedLiveResult.data.data as Record<string, any>;
-          const startIndex = Object.keys(liveData).length;
-          
-          Object.entries(nestedLiveData).forEach(([, value], index) => {
-            liveData[`item${startIndex + index}`] = value;
-          });
-        }
-
-        // Add nested IDs to our itemIds array
-        itemIds.push(...nestedItemIds);
+      // Get application context to extract sitecoreContextId (official approach)
+      const { sitecoreContextId, liveContextId } = await getSitecoreContextIds(client);
+
+      // Read the shared and final layout so datasources of removed renderings are left out
+      const layeredExtraction = await extractLayeredPageItems(client, pageContext, extraction, sitecoreContextId);
+
+      const siteName = (pageContext as { siteInfo?: { name?: string } } | null)?.siteInfo?.name;
+      const siteRootPath = getSiteRootPath(extraction.currentPagePath, siteName);
+
+      // SXA pages also render the partial designs of their page design
+      const pageExtraction = await extractPageDesignItems(client, layeredExtraction, { sitecoreContextId, siteRootPath });
+
+      const analysis = await analyzePageItems(client, pageExtraction, {
+        sitecoreContextId,
+        liveContextId,
+        maxReferenceDepth,
+        siteRootPath
+      });
+      pageResultCache.set(pageKey, analysis);
+      if (!isLatestRequest()) {
+        return;
       }
 
-      // Process the data
-      const processedItems = processItemData(
-        authoringResult,
-        liveResult,
-        itemIds,
-        currentItemId,
-        referencedByMap
-      );
+      const { items: processedItems, truncated, failures } = analysis;
+      setReferenceGraphTruncated(truncated);
 
       // Create the complete response
       const itemInformationResponse = createItemInformationResponse(processedItems);
 
       setData(itemInformationResponse);
       setItems(processedItems);
+      setPartialFailures(failures);
+      setLastUpdated(new Date());
 
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
       console.error('Error fetching item information:', err);
-      setError(errorMessage);
-      setData(null);
-      setItems([]);
+      if (isLatestRequest()) {
+        setError(errorMessage);
+        setData(null);
+        setItems([]);
+        pageKeyRef.current = null;
+      }
     } finally {
-      setLoading(false);
+      if (isLatestRequest()) {
+        setLoading(false);
+      }
     }
-  }, [client, isInitialized]);
+  }, [client, isInitialized, maxReferenceDepth]);
 
   const refetchItems = useCallback(async (itemIds: string[]) => {
-    await fetchItemInformation(itemIds);
-  }, [fetchItemInformation]);
+    if (!client || !isInitialized) {
+      setError('Marketplace client not initialized');
+      return;
+    }
+
+    // Only loaded items are refreshed; new references are found by reloading the page
+    const requested = new Set(itemIds.map(formatGuidWithoutHyphens));
+    const refreshItemIds = loadedRef.current.items
+      .filter(item => requested.has(formatGuidWithoutHyphens(item.id)))
+      .map(item => item.id);
+    if (refreshItemIds.length === 0) {
+      return;
+    }
+
+    // A full load started meanwhile replaces the data, so this refresh is dropped
+    const requestId = requestIdRef.current;
+    const isLatestRequest = () => requestId === requestIdRef.current;
+
+    setLoading(true);
+
+    try {
+      const { items: refreshedItems, failures: refreshFailures } = await queryItems(client, refreshItemIds, languageRef.current);
+      if (!isLatestRequest()) {
+        return;
+      }
+
+      const loaded = loadedRef.current;
+      const mergedItems = mergeRefreshedItems(loaded.items, refreshedItems);
+      const failures = mergeRefreshFailures(loaded.partialFailures, refreshItemIds, refreshFailures);
+
+      setData(createItemInformationResponse(mergedItems));
+      setItems(mergedItems);
+      setPartialFailures(failures);
+      setError(null);
+      setLastUpdated(new Date());
+      if (pageKeyRef.current) {
+        pageResultCache.set(pageKeyRef.current, { items: mergedItems, truncated: loaded.referenceGraphTruncated, failures });
+      }
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      console.error('Error refreshing items:', err);
+      if (isLatestRequest()) {
+        setError(errorMessage);
+      }
+    } finally {
+      if (isLatestRequest()) {
+        setLoading(false);
+      }
+    }
+  }, [client, isInitialized]);
 
   const refetch = useCallback(async () => {
     await fetchItemInformation();
   }, [fetchItemInformation]);
 
   const forceRefresh = useCallback(() => {
-    setData(null);
-    setItems([]);
+    clearQueryCaches();
+    pageResultCache.invalidate();
     setError(null);
     fetchItemInformation();
   }, [fetchItemInformation]);
@@ -320,6 +321,83 @@ export const useItemInformation = (): UseItemInformationResult => {
     }
   }, [isInitialized, clientError, fetchItemInformation]);
 
+  // Keep the latest state and callbacks for the subscription and polling without re-subscribing
+  const latestRef = useRef({ items, loading, refetch, refetchItems });
+  useEffect(() => {
+    latestRef.current = { items, loading, refetch, refetchItems };
+  });
+
+  // Refresh when the editor reports a page switch, save or layout change
+  useEffect(() => {
+    if (!client || !isInitialized || !autoRefresh) {
+      return;
+    }
+
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
+
+    const handlePageContext = (pageContext: unknown) => {
+      const snapshot = getPageContextSnapshot(pageContext);
+      // The initial load has not recorded a page yet; it will load the current one
+      if (!pageContextSnapshotRef.current) {
+        return;
+      }
+
+      const change = getPageContextChange(pageContextSnapshotRef.current, snapshot);
+      if (change === 'none') {
+        return;
+      }
+      pageContextSnapshotRef.current = snapshot;
+
+      // Page switches and layout changes reload through the caches; a save changes the authoring
+      // (and soon the preview) data of the loaded items, so those lookups are dropped first
+      const latest = latestRef.current;
+      if (change === 'page' || change === 'layout') {
+        latest.refetch();
+      } else if (latest.items.length > 0) {
+        const itemIds = latest.items.map(item => item.id);
+        invalidateItemCache({ endpoints: ['authoring', 'preview'], itemIds });
+        latest.refetchItems(itemIds);
+      }
+    };
+
+    client.query('pages.context', { subscribe: true, onSuccess: handlePageContext })
+      .then(result => {
+        if (cancelled) {
+          result.unsubscribe?.();
+        } else {
+          unsubscribe = result.unsubscribe;
+        }
+      })
+      .catch(err => {
+        console.error('Error subscribing to page context:', err);
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [client, isInitialized, autoRefresh]);
+
+  // Refresh the loaded items in the background, skipping while hidden or already loading
+  useEffect(() => {
+    if (!isInitialized || pollInterval <= 0) {
+      return;
+    }
+
+    const timer = setInterval(() => {
+      const latest = latestRef.current;
+      if (document.visibilityState === 'hidden' || latest.loading || latest.items.length === 0) {
+        return;
+      }
+      const itemIds = latest.items.map(item => item.id);
+      invalidateItemCache({ itemIds });
+      latest.refetchItems(itemIds);
+    }, pollInterval);
+
+    return () => clearInterval(timer);
+  }, [isInitialized, pollInterval]);
+
   return {
     data,
     items,
@@ -327,7 +405,10 @@ export const useItemInformation = (): UseItemInformationResult => {
     error,
     refetch,
     refetchItems,
-    forceRefresh
+    forceRefresh,
+    referenceGraphTruncated,
+    partialFailures,
+    lastUpdated
   };
 };
 
@@ -351,17 +432,7 @@ export const useSpecificItemsInformation = (itemIds: string[]): UseItemInformati
     setError(null);
 
     try {
-      const [authoringResult, liveResult] = await Promise.all([
-        getItemsFromAuthoring(client, itemIds, undefined, 'en'),
-        getItemsFromLive(client, itemIds, undefined, 'en')
-      ]);
-
-      const processedItems = processItemData(
-        authoringResult,
-        liveResult,
-        itemIds,
-        itemIds[0]
-      );
+      const { items: processedItems } = await queryItems(client, itemIds, 'en', itemIds[0]);
 
       const itemInformationResponse = createItemInformationResponse(processedItems);
 
@@ -383,13 +454,36 @@ export const useSpecificItemsInformation = (itemIds: string[]): UseItemInformati
     await fetchSpecificItems();
   }, [fetchSpecificItems]);
 
-  const refetchItems = useCallback(async () => {
-    await fetchSpecificItems();
-  }, [fetchSpecificItems]);
+  const refetchItems = useCallback(async (refreshItemIds: string[]) => {
+    if (!client || !isInitialized || refreshItemIds.length === 0) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { items: refreshedItems } = await queryItems(client, refreshItemIds, 'en');
+      setItems(prev => mergeRefreshedItems(prev, refreshedItems));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      console.error('Error refreshing specific items:', err);
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, [client, isInitialized]);
+
+  // Keep the summary in step with items merged by refetchItems
+  useEffect(() => {
+    setData(prev => prev && createItemInformationResponse(items));
+  }, [items]);
 
   const forceRefresh = useCallback(async () => {
+    // Query the endpoints again instead of serving cached (or stale) lookups
+    const normalizedIds = new Set(itemIds.map(formatGuidWithoutHyphens));
+    invalidateItemCache({ itemIds });
+    pageResultCache.invalidate(key => normalizedIds.has(key.split('|')[0]));
     await fetchSpecificItems();
-  }, [fetchSpecificItems]);
+  }, [fetchSpecificItems, itemIds]);
 
   useEffect(() => {
     if (isInitialized && !clientError && itemIds.length > 0) {
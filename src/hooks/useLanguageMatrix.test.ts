@@ -0,0 +1,59 @@
+// hooks/useLanguageMatrix.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useLanguageMatrix } from './useLanguageMatrix';
+import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+import { clearQueryCaches } from '../utils/graphqlQueries';
+import { processItemData } from '../utils/dataProcessing';
+import { createFakeClient, respondWithItems } from '../test/fakeClient';
+import { HERO_ID, PAGE_ID, applicationContext } from '../test/fixtures/pageContexts';
+import { authoringItems, liveItems } from '../test/fixtures/graphqlResponses';
+import type { ItemQueryResult, ProcessedItemInfo } from '../types/itemInformation';
+
+vi.mock('../utils/hooks/useMarketplaceClient', () => ({
+  useMarketplaceClient: vi.fn()
+}));
+
+const resultFor = (records: Record<string, unknown>, itemIds: string[]): ItemQueryResult => ({
+  data: { data: Object.fromEntries(itemIds.map(id => [id.replace(/-/g, ''), records[id] ?? null])) }
+});
+
+const loadItems = (itemIds: string[]): ProcessedItemInfo[] =>
+  processItemData(resultFor(authoringItems, itemIds), resultFor(liveItems, itemIds), itemIds, PAGE_ID);
+
+describe('useLanguageMatrix', () => {
+  afterEach(() => {
+    clearQueryCaches();
+    vi.clearAllMocks();
+  });
+
+  it('reloads only when the item IDs change, not on every refreshed items array', async () => {
+    const { client, calls } = createFakeClient({
+      applicationContext,
+      authoring: respondWithItems(authoringItems),
+      live: respondWithItems(liveItems)
+    });
+    vi.mocked(useMarketplaceClient).mockReturnValue({
+      client,
+      error: null,
+      isLoading: false,
+      isInitialized: true,
+      initialize: vi.fn()
+    });
+
+    const { result, rerender } = renderHook(({ items }) => useLanguageMatrix(items, true), {
+      initialProps: { items: loadItems([PAGE_ID, HERO_ID]) }
+    });
+    await waitFor(() => expect(result.current.matrix?.rows).toHaveLength(2));
+    const callCount = calls.length;
+
+    // A poll hands in new objects for the same items, in another order
+    rerender({ items: loadItems([HERO_ID, PAGE_ID]) });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(calls).toHaveLength(callCount);
+
+    rerender({ items: loadItems([PAGE_ID]) });
+    await waitFor(() => expect(result.current.matrix?.rows).toHaveLength(1));
+    expect(calls.length).toBeGreaterThan(callCount);
+  });
+});
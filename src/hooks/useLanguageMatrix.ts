@@ -0,0 +1,123 @@
+// hooks/useLanguageMatrix.ts
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+
+import {
+  getItemsFromAuthoring,
+  getItemsFromLive,
+  getItemLanguagesFromAuthoring,
+  getSitecoreContextIds
+} from '../utils/graphqlQueries';
+import {
+  processItemData,
+  createLanguageMatrix,
+  formatGuidWithoutHyphens
+} from '../utils/dataProcessing';
+import type {
+  LanguageMatrixResponse,
+  ProcessedItemInfo
+} from '../types/itemInformation';
+
+export interface UseLanguageMatrixResult {
+  /** The items × languages matrix */
+  matrix: LanguageMatrixResponse | null;
+  /** Loading state */
+  loading: boolean;
+  /** Error state */
+  error: string | null;
+  /** Function to manually refetch the matrix */
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook for getting the publishing status of a set of items in every language they have versions in
+ * @param items - Items already discovered by useItemInformation (page and references)
+ * @param enabled - Whether the matrix should be loaded
+ */
+export const useLanguageMatrix = (items: ProcessedItemInfo[], enabled: boolean): UseLanguageMatrixResult => {
+  const { client, isInitialized } = useMarketplaceClient();
+  const [matrix, setMatrix] = useState<LanguageMatrixResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Polls and refreshes hand in a new items array with the same items; only reload when the IDs change
+  const itemIdsKey = useMemo(
+    () => Array.from(new Set(items.map(item => formatGuidWithoutHyphens(item.id)))).sort().join('|'),
+    [items]
+  );
+  const itemsRef = useRef(items);
+  useEffect(() => {
+    itemsRef.current = items;
+  });
+
+  const fetchLanguageMatrix = useCallback(async () => {
+    const pageItems = itemsRef.current;
+    if (!client || !isInitialized) {
+      setError('Marketplace client not initialized');
+      return;
+    }
+
+    if (pageItems.length === 0) {
+      setMatrix(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const itemIds = pageItems.map(item => item.id);
+      const currentItemId = pageItems.find(item => item.itemType === 'current')?.id;
+      const { sitecoreContextId, liveContextId } = await getSitecoreContextIds(client);
+
+      // STEP 1: Discover every language any of the items has versions in
+      const { languagesByItem, failures } = await getItemLanguagesFromAuthoring(client, itemIds, sitecoreContextId);
+      if (failures.length > 0) {
+        console.warn('Languages could not be loaded for some items:', failures);
+      }
+      const languages = new Set<string>();
+      Object.values(languagesByItem).forEach(itemLanguages => itemLanguages.forEach(language => languages.add(language)));
+      pageItems.forEach(item => {
+        if (item.language) languages.add(item.language);
+      });
+
+      // STEP 2: Fan out authoring and live queries per language
+      const results = await Promise.all(
+        Array.from(languages).map(async language => {
+          const [authoringResult, liveResult] = await Promise.all([
+            getItemsFromAuthoring(client, itemIds, sitecoreContextId, language),
+            getItemsFromLive(client, itemIds, liveContextId, language)
+          ]);
+          return [language, processItemData(authoringResult, liveResult, itemIds, currentItemId)] as const;
+        })
+      );
+
+      setMatrix(createLanguageMatrix(pageItems, Object.fromEntries(results)));
+
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      console.error('Error fetching language matrix:', err);
+      setError(errorMessage);
+      setMatrix(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [client, isInitialized]);
+
+  const refetch = useCallback(async () => {
+    await fetchLanguageMatrix();
+  }, [fetchLanguageMatrix]);
+
+  useEffect(() => {
+    if (enabled && isInitialized) {
+      fetchLanguageMatrix();
+    }
+  }, [enabled, isInitialized, fetchLanguageMatrix, itemIdsKey]);
+
+  return {
+    matrix,
+    loading,
+    error,
+    refetch
+  };
+};
@@ -0,0 +1,92 @@
+// hooks/usePublishing.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { DEFAULT_PUBLISH_OPTIONS, usePublishing } from './usePublishing';
+import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+import { getPublishingStatus, getSitecoreContextId, publishItems } from '../utils/graphqlQueries';
+import { createFakeClient } from '../test/fakeClient';
+
+vi.mock('../utils/hooks/useMarketplaceClient', () => ({
+  useMarketplaceClient: vi.fn()
+}));
+
+vi.mock('../utils/graphqlQueries', () => ({
+  getPublishingStatus: vi.fn(),
+  getSitecoreContextId: vi.fn(),
+  publishItems: vi.fn()
+}));
+
+const ITEM = { id: '11111111-1111-1111-1111-111111111111', name: 'Home' };
+
+describe('usePublishing', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(useMarketplaceClient).mockReturnValue({
+      client: createFakeClient().client,
+      error: null,
+      isLoading: false,
+      isInitialized: true,
+      initialize: vi.fn()
+    });
+    vi.mocked(getSitecoreContextId).mockResolvedValue('context-id');
+    vi.mocked(publishItems).mockResolvedValue({ [ITEM.id]: 'operation-1' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('marks a job as timed out once it passes the polling deadline', async () => {
+    vi.mocked(getPublishingStatus).mockResolvedValue({
+      'operation-1': { isDone: false, isFailed: false, processed: 3, state: 'Running' }
+    });
+    const onJobsCompleted = vi.fn();
+    const { result } = renderHook(() => usePublishing({ onJobsCompleted, pollInterval: 1000, maxPollTime: 5000 }));
+
+    await act(() => result.current.publish([ITEM], DEFAULT_PUBLISH_OPTIONS));
+    expect(result.current.isPublishing).toBe(true);
+
+    await act(() => vi.advanceTimersByTimeAsync(3000));
+    expect(result.current.jobs[0]).toMatchObject({ state: 'running', processed: 3 });
+
+    await act(() => vi.advanceTimersByTimeAsync(3000));
+    expect(result.current.jobs[0]).toMatchObject({ state: 'timed-out', processed: 3 });
+    expect(result.current.jobs[0].error).toContain('1 minute');
+    expect(result.current.isPublishing).toBe(false);
+    expect(onJobsCompleted).toHaveBeenCalledWith([expect.objectContaining({ operationId: 'operation-1' })]);
+
+    const pollCount = vi.mocked(getPublishingStatus).mock.calls.length;
+    await act(() => vi.advanceTimersByTimeAsync(10000));
+    expect(getPublishingStatus).toHaveBeenCalledTimes(pollCount);
+  });
+
+  it('times out jobs whose status checks keep failing', async () => {
+    vi.mocked(getPublishingStatus).mockResolvedValue({ 'operation-1': null });
+    const { result } = renderHook(() => usePublishing({ pollInterval: 1000, maxPollTime: 5000 }));
+
+    await act(() => result.current.publish([ITEM], DEFAULT_PUBLISH_OPTIONS));
+    await act(() => vi.advanceTimersByTimeAsync(6000));
+
+    expect(result.current.jobs[0].state).toBe('timed-out');
+
+    act(() => result.current.clearFinishedJobs());
+    expect(result.current.jobs).toEqual([]);
+  });
+
+  it('keeps a single polling interval while status updates arrive', async () => {
+    let processed = 0;
+    vi.mocked(getPublishingStatus).mockImplementation(async () => ({
+      'operation-1': { isDone: false, isFailed: false, processed: ++processed, state: 'Running' }
+    }));
+    const setIntervalSpy = vi.spyOn(globalThis, 'setInterval');
+    const { result } = renderHook(() => usePublishing({ pollInterval: 1000 }));
+
+    await act(() => result.current.publish([ITEM], DEFAULT_PUBLISH_OPTIONS));
+    await act(() => vi.advanceTimersByTimeAsync(5000));
+
+    expect(result.current.jobs[0].processed).toBe(5);
+    expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+    setIntervalSpy.mockRestore();
+  });
+});
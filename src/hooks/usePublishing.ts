@@ -0,0 +1,217 @@
+// hooks/usePublishing.ts
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+
+import {
+  getPublishingStatus,
+  getSitecoreContextId,
+  publishItems
+} from '../utils/graphqlQueries';
+import { invalidateItemCache } from '../utils/queryCache';
+import type { PublishJob, PublishOptions } from '../types/publishing';
+
+export interface UsePublishingOptions {
+  /**
+   * Called once all running publish jobs have finished (e.g. to refetch item information),
+   * with the jobs that finished since the last call
+   */
+  onJobsCompleted?: (finishedJobs: PublishJob[]) => void;
+  /**
+   * Interval between publishing status checks in milliseconds
+   * @default 2000
+   */
+  pollInterval?: number;
+  /**
+   * Time in milliseconds after which a job without a final status is marked as timed out
+   * and no longer polled
+   * @default 600000
+   */
+  maxPollTime?: number;
+}
+
+export interface UsePublishingResult {
+  /** All publish jobs started in this session */
+  jobs: PublishJob[];
+  /** Whether any publish job is still queued or running */
+  isPublishing: boolean;
+  /** Error from the last publish request */
+  error: string | null;
+  /** Function to start a publish job for each of the given items */
+  publish: (items: Array<{ id: string; name: string }>, options: PublishOptions) => Promise<void>;
+  /** Function to remove completed, failed and timed out jobs from the list */
+  clearFinishedJobs: () => void;
+}
+
+export const DEFAULT_PUBLISH_OPTIONS: PublishOptions = {
+  languages: ['en'],
+  targetDatabases: ['experienceedge'],
+  publishSubItems: false,
+  publishRelatedItems: false,
+  publishItemMode: 'SMART'
+};
+
+const isActiveJob = (job: PublishJob): boolean => job.state === 'queued' || job.state === 'running';
+
+const formatPollTime = (milliseconds: number): string => {
+  const minutes = Math.ceil(milliseconds / 60000);
+  return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+};
+
+export const usePublishing = ({
+  onJobsCompleted,
+  pollInterval = 2000,
+  maxPollTime = 10 * 60 * 1000
+}: UsePublishingOptions = {}): UsePublishingResult => {
+  const { client, isInitialized } = useMarketplaceClient();
+  const [jobs, setJobs] = useState<PublishJob[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the latest callback without restarting the polling loop
+  const onJobsCompletedRef = useRef(onJobsCompleted);
+  useEffect(() => {
+    onJobsCompletedRef.current = onJobsCompleted;
+  }, [onJobsCompleted]);
+
+  const sitecoreContextIdRef = useRef<string | undefined>(undefined);
+
+  const publish = useCallback(async (
+    items: Array<{ id: string; name: string }>,
+    options: PublishOptions
+  ) => {
+    if (!client || !isInitialized) {
+      setError('Marketplace client not initialized');
+      return;
+    }
+
+    if (items.length === 0) {
+      return;
+    }
+
+    setError(null);
+
+    try {
+      if (!sitecoreContextIdRef.current) {
+        sitecoreContextIdRef.current = await getSitecoreContextId(client);
+      }
+
+      const operations = await publishItems(
+        client,
+        items.map(item => item.id),
+        options,
+        sitecoreContextIdRef.current
+      );
+
+      const startedAt = Date.now();
+      const newJobs: PublishJob[] = items.map(item => {
+        const operationId = operations[item.id];
+        return {
+          operationId: operationId || `failed-${item.id}-${startedAt}`,
+          itemIds: [item.id],
+          itemNames: [item.name],
+          options,
+          state: operationId ? 'queued' : 'failed',
+          processed: 0,
+          startedAt,
+          finishedAt: operationId ? undefined : startedAt,
+          error: operationId ? undefined : 'Publish job could not be started'
+        };
+      });
+
+      setJobs(prev => [...prev, ...newJobs]);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      console.error('Error starting publish job:', err);
+      setError(errorMessage);
+    }
+  }, [client, isInitialized]);
+
+  const activeOperationIds = jobs.filter(isActiveJob).map(job => job.operationId);
+  const activeOperationKey = activeOperationIds.join(',');
+
+  // Poll the publishing status of active jobs until they finish or reach the deadline
+  useEffect(() => {
+    if (!client || !activeOperationKey) {
+      return;
+    }
+
+    const operationIds = activeOperationKey.split(',');
+    let cancelled = false;
+    let inFlight = false;
+
+    const poll = async () => {
+      if (inFlight) return;
+      inFlight = true;
+
+      try {
+        const statuses = await getPublishingStatus(client, operationIds, sitecoreContextIdRef.current);
+        if (cancelled) return;
+
+        const now = Date.now();
+        setJobs(prev => prev.map(job => {
+          if (!isActiveJob(job)) {
+            return job;
+          }
+
+          const status = statuses[job.operationId];
+          if (status?.isFailed) {
+            return { ...job, state: 'failed', processed: status.processed, finishedAt: now, error: status.state };
+          }
+
+          if (status?.isDone) {
+            return { ...job, state: 'completed', processed: status.processed, finishedAt: now };
+          }
+
+          // Covers jobs that never report done as well as jobs whose status checks keep failing
+          if (now - job.startedAt >= maxPollTime) {
+            return {
+              ...job,
+              state: 'timed-out',
+              processed: status?.processed ?? job.processed,
+              finishedAt: now,
+              error: `No final status from the publishing service within ${formatPollTime(maxPollTime)}`
+            };
+          }
+
+          return status ? { ...job, state: 'running', processed: status.processed } : job;
+        }));
+      } finally {
+        inFlight = false;
+      }
+    };
+
+    const timer = setInterval(poll, pollInterval);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [client, activeOperationKey, pollInterval, maxPollTime]);
+
+  // Notify once the last active job has finished
+  const hadActiveJobsRef = useRef(false);
+  const notifiedOperationIdsRef = useRef(new Set<string>());
+  useEffect(() => {
+    const hasActiveJobs = activeOperationIds.length > 0;
+    if (hadActiveJobsRef.current && !hasActiveJobs) {
+      const finishedJobs = jobs.filter(job => !notifiedOperationIdsRef.current.has(job.operationId));
+      finishedJobs.forEach(job => notifiedOperationIdsRef.current.add(job.operationId));
+
+      // Published versions changed, possibly for subitems and related items too
+      invalidateItemCache({ endpoints: ['live', 'preview'] });
+      onJobsCompletedRef.current?.(finishedJobs);
+    }
+    hadActiveJobsRef.current = hasActiveJobs;
+  }, [activeOperationIds.length, jobs]);
+
+  const clearFinishedJobs = useCallback(() => {
+    setJobs(prev => prev.filter(isActiveJob));
+  }, []);
+
+  return {
+    jobs,
+    isPublishing: activeOperationIds.length > 0,
+    error,
+    publish,
+    clearFinishedJobs
+  };
+};
@@ -0,0 +1,63 @@
+// hooks/useSiteAudit.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useSiteAudit } from './useSiteAudit';
+import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+import { runSiteAudit } from '../utils/siteAudit';
+import { createFakeClient } from '../test/fakeClient';
+import type { SiteAuditReport } from '../types/siteAudit';
+
+vi.mock('../utils/hooks/useMarketplaceClient', () => ({
+  useMarketplaceClient: vi.fn()
+}));
+
+vi.mock('../utils/siteAudit', () => ({
+  runSiteAudit: vi.fn()
+}));
+
+const report = (rootPath: string): SiteAuditReport => ({
+  rootPath,
+  language: 'en',
+  startedAt: '2025-01-01T00:00:00.000Z',
+  finishedAt: '2025-01-01T00:00:01.000Z',
+  pages: [],
+  summary: { pagesAudited: 0, pagesWithIssues: 0, pagesFailed: 0, outdatedItems: 0, unpublishedItems: 0 },
+  cancelled: false,
+  truncated: false,
+  discoveryFailures: []
+});
+
+describe('useSiteAudit', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('ignores the error of an audit that a newer audit replaced', async () => {
+    vi.mocked(useMarketplaceClient).mockReturnValue({
+      client: createFakeClient().client,
+      error: null,
+      isLoading: false,
+      isInitialized: true,
+      initialize: vi.fn()
+    });
+    let failFirstAudit: (error: Error) => void = () => {};
+    vi.mocked(runSiteAudit)
+      .mockImplementationOnce(() => new Promise((_resolve, reject) => { failFirstAudit = reject; }))
+      .mockResolvedValueOnce(report('/sitecore/content/Site/Home/Second'));
+    const { result } = renderHook(() => useSiteAudit());
+
+    let firstAudit: Promise<void> = Promise.resolve();
+    await act(async () => {
+      firstAudit = result.current.startAudit('/sitecore/content/Site/Home/First');
+    });
+    await act(() => result.current.startAudit('/sitecore/content/Site/Home/Second'));
+    await act(async () => {
+      failFirstAudit(new Error('Item not found: /sitecore/content/Site/Home/First'));
+      await firstAudit;
+    });
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.report?.rootPath).toBe('/sitecore/content/Site/Home/Second');
+    expect(result.current.loading).toBe(false);
+  });
+});
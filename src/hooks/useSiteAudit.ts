@@ -0,0 +1,95 @@
+// hooks/useSiteAudit.ts
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useMarketplaceClient } from '../utils/hooks/useMarketplaceClient';
+
+import { runSiteAudit } from '../utils/siteAudit';
+import type { SiteAuditOptions } from '../utils/siteAudit';
+import type { SiteAuditProgress, SiteAuditReport } from '../types/siteAudit';
+
+export interface UseSiteAuditResult {
+  /** Report of the last audit; kept when a new audit is cancelled early */
+  report: SiteAuditReport | null;
+  /** Progress of the running audit */
+  progress: SiteAuditProgress | null;
+  /** Whether an audit is running */
+  loading: boolean;
+  /** Error state */
+  error: string | null;
+  /** Audit every page below rootPath */
+  startAudit: (rootPath: string, options?: Omit<SiteAuditOptions, 'signal' | 'onProgress'>) => Promise<void>;
+  /** Stop the running audit after the page in progress; pages audited so far are reported */
+  cancelAudit: () => void;
+}
+
+/**
+ * Hook for running a publishing audit over every page in a content subtree
+ */
+export const useSiteAudit = (): UseSiteAuditResult => {
+  const { client, isInitialized } = useMarketplaceClient();
+  const [report, setReport] = useState<SiteAuditReport | null>(null);
+  const [progress, setProgress] = useState<SiteAuditProgress | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const startAudit = useCallback<UseSiteAuditResult['startAudit']>(async (rootPath, options = {}) => {
+    if (!client || !isInitialized) {
+      setError('Marketplace client not initialized');
+      return;
+    }
+
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    setLoading(true);
+    setError(null);
+    setProgress(null);
+
+    try {
+      const auditReport = await runSiteAudit(client, rootPath.trim(), {
+        ...options,
+        signal: abortController.signal,
+        onProgress: auditProgress => {
+          if (abortControllerRef.current === abortController) {
+            setProgress(auditProgress);
+          }
+        }
+      });
+      // A newer audit replaces this one
+      if (abortControllerRef.current === abortController) {
+        setReport(auditReport);
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      console.error('Error running site audit:', err);
+      if (abortControllerRef.current === abortController) {
+        setError(errorMessage);
+      }
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        setLoading(false);
+        setProgress(null);
+      }
+    }
+  }, [client, isInitialized]);
+
+  const cancelAudit = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Stop a running audit when the component using it unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  return {
+    report,
+    progress,
+    loading,
+    error,
+    startAudit,
+    cancelAudit
+  };
+};
@@ -0,0 +1,137 @@
+// test/fakeClient.ts
+import { vi } from 'vitest';
+import type { ClientSDK } from '@sitecore-marketplace-sdk/client';
+
+/**
+ * GraphQL response body as returned by the authoring, preview and Edge endpoints
+ */
+export interface GraphQLBody {
+  data?: Record<string, unknown> | null;
+  errors?: Array<{ message: string }>;
+}
+
+export type GraphQLResponder = (query: string) => GraphQLBody | Promise<GraphQLBody>;
+
+export interface FakeClientOptions {
+  /** Payload returned by the pages.context query */
+  pageContext?: unknown;
+  /** Payload returned by the application.context query */
+  applicationContext?: unknown;
+  /** Answers xmc.authoring.graphql calls */
+  authoring?: GraphQLResponder;
+  /** Answers xmc.preview.graphql calls */
+  preview?: GraphQLResponder;
+  /** Answers xmc.live.graphql calls */
+  live?: GraphQLResponder;
+}
+
+export interface FakeClient {
+  client: ClientSDK;
+  /** Every GraphQL call made through the client, in order */
+  calls: Array<{ key: string; query: string; sitecoreContextId?: string }>;
+  /** Replace the pages.context payload and notify its subscribers, like the editor does */
+  emitPageContext: (pageContext: unknown) => void;
+}
+
+const emptyResponder: GraphQLResponder = () => ({ data: {} });
+
+/**
+ * Create a ClientSDK stand-in that answers queries and GraphQL mutations from test fixtures
+ * Mutations resolve to { data: body }, like the SDK's xmc module
+ */
+export const createFakeClient = ({
+  pageContext,
+  applicationContext,
+  authoring = emptyResponder,
+  preview = emptyResponder,
+  live = emptyResponder
+}: FakeClientOptions = {}): FakeClient => {
+  const calls: FakeClient['calls'] = [];
+  const pageContextListeners = new Set<(data: unknown) => void>();
+  let currentPageContext = pageContext;
+
+  const query = vi.fn(async (key: string, options?: { subscribe?: boolean; onSuccess?: (data: unknown) => void }) => {
+    switch (key) {
+      case 'pages.context': {
+        const listener = options?.onSuccess;
+        if (!options?.subscribe || !listener) {
+          return { data: currentPageContext };
+        }
+        pageContextListeners.add(listener);
+        return { data: currentPageContext, unsubscribe: () => pageContextListeners.delete(listener) };
+      }
+      case 'application.context':
+        return { data: applicationContext };
+      default:
+        throw new Error(`Unexpected query: ${key}`);
+    }
+  });
+
+  const mutate = vi.fn(async (
+    key: string,
+    options: { params: { query?: { sitecoreContextId?: string }; body: { query: string } } }
+  ) => {
+    const graphqlQuery = options.params.body.query;
+    calls.push({ key, query: graphqlQuery, sitecoreContextId: options.params.query?.sitecoreContextId });
+
+    switch (key) {
+      case 'xmc.authoring.graphql':
+        return { data: await authoring(graphqlQuery) };
+      case 'xmc.preview.graphql':
+        return { data: await preview(graphqlQuery) };
+      case 'xmc.live.graphql':
+        return { data: await live(graphqlQuery) };
+      default:
+        throw new Error(`Unexpected mutation: ${key}`);
+    }
+  });
+
+  return {
+    client: { query, mutate } as unknown as ClientSDK,
+    calls,
+    emitPageContext: (nextPageContext) => {
+      currentPageContext = nextPageContext;
+      pageContextListeners.forEach(listener => listener(nextPageContext));
+    }
+  };
+};
+
+/**
+ * Replace global fetch so live proxy and direct Experience Edge calls are answered by the responder
+ * Returns the mock so tests can inspect the requests
+ */
+export const stubEdgeFetch = (responder: GraphQLResponder) => {
+  const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+    const { query } = JSON.parse(String(init?.body || '{}')) as { query: string };
+    return new Response(JSON.stringify(await responder(query)), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+/**
+ * Answer aliased item queries (item0: item(...) { ... }) from a map of recorded items
+ * Items are looked up by the itemId, path or Edge path argument of each alias, in any GUID format
+ */
+export const respondWithItems = (records: Record<string, unknown>): GraphQLResponder => {
+  const normalize = (value: string) => value.replace(/[{}-]/g, '').toUpperCase();
+  const recordsByKey = new Map(Object.entries(records).map(([key, value]) => [
+    key.startsWith('/') ? key.toLowerCase() : normalize(key),
+    value
+  ]));
+
+  return (query) => {
+    const data: Record<string, unknown> = {};
+    for (const match of query.matchAll(/(\w+):\s*item\(([^)]*)\)/g)) {
+      // Lookups are JSON string literals, so paths may contain escaped quotes
+      const literal = /(?:itemId|path):\s*("(?:[^"\\]|\\.)*")/.exec(match[2])?.[1];
+      const lookup = literal ? JSON.parse(literal) as string : '';
+      const key = lookup.startsWith('/') ? lookup.toLowerCase() : normalize(lookup);
+      data[match[1]] = recordsByKey.get(key) ?? null;
+    }
+    return { data };
+  };
+};
@@ -0,0 +1,78 @@
+// test/fixtures/graphqlResponses.ts
+// Item records as returned by the authoring endpoint and Experience Edge, keyed by item ID
+import type { AuthoringItemResponse, LiveItemResponse } from '../../types/itemInformation';
+import { FOOTER_ID, HERO_ID, PAGE_ID, PAGE_PATH, PROMO_ID } from './pageContexts';
+
+export const TEXT_ID = 'A1B2C3D4-0003-4000-8000-000000000003';
+export const SHARED_TEXT_ID = 'A1B2C3D4-0009-4000-8000-000000000009';
+export const CARD_ID = 'A1B2C3D4-0005-4000-8000-000000000005';
+
+const authoringItem = (
+  itemId: string,
+  name: string,
+  path: string,
+  version: number,
+  fields: Record<string, string> = {}
+): AuthoringItemResponse => ({
+  itemId: itemId.toLowerCase(),
+  name,
+  path,
+  version,
+  template: { name: 'Test Template' },
+  language: { name: 'en' },
+  workflow: null,
+  fields: {
+    nodes: Object.entries(fields).map(([fieldName, value]) => ({ name: fieldName, value }))
+  }
+});
+
+const liveItem = (itemId: string, name: string, version: number): LiveItemResponse => ({
+  id: itemId.replace(/-/g, '').toUpperCase(),
+  name,
+  version,
+  language: { name: 'en' }
+});
+
+export const authoringItems: Record<string, AuthoringItemResponse> = {
+  [PAGE_ID]: authoringItem(PAGE_ID, 'Home', PAGE_PATH, 2),
+  [HERO_ID]: authoringItem(HERO_ID, 'Home Hero', '/sitecore/content/Demo/Demo Site/Data/Home Hero', 1),
+  [PROMO_ID]: authoringItem(PROMO_ID, 'Spring Promo', '/sitecore/content/Demo/Demo Site/Data/Spring Promo', 3, {
+    Link: `<link text="Read more" linktype="internal" id="{${CARD_ID}}" />`
+  }),
+  [FOOTER_ID]: authoringItem(FOOTER_ID, 'Footer', '/sitecore/content/Demo/Demo Site/Data/Footer', 1),
+  [TEXT_ID]: authoringItem(TEXT_ID, 'Text 1', `${PAGE_PATH}/Data/Text 1`, 1),
+  [SHARED_TEXT_ID]: authoringItem(SHARED_TEXT_ID, 'Shared Text', '/sitecore/content/Demo/Demo Site/Data/Shared Text', 1),
+  [CARD_ID]: authoringItem(CARD_ID, 'Launch Card', '/sitecore/content/Demo/Demo Site/Data/Cards/Launch Card', 2)
+};
+
+/**
+ * Published versions: the page and hero are up to date, the promo and card are behind,
+ * the footer and local text were never published
+ */
+export const liveItems: Record<string, LiveItemResponse> = {
+  [PAGE_ID]: liveItem(PAGE_ID, 'Home', 2),
+  [HERO_ID]: liveItem(HERO_ID, 'Home Hero', 1),
+  [PROMO_ID]: liveItem(PROMO_ID, 'Spring Promo', 2),
+  [SHARED_TEXT_ID]: liveItem(SHARED_TEXT_ID, 'Shared Text', 1),
+  [CARD_ID]: liveItem(CARD_ID, 'Launch Card', 1)
+};
+
+/**
+ * Preview versions: everything matches authoring except the local text, which is not indexed
+ * yet; the footer is therefore in preview only
+ */
+export const previewItems: Record<string, LiveItemResponse> = {
+  [PAGE_ID]: liveItem(PAGE_ID, 'Home', 2),
+  [HERO_ID]: liveItem(HERO_ID, 'Home Hero', 1),
+  [PROMO_ID]: liveItem(PROMO_ID, 'Spring Promo', 3),
+  [FOOTER_ID]: liveItem(FOOTER_ID, 'Footer', 1),
+  [SHARED_TEXT_ID]: liveItem(SHARED_TEXT_ID, 'Shared Text', 1),
+  [CARD_ID]: liveItem(CARD_ID, 'Launch Card', 2)
+};
+
+/**
+ * Authoring items also addressable by path, for local datasource resolution
+ */
+export const authoringItemsByPath: Record<string, AuthoringItemResponse> = Object.fromEntries(
+  Object.values(authoringItems).map(item => [item.path, item])
+);
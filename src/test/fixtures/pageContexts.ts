@@ -0,0 +1,123 @@
+// test/fixtures/pageContexts.ts
+// pages.context payloads in the shapes the Pages editor has been observed to send
+
+export const PAGE_ID = '6B7C1F4A2E3D4C5B9A8F0D1E2F3A4B5C';
+export const HERO_ID = 'A1B2C3D4-0001-4000-8000-000000000001';
+export const PROMO_ID = 'A1B2C3D4-0002-4000-8000-000000000002';
+export const FOOTER_ID = 'A1B2C3D4-0008-4000-8000-000000000008';
+export const PAGE_PATH = '/sitecore/content/Demo/Demo Site/Home';
+
+export const applicationContext = {
+  id: 'test-app',
+  resourceAccess: [
+    {
+      resourceId: 'xmcloud',
+      context: {
+        preview: 'test-preview-context',
+        live: 'test-live-context'
+      }
+    }
+  ]
+};
+
+/**
+ * Page with GUID, piped and local datasources on device renderings and a placeholder rendering
+ */
+export const homePageContext = {
+  siteInfo: { name: 'Demo Site', language: 'en' },
+  pageInfo: {
+    id: PAGE_ID.toLowerCase(),
+    name: 'Home',
+    path: PAGE_PATH,
+    language: 'en',
+    presentationDetails: JSON.stringify({
+      devices: [
+        {
+          id: 'FE5D7FDF-89C0-4D99-9AA3-B5FBD009C9F3',
+          renderings: [
+            { id: 'hero', placeholderKey: 'headless-main', dataSource: `{${HERO_ID}}` },
+            { id: 'promos', placeholderKey: 'headless-main', dataSource: `{${PROMO_ID}} | {${HERO_ID}}` },
+            { id: 'text', placeholderKey: 'headless-main', dataSource: 'local:/Data/Text 1' },
+            { id: 'shared', placeholderKey: 'headless-main', datasource: '/sitecore/content/Demo/Demo Site/Data/Shared Text' },
+            { id: 'query', placeholderKey: 'headless-main', dataSource: 'query:./*' }
+          ],
+          placeholders: [
+            {
+              key: 'headless-footer',
+              renderings: [
+                { id: 'footer', dataSource: `{${FOOTER_ID}}` }
+              ]
+            }
+          ]
+        }
+      ]
+    })
+  }
+};
+
+/**
+ * Page whose hero rendering is personalized and whose promo rendering runs a component A/B test
+ * The default rule has no datasource action, the returning visitor rule swaps in the promo
+ */
+export const personalizedPageContext = {
+  siteInfo: { name: 'Demo Site', language: 'en' },
+  pageInfo: {
+    id: PAGE_ID,
+    path: PAGE_PATH,
+    language: 'en',
+    presentationDetails: JSON.stringify({
+      devices: [
+        {
+          id: 'FE5D7FDF-89C0-4D99-9AA3-B5FBD009C9F3',
+          renderings: [
+            {
+              id: 'hero',
+              placeholderKey: 'headless-main',
+              dataSource: `{${HERO_ID}}`,
+              personalization: {
+                ruleSet: {
+                  rules: [
+                    { uniqueId: '{00000000-0000-0000-0000-000000000000}', name: 'Default', actions: [] },
+                    { uniqueId: '{5D1C5C9A-1111-4222-8333-444444444444}', name: 'Returning visitors', actions: [{ dataSource: `{${PROMO_ID}}` }] }
+                  ]
+                }
+              }
+            },
+            {
+              id: 'promo',
+              placeholderKey: 'headless-main',
+              dataSource: `{${PROMO_ID}}`,
+              personalization: {
+                variants: [
+                  { name: 'Variant B', dataSource: 'local:/Data/Promo B' }
+                ]
+              }
+            }
+          ],
+          placeholders: [
+            {
+              key: 'headless-footer',
+              renderings: [
+                { id: 'footer', rules: [{ name: 'Mobile visitors', dataSource: `{${FOOTER_ID}}` }] }
+              ]
+            }
+          ]
+        }
+      ]
+    })
+  }
+};
+
+/**
+ * Page without presentation details whose item ID and language only appear in siteInfo
+ */
+export const siteInfoOnlyContext = {
+  siteInfo: { itemId: PAGE_ID, defaultLanguage: 'da' }
+};
+
+/**
+ * Only a braced item ID at the root of the context
+ */
+export const rootLevelContext = {
+  pageId: `{${PAGE_ID}}`
+};
@@ -0,0 +1,8 @@
+// test/setup.ts
+import { beforeEach } from 'vitest';
+import { clearQueryCaches } from '../utils/graphqlQueries';
+
+// Cached lookups would otherwise leak between tests that share fixtures
+beforeEach(() => {
+  clearQueryCaches();
+});
@@ -0,0 +1,29 @@
+// types/fieldDiff.ts
+
+export type FieldKind = 'text' | 'rich-text' | 'image' | 'link';
+
+export type FieldChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface TextDiffSegment {
+  text: string;
+  type: 'added' | 'removed' | 'unchanged';
+}
+
+export interface FieldDiff {
+  name: string;
+  kind: FieldKind;
+  status: FieldChangeStatus;
+  /** Value in the latest authoring version; null if the field is not on that version */
+  latestValue: string | null;
+  /** Value published to Experience Edge; null if the field is not published */
+  publishedValue: string | null;
+  /** Word-level diff of the displayable text; empty when the values are too large to diff */
+  segments: TextDiffSegment[];
+}
+
+export interface ItemFieldDiff {
+  itemId: string;
+  latestVersion: number;
+  publishedVersion: number | null;
+  fields: FieldDiff[];
+}
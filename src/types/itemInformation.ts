@@ -1,6 +1,53 @@
 // types/itemInformation.ts
 
-export type ItemType = 'current' | 'datasource' | 'link' | 'reference';
+export type ItemType = 'current' | 'datasource' | 'link' | 'media' | 'reference';
+
+/**
+ * Result of looking up an item on an endpoint: found, queried but not found, or not
+ * known because the query for it failed
+ */
+export type ItemLookupState = 'found' | 'not-found' | 'unavailable';
+
+export type ItemSource =
+  | 'rendering-datasource'
+  | 'local-datasource'
+  | 'link-field'
+  | 'media-field'
+  | 'field-reference'
+  | 'page-design'
+  | 'partial-design-datasource';
+
+/**
+ * Layer of a page's presentation details: the shared layout (__Renderings) or the
+ * language-specific final layout (__Final Renderings)
+ */
+export type LayoutLayer = 'shared' | 'final';
+
+/**
+ * A personalization rule or component test variant that swaps a rendering's datasource
+ */
+export interface RenderingVariant {
+  kind: 'personalization' | 'ab-test';
+  /** Rule or variant name as shown in the Pages editor */
+  name: string;
+}
+
+/**
+ * Describes where an item ID was discovered while building the page graph
+ */
+export interface ItemProvenance {
+  source: ItemSource;
+  /** Item whose field contained the reference (field-based sources only) */
+  parentId?: string;
+  /** Field that contained the reference (field-based sources only) */
+  fieldName?: string;
+  /** Placeholder key for rendering datasources, or the unresolved local path */
+  detail?: string;
+  /** Personalization rule or test variant that uses the datasource (rendering datasources only) */
+  variant?: RenderingVariant;
+  /** Layout layer the datasource is set in, when the page's layout fields were read */
+  layer?: LayoutLayer;
+}
 
 export interface ProcessedItemInfo {
   id: string;
@@ -8,12 +55,31 @@ export interface ProcessedItemInfo {
   path: string;
   latestVersion: number;
   publishedVersion: number | null;
+  /** Version served by the preview endpoint; null when not in preview, undefined when preview was not queried */
+  previewVersion?: number | null;
   isPublished: boolean;
   isOutdated: boolean;
   versionDifference: number;
   itemType: ItemType;
+  /** Whether the item was found on the authoring endpoint */
+  authoringState?: ItemLookupState;
+  /** Whether the item was found on Experience Edge (not found means not published) */
+  liveState?: ItemLookupState;
+  /** Whether the item was found on the preview endpoint; undefined when preview was not queried */
+  previewState?: ItemLookupState;
   template?: string;
   language?: string;
+  provenance?: ItemProvenance[];
+  /** Workflow state of the latest version; undefined when the item is not in a workflow */
+  workflow?: ItemWorkflowInfo;
+  /** True when the latest version needs publishing but is not in a final workflow state */
+  isBlockedByWorkflow?: boolean;
+  /** Publishing restriction that prevents the latest version from being live */
+  restriction?: PublishingRestriction;
+  /** File details and blob status; set for items in the media library */
+  media?: MediaInfo;
+  /** Whether a linked item lies outside the current site; set for link targets only */
+  isOutsideSite?: boolean;
   referencedBy?: Array<{
     id: string;
     name: string;
@@ -22,11 +88,67 @@ export interface ProcessedItemInfo {
   }>;
 }
 
+/**
+ * Why a link to an item will not work as intended on the live site
+ * - deleted-target: the linked item no longer exists
+ * - unpublished-target: the linked item exists but is not published
+ * - outside-site: the linked item belongs to another site or lies outside the site tree
+ */
+export type LinkIssue = 'deleted-target' | 'unpublished-target' | 'outside-site';
+
+/**
+ * Whether the file of a media item can be downloaded from Experience Edge
+ * - published: the media URL on Edge serves the file
+ * - missing: the item is published but its file is not served
+ * - not-published: the media item itself is not published
+ * - unknown: the file could not be checked (e.g. the request was blocked)
+ */
+export type MediaBlobState = 'published' | 'missing' | 'not-published' | 'unknown';
+
+export interface MediaInfo {
+  /** File extension without the dot, e.g. "jpg" */
+  extension?: string;
+  mimeType?: string;
+  /** File size in bytes */
+  size?: number;
+  width?: number;
+  height?: number;
+  alt?: string;
+  /** Whether the authoring item has a file attached */
+  hasBlob: boolean;
+  /** Media URL on Experience Edge; undefined when the item is not published or Edge was not asked */
+  edgeUrl?: string;
+  blobState?: MediaBlobState;
+}
+
+export interface ItemWorkflowInfo {
+  workflowName: string;
+  stateName: string;
+  /** Final states (e.g. Approved) are the only ones publishing will push */
+  isFinal: boolean;
+}
+
+export type PublishingRestrictionStatus = 'restricted' | 'scheduled' | 'expired';
+
+export interface PublishingRestriction {
+  status: PublishingRestrictionStatus;
+  /** Whether the restriction comes from the item (__Never publish, __Publish, __Unpublish) or the version */
+  level: 'item' | 'version';
+  /** Human-readable explanation of the restriction */
+  reason: string;
+  /** ISO date when a scheduled restriction lifts */
+  liftsAt?: string;
+}
+
 export interface ItemInformationSummary {
   totalItems: number;
   publishedItems: number;
   unpublishedItems: number;
   outdatedItems: number;
+  /** Items that are in preview but not published to live */
+  previewOnlyItems: number;
+  /** Items whose authoring or live lookup failed */
+  unknownItems: number;
 }
 
 export interface ItemInformationResponse {
@@ -35,6 +157,46 @@ export interface ItemInformationResponse {
   summary: ItemInformationSummary;
 }
 
+export interface LanguageMatrixRow {
+  /** Item as discovered in the page's own language */
+  item: ProcessedItemInfo;
+  /** Per-language status; null when the item has no version in that language */
+  cells: Record<string, ProcessedItemInfo | null>;
+}
+
+export interface LanguageGapSummary {
+  language: string;
+  /** Items that have at least one version in this language */
+  itemsWithVersions: number;
+  /** Items that exist in other languages but have no version in this one */
+  missingVersions: number;
+  unpublishedItems: number;
+  outdatedItems: number;
+  upToDateItems: number;
+  /** Items whose authoring or live lookup failed in this language */
+  unknownItems: number;
+}
+
+export interface LanguageMatrixResponse {
+  languages: string[];
+  rows: LanguageMatrixRow[];
+  summary: LanguageGapSummary[];
+}
+
+export interface DependencyTreeNode {
+  /** Unique key built from the path of IDs from the root to this node */
+  key: string;
+  /** The item at this node; undefined for grouping nodes such as placeholders */
+  item?: ProcessedItemInfo;
+  /** Label for grouping nodes */
+  label?: string;
+  children: DependencyTreeNode[];
+  /** True when the item already appears among its own ancestors */
+  isCycle?: boolean;
+  /** True when the item is expanded elsewhere in the tree and shown here without its children */
+  isRepeat?: boolean;
+}
+
 export interface AuthoringItemResponse {
   itemId: string;
   name: string;
@@ -46,12 +208,76 @@ export interface AuthoringItemResponse {
   language?: {
     name: string;
   };
+  workflow?: {
+    workflow?: {
+      workflowId: string;
+      displayName: string;
+    } | null;
+    workflowState?: {
+      stateId: string;
+      displayName: string;
+      final: boolean;
+    } | null;
+  } | null;
   fields?: {
     nodes: Array<{
       name: string;
       value: string;
     }>;
   };
+  neverPublish?: { value: string } | null;
+  publishFrom?: { value: string } | null;
+  publishTo?: { value: string } | null;
+  hideVersion?: { value: string } | null;
+  validFrom?: { value: string } | null;
+  validTo?: { value: string } | null;
+}
+
+/**
+ * Shared (__Renderings) and final (__Final Renderings) layout field values of an item
+ */
+export interface PageLayoutFields {
+  renderings?: { value: string } | null;
+  finalRenderings?: { value: string } | null;
+}
+
+/**
+ * Page design or partial design item (SXA) as returned by the design items query
+ */
+export interface DesignItemResponse extends PageLayoutFields {
+  itemId: string;
+  name: string;
+  path: string;
+  /** Pipe-separated partial design IDs (page designs only) */
+  partialDesigns?: { value: string } | null;
+  /** Partial design this one inherits renderings from (partial designs only) */
+  basePartialDesign?: { value: string } | null;
+}
+
+/**
+ * A page's own Page Design field and template, and the site's template to page design mapping
+ */
+export interface PageDesignLookupResponse {
+  page?: {
+    template?: { templateId?: string } | null;
+    pageDesign?: { value: string } | null;
+  } | null;
+  pageDesigns?: {
+    templatesMapping?: { value: string } | null;
+  } | null;
+}
+
+/**
+ * Child item as returned by the authoring children query, with its layout fields
+ */
+export interface AuthoringChildItemResponse extends PageLayoutFields {
+  itemId: string;
+  name: string;
+  path: string;
+  hasChildren?: boolean;
+  template?: {
+    name: string;
+  };
 }
 
 export interface LiveItemResponse {
@@ -61,6 +287,21 @@ export interface LiveItemResponse {
   language?: {
     name: string;
   };
+  fields?: Array<{
+    name: string;
+    value: string;
+  }>;
+}
+
+/**
+ * Media item as returned by the live media query, with the result of checking its file
+ */
+export interface LiveMediaResponse {
+  id: string;
+  url?: {
+    url?: string;
+  } | null;
+  blobState?: MediaBlobState;
 }
 
 export interface GraphQLAuthoringResponse {
@@ -87,10 +328,20 @@ export interface GraphQLLiveResponse {
   }>;
 }
 
+export interface ChunkFailure {
+  endpoint: 'authoring' | 'live' | 'preview';
+  /** Item IDs of the chunk that failed */
+  itemIds: string[];
+  error: string;
+}
+
 export interface ItemQueryResult {
   data?: {
+    /** Item results keyed by normalized item ID for batched item queries, by alias otherwise */
     data?: Record<string, unknown>;
     errors?: unknown[];
   };
   error?: unknown;
+  /** Chunks that failed while the rest of the query succeeded */
+  failures?: ChunkFailure[];
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+// types/publishing.ts
+
+export type PublishItemMode = 'SMART' | 'FULL' | 'INCREMENTAL';
+
+export interface PublishOptions {
+  languages: string[];
+  targetDatabases: string[];
+  publishSubItems: boolean;
+  publishRelatedItems: boolean;
+  publishItemMode: PublishItemMode;
+}
+
+/**
+ * 'timed-out' means no final status arrived within the polling deadline;
+ * the job may still finish on the publishing service
+ */
+export type PublishJobState = 'queued' | 'running' | 'completed' | 'failed' | 'timed-out';
+
+export interface PublishJob {
+  /** Publishing operation ID returned by the authoring endpoint */
+  operationId: string;
+  /** Item IDs included in this job (root items only) */
+  itemIds: string[];
+  /** Item names for display purposes */
+  itemNames: string[];
+  options: PublishOptions;
+  state: PublishJobState;
+  /** Number of items processed so far, as reported by the publishing service */
+  processed: number;
+  startedAt: number;
+  finishedAt?: number;
+  error?: string;
+}
+
+export interface PublishItemResponse {
+  operationId: string;
+}
+
+export interface PublishingStatusResponse {
+  isDone: boolean;
+  isFailed: boolean;
+  processed: number;
+  state: string;
+}
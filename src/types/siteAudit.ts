@@ -0,0 +1,70 @@
+// types/siteAudit.ts
+import type { ChunkFailure, ItemInformationSummary, ProcessedItemInfo } from './itemInformation';
+
+/**
+ * A page found while walking the audited subtree
+ */
+export interface AuditPage {
+  id: string;
+  name: string;
+  path: string;
+}
+
+export interface SiteAuditPageResult {
+  page: AuditPage;
+  /** The page and referenced items that are outdated or not published */
+  issues: ProcessedItemInfo[];
+  /** Status counts for the page and everything it references */
+  summary: ItemInformationSummary;
+  /** Whether references beyond the configured depth were not followed */
+  referenceGraphTruncated: boolean;
+  /** Query chunks that failed while the rest of the page loaded */
+  failures: ChunkFailure[];
+  /** Set when the page could not be audited at all */
+  error?: string;
+}
+
+/**
+ * An item whose children could not be listed while walking the audited subtree
+ */
+export interface DiscoveryFailure {
+  path: string;
+  error: string;
+}
+
+export type SiteAuditPhase = 'discovering' | 'auditing';
+
+export interface SiteAuditProgress {
+  phase: SiteAuditPhase;
+  /** Pages found so far while walking the subtree */
+  pagesFound: number;
+  /** Pages whose items have been compared */
+  pagesAudited: number;
+  /** Path of the item being walked or the page being audited */
+  currentPath?: string;
+}
+
+export interface SiteAuditSummary {
+  pagesAudited: number;
+  pagesWithIssues: number;
+  pagesFailed: number;
+  /** Distinct outdated items across all pages (shared datasources count once) */
+  outdatedItems: number;
+  /** Distinct unpublished items across all pages (shared datasources count once) */
+  unpublishedItems: number;
+}
+
+export interface SiteAuditReport {
+  rootPath: string;
+  language: string;
+  startedAt: string;
+  finishedAt: string;
+  pages: SiteAuditPageResult[];
+  summary: SiteAuditSummary;
+  /** Whether the audit was cancelled before every page was audited */
+  cancelled: boolean;
+  /** Whether page discovery stopped at the page limit */
+  truncated: boolean;
+  /** Items whose children could not be listed; pages below them are missing from the report */
+  discoveryFailures: DiscoveryFailure[];
+}
@@ -0,0 +1,505 @@
+// utils/dataProcessing.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  createLanguageMatrix,
+  extractFieldReferences,
+  extractInternalLinks,
+  extractItemIdsWithLocalPaths,
+  extractPublishingRestriction,
+  formatGuidWithHyphens,
+  formatGuidWithoutHyphens,
+  getItemProvenance,
+  getLinkIssues,
+  getResultItem,
+  getSiteRootPath,
+  isInPreviewOnly,
+  markLinksOutsideSite,
+  mergeRefreshedItems,
+  processItemData
+} from './dataProcessing';
+import type { ItemQueryResult } from '../types/itemInformation';
+import {
+  FOOTER_ID,
+  HERO_ID,
+  PAGE_ID,
+  PAGE_PATH,
+  PROMO_ID,
+  homePageContext,
+  personalizedPageContext,
+  rootLevelContext,
+  siteInfoOnlyContext
+} from '../test/fixtures/pageContexts';
+import { TEXT_ID, authoringItems, liveItems, previewItems } from '../test/fixtures/graphqlResponses';
+
+const compact = formatGuidWithoutHyphens;
+
+/**
+ * Build an ID-keyed query result like getItemsFromAuthoring / getItemsFromLive return
+ */
+const resultFor = (records: Record<string, unknown>, itemIds: string[]): ItemQueryResult => ({
+  data: {
+    data: Object.fromEntries(itemIds.map(id => [compact(id), records[id] ?? null]))
+  }
+});
+
+describe('formatGuid helpers', () => {
+  it('converts between compact, braced and hyphenated GUIDs', () => {
+    expect(formatGuidWithHyphens(compact(HERO_ID))).toBe(HERO_ID);
+    expect(formatGuidWithHyphens(`{${HERO_ID.toLowerCase()}}`)).toBe(HERO_ID);
+    expect(compact(`{${HERO_ID}}`)).toBe('A1B2C3D4000140008000000000000001');
+  });
+});
+
+describe('extractItemIdsWithLocalPaths', () => {
+  it('collects the page and its GUID datasources with the page first', () => {
+    const result = extractItemIdsWithLocalPaths(homePageContext);
+
+    expect(result.itemIds).toEqual([PAGE_ID, compact(HERO_ID), compact(PROMO_ID), compact(FOOTER_ID)]);
+    expect(result.currentPagePath).toBe(PAGE_PATH);
+    expect(result.language).toBe('en');
+  });
+
+  it('splits piped datasources and skips duplicates', () => {
+    const { itemIds } = extractItemIdsWithLocalPaths(homePageContext);
+
+    expect(itemIds.filter(id => id === compact(HERO_ID))).toHaveLength(1);
+    expect(itemIds).toContain(compact(PROMO_ID));
+  });
+
+  it('returns local:/ and /sitecore/ datasources for resolution and ignores queries', () => {
+    const { localPathsToResolve } = extractItemIdsWithLocalPaths(homePageContext);
+
+    expect(localPathsToResolve).toEqual([
+      'Data/Text 1',
+      '/sitecore/content/Demo/Demo Site/Data/Shared Text'
+    ]);
+  });
+
+  it('records rendering and placeholder provenance', () => {
+    const { provenanceMap } = extractItemIdsWithLocalPaths(homePageContext);
+
+    expect(getItemProvenance(provenanceMap, HERO_ID)).toEqual([
+      { source: 'rendering-datasource', detail: 'headless-main' }
+    ]);
+    expect(getItemProvenance(provenanceMap, FOOTER_ID)).toEqual([
+      { source: 'rendering-datasource', detail: 'headless-footer' }
+    ]);
+  });
+
+  it('collects the datasources of personalization rules and A/B test variants', () => {
+    const { itemIds, localPathsToResolve, localPathUsages, provenanceMap } = extractItemIdsWithLocalPaths(personalizedPageContext);
+
+    expect(itemIds).toEqual([PAGE_ID, compact(HERO_ID), compact(PROMO_ID), compact(FOOTER_ID)]);
+    expect(getItemProvenance(provenanceMap, PROMO_ID)).toEqual([
+      {
+        source: 'rendering-datasource',
+        detail: 'headless-main',
+        variant: { kind: 'personalization', name: 'Returning visitors' }
+      },
+      { source: 'rendering-datasource', detail: 'headless-main' }
+    ]);
+    expect(getItemProvenance(provenanceMap, FOOTER_ID)).toEqual([
+      {
+        source: 'rendering-datasource',
+        detail: 'headless-footer',
+        variant: { kind: 'personalization', name: 'Mobile visitors' }
+      }
+    ]);
+    expect(localPathsToResolve).toEqual(['Data/Promo B']);
+    expect(localPathUsages?.get('Data/Promo B')).toEqual([{ variant: { kind: 'ab-test', name: 'Variant B' } }]);
+  });
+
+  it('records the layout layer of datasources from combined layouts', () => {
+    const context = {
+      pageInfo: {
+        id: PAGE_ID,
+        path: PAGE_PATH,
+        presentationDetails: {
+          devices: [{
+            id: 'FE5D7FDF-89C0-4D99-9AA3-B5FBD009C9F3',
+            renderings: [
+              { uid: '{A}', placeholderKey: 'headless-main', dataSource: `{${HERO_ID}}`, layer: 'shared' },
+              { uid: '{B}', placeholderKey: 'headless-main', dataSource: 'local:/Data/Text 1', layer: 'final' }
+            ]
+          }]
+        }
+      }
+    };
+    const { provenanceMap, localPathUsages } = extractItemIdsWithLocalPaths(context);
+
+    expect(getItemProvenance(provenanceMap, HERO_ID)).toEqual([
+      { source: 'rendering-datasource', detail: 'headless-main', layer: 'shared' }
+    ]);
+    expect(localPathUsages?.get('Data/Text 1')).toEqual([{ layer: 'final' }]);
+  });
+
+  it('accepts presentation details as an object', () => {
+    const context = {
+      pageInfo: {
+        ...homePageContext.pageInfo,
+        presentationDetails: JSON.parse(homePageContext.pageInfo.presentationDetails)
+      }
+    };
+
+    expect(extractItemIdsWithLocalPaths(context).itemIds).toContain(compact(FOOTER_ID));
+  });
+
+  it('falls back to siteInfo for the item ID and language', () => {
+    const result = extractItemIdsWithLocalPaths(siteInfoOnlyContext);
+
+    expect(result.itemIds).toEqual([PAGE_ID]);
+    expect(result.language).toBe('da');
+    expect(result.localPathsToResolve).toEqual([]);
+  });
+
+  it('falls back to an item ID at the root of the context', () => {
+    const result = extractItemIdsWithLocalPaths(rootLevelContext);
+
+    expect(result.itemIds).toEqual([PAGE_ID]);
+    expect(result.language).toBe('en');
+  });
+
+  it('reads the language from the context root when pageInfo has none', () => {
+    const context = { pageInfo: { itemId: PAGE_ID }, lang: 'de-DE' };
+
+    expect(extractItemIdsWithLocalPaths(context).language).toBe('de-DE');
+  });
+
+  it('returns nothing when no item ID can be found', () => {
+    expect(extractItemIdsWithLocalPaths({ pageInfo: { path: PAGE_PATH } }).itemIds).toEqual([]);
+    expect(extractItemIdsWithLocalPaths(null).itemIds).toEqual([]);
+  });
+
+  it('survives malformed presentation details', () => {
+    const context = { pageInfo: { id: PAGE_ID, presentationDetails: '{not json' } };
+
+    expect(extractItemIdsWithLocalPaths(context).itemIds).toEqual([PAGE_ID]);
+  });
+});
+
+describe('extractFieldReferences', () => {
+  it('distinguishes general links and rich text links from plain references', () => {
+    const references = extractFieldReferences(
+      `<link linktype="internal" id="{${HERO_ID}}" /> <a href="~/link.aspx?_id=${compact(PROMO_ID)}&amp;_z=z">x</a> {${FOOTER_ID}}`
+    );
+
+    expect(references).toEqual([
+      { id: HERO_ID, source: 'link-field' },
+      { id: PROMO_ID, source: 'link-field' },
+      { id: FOOTER_ID, source: 'field-reference' }
+    ]);
+  });
+
+  it('classifies image, file and rich text media references as media', () => {
+    const references = extractFieldReferences(
+      `<image mediaid="{${HERO_ID}}" alt="Hero" /> <file mediaid="{${PROMO_ID}}" src="-/media/x.pdf" />` +
+      `<img src="-/media/${compact(FOOTER_ID)}.ashx?h=100" />`
+    );
+
+    expect(references).toEqual([
+      { id: HERO_ID, source: 'media-field' },
+      { id: PROMO_ID, source: 'media-field' },
+      { id: FOOTER_ID, source: 'media-field' }
+    ]);
+  });
+
+  it('returns nothing for values without GUIDs', () => {
+    expect(extractFieldReferences('Just text')).toEqual([]);
+  });
+});
+
+describe('extractInternalLinks', () => {
+  it('reads General Link attributes and Rich Text link URLs', () => {
+    const links = extractInternalLinks(
+      `<link text="Read more" linktype="internal" url="/Home/Promo" id="{${PROMO_ID}}" />` +
+      `<p><a href="~/link.aspx?_id=${compact(HERO_ID)}&amp;_z=z">Hero</a></p>`
+    );
+
+    expect(links).toEqual([
+      { id: PROMO_ID, format: 'general-link', linkType: 'internal', text: 'Read more' },
+      { id: HERO_ID, format: 'rich-text' }
+    ]);
+  });
+
+  it('skips links without an item ID and classifies media links as media references', () => {
+    expect(extractInternalLinks('<link linktype="external" url="https://example.com" id="" />')).toEqual([]);
+    expect(extractFieldReferences(`<link linktype="media" id="{${HERO_ID}}" />`)).toEqual([
+      { id: HERO_ID, source: 'media-field' }
+    ]);
+  });
+});
+
+describe('getSiteRootPath', () => {
+  it('finds the site by name or falls back to the tenant and site folders', () => {
+    expect(getSiteRootPath(`${PAGE_PATH}/About`, 'Demo Site')).toBe('/sitecore/content/Demo/Demo Site');
+    expect(getSiteRootPath('/sitecore/content/Corporate/Home/About', 'Corporate')).toBe('/sitecore/content/Corporate');
+    expect(getSiteRootPath(`${PAGE_PATH}/About`)).toBe('/sitecore/content/Demo/Demo Site');
+    expect(getSiteRootPath('/sitecore/media library/Images')).toBeUndefined();
+  });
+});
+
+describe('getLinkIssues', () => {
+  const linkProvenance = [{ source: 'link-field' as const, parentId: compact(PROMO_ID), fieldName: 'Link' }];
+  const linkTarget = (path: string, overrides: Record<string, unknown> = {}) => ({
+    id: HERO_ID,
+    name: 'Target',
+    path,
+    latestVersion: 1,
+    publishedVersion: 1,
+    isPublished: true,
+    isOutdated: false,
+    versionDifference: 0,
+    itemType: 'link' as const,
+    authoringState: 'found' as const,
+    liveState: 'found' as const,
+    provenance: linkProvenance,
+    ...overrides
+  });
+
+  it('flags deleted and unpublished link targets', () => {
+    expect(getLinkIssues(linkTarget('', { authoringState: 'not-found', liveState: 'not-found' }))).toEqual(['deleted-target']);
+    expect(getLinkIssues(linkTarget(`${PAGE_PATH}/About`, { liveState: 'not-found', isPublished: false }))).toEqual(['unpublished-target']);
+    expect(getLinkIssues(linkTarget(`${PAGE_PATH}/About`))).toEqual([]);
+  });
+
+  it('flags link targets outside the site root but not other items', () => {
+    const items = markLinksOutsideSite([
+      linkTarget('/sitecore/content/Demo/Other Site/Home'),
+      linkTarget('/sitecore/content/Demo/Demo Site'),
+      linkTarget('/sitecore/content/Demo/Other Site/Data', { provenance: [] })
+    ], '/sitecore/content/Demo/Demo Site');
+
+    expect(items.map(getLinkIssues)).toEqual([['outside-site'], [], []]);
+  });
+});
+
+describe('extractPublishingRestriction', () => {
+  const now = new Date('2025-06-01T12:00:00Z');
+  const item = authoringItems[HERO_ID];
+
+  it('reports never publish as a restriction', () => {
+    expect(extractPublishingRestriction({ ...item, neverPublish: { value: '1' } }, now)?.status).toBe('restricted');
+  });
+
+  it('reports a future publish date as scheduled with the time it lifts', () => {
+    const restriction = extractPublishingRestriction({ ...item, publishFrom: { value: '20250701T080000Z' } }, now);
+
+    expect(restriction?.status).toBe('scheduled');
+    expect(restriction?.liftsAt).toBe('2025-07-01T08:00:00.000Z');
+  });
+
+  it('reports a past unpublish date as expired', () => {
+    expect(extractPublishingRestriction({ ...item, publishTo: { value: '20250101T000000Z' } }, now)?.status).toBe('expired');
+  });
+
+  it('ignores publishing windows that are currently open', () => {
+    expect(extractPublishingRestriction({
+      ...item,
+      publishFrom: { value: '20250101T000000Z' },
+      publishTo: { value: '20251231T000000Z' }
+    }, now)).toBeUndefined();
+  });
+});
+
+describe('getResultItem', () => {
+  it('distinguishes found, not found and unavailable items', () => {
+    const result = resultFor(authoringItems, [HERO_ID, FOOTER_ID]);
+    const withMissing: ItemQueryResult = { data: { data: { ...result.data!.data, [compact(PROMO_ID)]: null } } };
+
+    expect(getResultItem(withMissing, `{${HERO_ID}}`).state).toBe('found');
+    expect(getResultItem(withMissing, PROMO_ID).state).toBe('not-found');
+    expect(getResultItem(withMissing, PAGE_ID).state).toBe('unavailable');
+    expect(getResultItem({ error: new Error('Network error') }, HERO_ID).state).toBe('unavailable');
+  });
+});
+
+describe('processItemData', () => {
+  const itemIds = [PAGE_ID, HERO_ID, PROMO_ID, FOOTER_ID];
+
+  it('compares latest and published versions', () => {
+    const items = processItemData(
+      resultFor(authoringItems, itemIds),
+      resultFor(liveItems, itemIds),
+      itemIds,
+      PAGE_ID
+    );
+    const byId = Object.fromEntries(items.map(item => [item.id, item]));
+
+    expect(byId[HERO_ID]).toMatchObject({ latestVersion: 1, publishedVersion: 1, isPublished: true, isOutdated: false, versionDifference: 0 });
+    expect(byId[PROMO_ID]).toMatchObject({ latestVersion: 3, publishedVersion: 2, isPublished: true, isOutdated: true, versionDifference: 1 });
+    expect(byId[FOOTER_ID]).toMatchObject({ latestVersion: 1, publishedVersion: null, isPublished: false, isOutdated: false, versionDifference: 1 });
+  });
+
+  it('marks the current item and classifies the rest', () => {
+    const { provenanceMap } = extractItemIdsWithLocalPaths(homePageContext);
+    const items = processItemData(
+      resultFor(authoringItems, itemIds),
+      resultFor(liveItems, itemIds),
+      itemIds,
+      PAGE_ID,
+      undefined,
+      provenanceMap
+    );
+
+    expect(items.map(item => item.itemType)).toEqual(['current', 'datasource', 'datasource', 'datasource']);
+  });
+
+  it('classifies media library items as media with their file details', () => {
+    const mediaItem = {
+      ...authoringItems[HERO_ID],
+      path: '/sitecore/media library/Project/Demo/hero',
+      fields: {
+        nodes: [
+          { name: 'Blob', value: '{0F1E2D3C-4B5A-4978-8695-A4B3C2D1E0F9}' },
+          { name: 'Extension', value: 'jpg' },
+          { name: 'Size', value: '204800' }
+        ]
+      }
+    };
+    const items = processItemData(resultFor({ [HERO_ID]: mediaItem }, [HERO_ID]), resultFor({}, [HERO_ID]), [HERO_ID], PAGE_ID);
+
+    expect(items[0]).toMatchObject({
+      itemType: 'media',
+      media: { extension: 'jpg', size: 204800, hasBlob: true, blobState: 'not-published' }
+    });
+  });
+
+  it('matches results by ID regardless of order and GUID format', () => {
+    const authoring = resultFor(authoringItems, [FOOTER_ID, HERO_ID]);
+    const live = resultFor(liveItems, [HERO_ID, FOOTER_ID]);
+    const items = processItemData(authoring, live, [`{${HERO_ID.toLowerCase()}}`, compact(FOOTER_ID)]);
+
+    expect(items.map(item => item.name)).toEqual(['Home Hero', 'Footer']);
+    expect(items[0].publishedVersion).toBe(1);
+    expect(items[1].isPublished).toBe(false);
+  });
+
+  it('reports items missing from authoring and unknown live status', () => {
+    const items = processItemData(
+      resultFor({}, [HERO_ID]),
+      { error: new Error('Edge unavailable') },
+      [HERO_ID]
+    );
+
+    expect(items[0]).toMatchObject({ authoringState: 'not-found', liveState: 'unavailable', name: 'Unknown Item' });
+  });
+
+  it('compares against preview when a preview result is given', () => {
+    const ids = [PROMO_ID, FOOTER_ID, TEXT_ID];
+    const items = processItemData(
+      resultFor(authoringItems, ids),
+      resultFor(liveItems, ids),
+      ids,
+      undefined,
+      undefined,
+      undefined,
+      resultFor(previewItems, ids)
+    );
+
+    expect(items[0]).toMatchObject({ previewVersion: 3, previewState: 'found', publishedVersion: 2 });
+    expect(items[1]).toMatchObject({ previewVersion: 1, previewState: 'found', liveState: 'not-found' });
+    expect(items[2]).toMatchObject({ previewVersion: null, previewState: 'not-found' });
+    expect(items.map(isInPreviewOnly)).toEqual([false, true, false]);
+  });
+
+  it('leaves preview fields unset when preview was not queried', () => {
+    const items = processItemData(resultFor(authoringItems, [HERO_ID]), resultFor(liveItems, [HERO_ID]), [HERO_ID]);
+
+    expect(items[0].previewVersion).toBeUndefined();
+    expect(items[0].previewState).toBeUndefined();
+  });
+
+  it('attaches referenced-by information', () => {
+    const referencedByMap = new Map([[compact(HERO_ID), [{ id: compact(PROMO_ID), name: 'Spring Promo', path: '/promo' }]]]);
+    const items = processItemData(
+      resultFor(authoringItems, [HERO_ID]),
+      resultFor(liveItems, [HERO_ID]),
+      [HERO_ID],
+      undefined,
+      referencedByMap
+    );
+
+    expect(items[0].referencedBy).toEqual([{ id: compact(PROMO_ID), name: 'Spring Promo', path: '/promo' }]);
+  });
+});
+
+describe('mergeRefreshedItems', () => {
+  const itemIds = [PAGE_ID, PROMO_ID, FOOTER_ID];
+  const referencedByMap = new Map([[compact(FOOTER_ID), [{ id: compact(PROMO_ID), name: 'Spring Promo', path: '/promo' }]]]);
+  const loaded = processItemData(
+    resultFor(authoringItems, itemIds),
+    resultFor(liveItems, itemIds),
+    itemIds,
+    PAGE_ID,
+    referencedByMap
+  );
+
+  it('replaces the statuses of refreshed items and keeps how they were discovered', () => {
+    const refreshedIds = [compact(FOOTER_ID)];
+    const refreshed = processItemData(
+      resultFor(authoringItems, refreshedIds),
+      resultFor({ [compact(FOOTER_ID)]: { ...liveItems[HERO_ID], version: 1 } }, refreshedIds),
+      refreshedIds
+    );
+
+    const merged = mergeRefreshedItems(loaded, refreshed);
+
+    expect(merged.map(item => item.id)).toEqual(itemIds);
+    expect(merged[0]).toBe(loaded[0]);
+    expect(merged[2]).toMatchObject({
+      id: FOOTER_ID,
+      isPublished: true,
+      itemType: loaded[2].itemType,
+      referencedBy: [{ id: compact(PROMO_ID), name: 'Spring Promo', path: '/promo' }]
+    });
+  });
+
+  it('keeps loaded items whose authoring lookup failed and ignores items that were not loaded', () => {
+    const refreshed = processItemData(
+      { error: new Error('Service Unavailable') },
+      resultFor(liveItems, [PROMO_ID, HERO_ID]),
+      [PROMO_ID, HERO_ID]
+    );
+
+    expect(mergeRefreshedItems(loaded, refreshed)).toEqual(loaded);
+  });
+});
+
+describe('createLanguageMatrix', () => {
+  const itemIds = [PAGE_ID, PROMO_ID, FOOTER_ID];
+  const pageItems = processItemData(resultFor(authoringItems, itemIds), resultFor(liveItems, itemIds), itemIds, PAGE_ID);
+  const withVersion = (id: string, version: number) => ({ ...authoringItems[id], version });
+
+  it('shows missing language versions as empty cells and compares each language on its own', () => {
+    // German: the page is up to date, the promo is one version behind and the footer has no German version
+    const german = processItemData(
+      resultFor({ [PAGE_ID]: withVersion(PAGE_ID, 1), [PROMO_ID]: withVersion(PROMO_ID, 2), [FOOTER_ID]: withVersion(FOOTER_ID, 0) }, itemIds),
+      resultFor({ [PAGE_ID]: { ...liveItems[PAGE_ID], version: 1 }, [PROMO_ID]: { ...liveItems[PROMO_ID], version: 1 } }, itemIds),
+      itemIds,
+      PAGE_ID
+    );
+
+    const matrix = createLanguageMatrix(pageItems, { en: pageItems, 'de-DE': german });
+
+    expect(matrix.languages).toEqual(['de-DE', 'en']);
+    expect(matrix.rows.map(row => row.cells['de-DE'] && row.cells['de-DE'].isOutdated)).toEqual([false, true, null]);
+    expect(matrix.rows[1].cells['de-DE']).toMatchObject({ latestVersion: 2, publishedVersion: 1, itemType: pageItems[1].itemType });
+    expect(matrix.summary).toEqual([
+      { language: 'de-DE', itemsWithVersions: 2, missingVersions: 1, unpublishedItems: 0, outdatedItems: 1, upToDateItems: 1, unknownItems: 0 },
+      { language: 'en', itemsWithVersions: 3, missingVersions: 0, unpublishedItems: 1, outdatedItems: 1, upToDateItems: 1, unknownItems: 0 }
+    ]);
+  });
+
+  it('keeps items from failed chunks as unknown instead of missing or unpublished', () => {
+    const authoringFailed = processItemData({ error: new Error('Gateway timeout') }, resultFor(liveItems, itemIds), itemIds, PAGE_ID);
+    const liveFailed = processItemData(resultFor(authoringItems, itemIds), { error: new Error('Forbidden') }, itemIds, PAGE_ID);
+
+    const matrix = createLanguageMatrix(pageItems, { 'de-DE': authoringFailed, 'fr-FR': liveFailed });
+
+    expect(matrix.rows.every(row => row.cells['de-DE']?.authoringState === 'unavailable')).toBe(true);
+    expect(matrix.summary).toEqual([
+      { language: 'de-DE', itemsWithVersions: 3, missingVersions: 0, unpublishedItems: 0, outdatedItems: 0, upToDateItems: 0, unknownItems: 3 },
+      { language: 'fr-FR', itemsWithVersions: 3, missingVersions: 0, unpublishedItems: 0, outdatedItems: 0, upToDateItems: 0, unknownItems: 3 }
+    ]);
+  });
+});
@@ -1,4 +1,5 @@
 // utils/dataProcessing.ts
+import { extractMediaInfo, isMediaLibraryPath } from './mediaItems';
 import type { 
   ProcessedItemInfo, 
   ItemInformationResponse,
@@ -6,9 +7,28 @@ import type {
   AuthoringItemResponse,
   LiveItemResponse,
   ItemType,
-  ItemQueryResult
+  ItemQueryResult,
+  ItemProvenance,
+  LanguageGapSummary,
+  LanguageMatrixResponse,
+  ItemWorkflowInfo,
+  PublishingRestriction,
+  ItemLookupState,
+  LinkIssue,
+  LayoutLayer,
+  RenderingVariant
 } from '../types/itemInformation';
 
+/**
+ * Map of normalized item IDs to the places they were discovered
+ */
+export type ProvenanceMap = Map<string, ItemProvenance[]>;
+
+/**
+ * How a rendering uses a local datasource path, recorded in the provenance once the path is resolved
+ */
+export type LocalPathUsage = Pick<ItemProvenance, 'variant' | 'layer'>;
+
 /**
  * Normalize item ID to uppercase without braces or hyphens (for internal use)
  */
@@ -41,6 +61,41 @@ const isValidGuid = (str: string): boolean => {
   return guidRegex.test(str);
 };
 
+/**
+ * Record where an item ID was discovered, ignoring exact duplicates
+ */
+export const addItemProvenance = (
+  provenanceMap: ProvenanceMap,
+  itemId: string,
+  provenance: ItemProvenance
+): void => {
+  const key = normalizeItemId(itemId);
+  const existing = provenanceMap.get(key) || [];
+  const isDuplicate = existing.some(entry =>
+    entry.source === provenance.source &&
+    entry.parentId === provenance.parentId &&
+    entry.fieldName === provenance.fieldName &&
+    entry.detail === provenance.detail &&
+    entry.variant?.kind === provenance.variant?.kind &&
+    entry.variant?.name === provenance.variant?.name &&
+    entry.layer === provenance.layer
+  );
+
+  if (!isDuplicate) {
+    provenanceMap.set(key, [...existing, provenance]);
+  }
+};
+
+/**
+ * Get the recorded provenance for an item ID (any GUID format)
+ */
+export const getItemProvenance = (
+  provenanceMap: ProvenanceMap | undefined,
+  itemId: string
+): ItemProvenance[] | undefined => {
+  return provenanceMap?.get(normalizeItemId(itemId));
+};
+
 /**
  * Parse datasource value and extract item IDs and local paths
  * Returns object with directIds (GUIDs) and localPaths (need resolution)
@@ -74,17 +129,104 @@ const parseDatasourceValue = (datasource: string): { directIds: string[], localP
   return { directIds, localPaths };
 };
 
+type PresentationRendering = Record<string, unknown>;
+
+const readDatasource = (entry: Record<string, unknown>): string | undefined => {
+  const value = entry.dataSource ?? entry.datasource ?? entry.DataSource;
+  return typeof value === 'string' ? value : undefined;
+};
+
+const asRecords = (value: unknown): Record<string, unknown>[] =>
+  Array.isArray(value) ? value.filter(entry => entry && typeof entry === 'object') : [];
+
+/**
+ * Collect the datasources a rendering switches to for personalization rules and A/B test variants
+ * Rules come from personalization.ruleSet.rules (pages.context) or rules (layout XML); a rule's
+ * datasource is set on the rule itself or by one of its actions. Variants come from
+ * personalization.variants or variants. Entries without a datasource are skipped.
+ */
+const extractVariantDatasources = (
+  rendering: PresentationRendering
+): { variant: RenderingVariant; dataSource: string }[] => {
+  const personalization = (rendering.personalization || {}) as Record<string, unknown>;
+  const ruleSet = (personalization.ruleSet || {}) as Record<string, unknown>;
+  const variantDatasources: { variant: RenderingVariant; dataSource: string }[] = [];
+
+  asRecords(ruleSet.rules ?? rendering.rules).forEach(rule => {
+    const dataSource = readDatasource(rule) || asRecords(rule.actions).map(readDatasource).find(Boolean);
+    if (dataSource) {
+      const name = String(rule.name || rule.uniqueId || rule.uid || 'Unnamed rule');
+      variantDatasources.push({ variant: { kind: 'personalization', name }, dataSource });
+    }
+  });
+
+  asRecords(personalization.variants ?? rendering.variants).forEach(variant => {
+    const dataSource = readDatasource(variant);
+    if (dataSource) {
+      const name = String(variant.name || variant.variantName || variant.id || 'Unnamed variant');
+      variantDatasources.push({ variant: { kind: 'ab-test', name }, dataSource });
+    }
+  });
+
+  return variantDatasources;
+};
+
 /**
  * Extract all datasource item IDs from presentation details structure
- * Returns both direct GUID references and local paths that need resolution
+ * Returns both direct GUID references and local paths that need resolution, including the
+ * datasources of personalization rules and test variants; localPathUsages records which
+ * rules, variants and layout layers use each local path. Renderings from combineLayouts carry
+ * the layout layer their datasource is set in.
  */
-const extractDatasourcesFromPresentationDetails = (presentationDetails: unknown): { directIds: string[], localPaths: string[] } => {
+const extractDatasourcesFromPresentationDetails = (presentationDetails: unknown): {
+  directIds: string[],
+  localPaths: string[],
+  localPathUsages: Map<string, LocalPathUsage[]>,
+  provenanceMap: ProvenanceMap
+} => {
   const directIds: string[] = [];
   const localPaths: string[] = [];
+  const localPathUsages = new Map<string, LocalPathUsage[]>();
+  const provenanceMap: ProvenanceMap = new Map();
   
   if (!presentationDetails) {
-    return { directIds, localPaths };
+    return { directIds, localPaths, localPathUsages, provenanceMap };
   }
+
+  const addDatasource = (datasourceValue: string, placeholderKey: string | undefined, usage: LocalPathUsage) => {
+    const { directIds: renderingDirectIds, localPaths: renderingLocalPaths } = parseDatasourceValue(datasourceValue);
+
+    // Collect direct IDs
+    renderingDirectIds.forEach(id => {
+      if (!directIds.includes(id)) {
+        directIds.push(id);
+      }
+      addItemProvenance(provenanceMap, id, {
+        source: 'rendering-datasource',
+        detail: placeholderKey,
+        ...usage
+      });
+    });
+
+    // Collect local paths
+    renderingLocalPaths.forEach(path => {
+      if (!localPaths.includes(path)) {
+        localPaths.push(path);
+      }
+      localPathUsages.set(path, [...(localPathUsages.get(path) || []), usage]);
+    });
+  };
+
+  const addRendering = (rendering: PresentationRendering, placeholderKey?: string) => {
+    const layer = rendering.layer === 'shared' || rendering.layer === 'final' ? rendering.layer as LayoutLayer : undefined;
+    const datasourceValue = readDatasource(rendering);
+    if (datasourceValue) {
+      addDatasource(datasourceValue, placeholderKey, layer ? { layer } : {});
+    }
+    extractVariantDatasources(rendering).forEach(({ variant, dataSource }) => {
+      addDatasource(dataSource, placeholderKey, layer ? { variant, layer } : { variant });
+    });
+  };
   
   try {
     // Parse the presentation details (could be string or object)
@@ -96,60 +238,15 @@ const extractDatasourcesFromPresentationDetails = (presentationDetails: unknown)
     }
     
     // Navigate the presentation structure to find renderings and their datasources
-    if (details.devices && Array.isArray(details.devices)) {
-      for (const device of details.devices) {
-        if (device.renderings && Array.isArray(device.renderings)) {
-          for (const rendering of device.renderings) {
-            if (rendering.dataSource || rendering.datasource) {
-              const datasourceValue = rendering.dataSource || rendering.datasource;
-              const { directIds: renderingDirectIds, localPaths: renderingLocalPaths } = parseDatasourceValue(datasourceValue);
-              
-              // Collect direct IDs
-              renderingDirectIds.forEach(id => {
-                if (!directIds.includes(id)) {
-                  directIds.push(id);
-                }
-              });
-              
-              // Collect local paths
-              renderingLocalPaths.forEach(path => {
-                if (!localPaths.includes(path)) {
-                  localPaths.push(path);
-                }
-              });
-            }
-          }
-        }
-        
-        // Also check placeholders for nested datasources
-        if (device.placeholders && Array.isArray(device.placeholders)) {
-          for (const placeholder of device.placeholders) {
-            // Recursively process placeholder renderings
-            if (placeholder.renderings && Array.isArray(placeholder.renderings)) {
-              for (const rendering of placeholder.renderings) {
-                if (rendering.dataSource || rendering.datasource) {
-                  const datasourceValue = rendering.dataSource || rendering.datasource;
-                  console.log(`📄 Found placeholder rendering datasource: "${datasourceValue}"`);
-                  
-                  const { directIds: placeholderDirectIds, localPaths: placeholderLocalPaths } = parseDatasourceValue(datasourceValue);
-                  
-                  // Collect direct IDs
-                  placeholderDirectIds.forEach(id => {
-                    if (!directIds.includes(id)) {
-                      directIds.push(id);
-                    }
-                  });
-                  
-                  // Collect local paths
-                  placeholderLocalPaths.forEach(path => {
-                    if (!localPaths.includes(path)) {
-                      localPaths.push(path);
-                    }
-                  });
-                }
-              }
-            }
-          }
+    for (const device of asRecords(details.devices)) {
+      for (const rendering of asRecords(device.renderings)) {
+        addRendering(rendering, (rendering.placeholderKey || rendering.placeholder) as string | undefined);
+      }
+
+      // Also check placeholders for nested datasources
+      for (const placeholder of asRecords(device.placeholders)) {
+        for (const rendering of asRecords(placeholder.renderings)) {
+          addRendering(rendering, (placeholder.key || placeholder.placeholderKey) as string | undefined);
         }
       }
     }
@@ -157,7 +254,7 @@ const extractDatasourcesFromPresentationDetails = (presentationDetails: unknown)
     console.warn('Error parsing presentation details:', error);
   }
   
-  return { directIds, localPaths };
+  return { directIds, localPaths, localPathUsages, provenanceMap };
 };
 
 /**
@@ -168,6 +265,9 @@ export interface ExtractedItemInfo {
   localPathsToResolve: string[];
   currentPagePath: string;
   language: string;
+  provenanceMap: ProvenanceMap;
+  /** Rules, variants and layout layers using each local path, one entry per use */
+  localPathUsages?: Map<string, LocalPathUsage[]>;
 }
 
 /**
@@ -183,7 +283,7 @@ export const extractItemIds = (pageContext: unknown): string[] => {
  */
 export const extractItemIdsWithLocalPaths = (pageContext: unknown): ExtractedItemInfo => {
   if (!pageContext || typeof pageContext !== 'object') {
-    return { itemIds: [], localPathsToResolve: [], currentPagePath: '', language: 'en' };
+    return { itemIds: [], localPathsToResolve: [], currentPagePath: '', language: 'en', provenanceMap: new Map() };
   }
 
   const context = pageContext as Record<string, unknown>;
@@ -191,6 +291,7 @@ export const extractItemIdsWithLocalPaths = (pageContext: unknown): ExtractedIte
   let currentItemId: string | null = null;
   let currentPagePath = '';
   let language = 'en'; // Default fallback
+  let provenanceMap: ProvenanceMap = new Map();
 
   // Check pageInfo for current item
   if (context.pageInfo && typeof context.pageInfo === 'object') {
@@ -214,7 +315,9 @@ export const extractItemIdsWithLocalPaths = (pageContext: unknown): ExtractedIte
     
     // Extract datasources from presentation details
     if (pageInfo.presentationDetails) {
-      const { directIds, localPaths } = extractDatasourcesFromPresentationDetails(pageInfo.presentationDetails);
+      const extracted = extractDatasourcesFromPresentationDetails(pageInfo.presentationDetails);
+      const { directIds, localPaths, localPathUsages } = extracted;
+      provenanceMap = extracted.provenanceMap;
       
       // Add direct GUID datasources
       directIds.forEach(id => {
@@ -237,7 +340,9 @@ export const extractItemIdsWithLocalPaths = (pageContext: unknown): ExtractedIte
           itemIds, 
           localPathsToResolve: localPaths, 
           currentPagePath,
-          language
+          language,
+          provenanceMap,
+          localPathUsages
         };
       }
     }
@@ -268,56 +373,196 @@ export const extractItemIdsWithLocalPaths = (pageContext: unknown): ExtractedIte
       itemIds.unshift(cleanCurrentId); // Add at beginning
     }
   } else {
-    return { itemIds: [], localPathsToResolve: [], currentPagePath: '', language: 'en' };
+    return { itemIds: [], localPathsToResolve: [], currentPagePath: '', language: 'en', provenanceMap: new Map() };
   }
 
-  return { itemIds, localPathsToResolve: [], currentPagePath, language };
+  return { itemIds, localPathsToResolve: [], currentPagePath, language, provenanceMap };
 };
 
 /**
  * Determine item type based on context and relationships
+ * Datasource provenance wins over media, media over links, and links over plain field references.
+ * Items in the media library are media however they were referenced.
  */
-export const determineItemType = (itemId: string, currentItemId?: string): ItemType => {
-  if (itemId === currentItemId) {
+export const determineItemType = (
+  itemId: string,
+  currentItemId?: string,
+  provenance?: ItemProvenance[],
+  path?: string
+): ItemType => {
+  if (currentItemId && normalizeItemId(itemId) === normalizeItemId(currentItemId)) {
     return 'current';
   }
-  
-  // TODO: Implement logic to determine if item is datasource, link, or reference
-  // This would require analyzing the item's relationship to the current item
-  
-  // Placeholder logic
+
+  if (provenance?.some(entry =>
+    entry.source === 'rendering-datasource' ||
+    entry.source === 'local-datasource' ||
+    entry.source === 'partial-design-datasource'
+  )) {
+    return 'datasource';
+  }
+
+  if (isMediaLibraryPath(path) || provenance?.some(entry => entry.source === 'media-field')) {
+    return 'media';
+  }
+
+  if (!provenance || provenance.length === 0) {
+    return 'reference';
+  }
+
+  if (provenance.some(entry => entry.source === 'link-field')) {
+    return 'link';
+  }
+
   return 'reference';
 };
 
+/**
+ * Extract the workflow state of the latest version from an authoring item
+ */
+export const extractWorkflowInfo = (authoringItem?: AuthoringItemResponse): ItemWorkflowInfo | undefined => {
+  const workflowState = authoringItem?.workflow?.workflowState;
+  if (!workflowState) {
+    return undefined;
+  }
+
+  return {
+    workflowName: authoringItem?.workflow?.workflow?.displayName || 'Unknown Workflow',
+    stateName: workflowState.displayName,
+    isFinal: workflowState.final
+  };
+};
+
+/**
+ * Parse a Sitecore ISO date field value (e.g. 20240115T083000Z) into a Date
+ * Returns null for empty or unparseable values
+ */
+export const parseSitecoreDate = (value?: string | null): Date | null => {
+  if (!value) {
+    return null;
+  }
+
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+};
+
+/**
+ * Determine the publishing restriction that applies to the latest version of an item
+ * Restrictions win over expired windows, and expired windows over scheduled ones.
+ */
+export const extractPublishingRestriction = (
+  authoringItem?: AuthoringItemResponse,
+  now: Date = new Date()
+): PublishingRestriction | undefined => {
+  if (!authoringItem) {
+    return undefined;
+  }
+
+  if (authoringItem.neverPublish?.value === '1') {
+    return { status: 'restricted', level: 'item', reason: 'The item is set to never publish' };
+  }
+
+  if (authoringItem.hideVersion?.value === '1') {
+    return { status: 'restricted', level: 'version', reason: 'The latest version is hidden and cannot be published' };
+  }
+
+  const publishTo = parseSitecoreDate(authoringItem.publishTo?.value);
+  if (publishTo && publishTo <= now) {
+    return { status: 'expired', level: 'item', reason: `The item was publishable until ${publishTo.toLocaleString()}` };
+  }
+
+  const validTo = parseSitecoreDate(authoringItem.validTo?.value);
+  if (validTo && validTo <= now) {
+    return { status: 'expired', level: 'version', reason: `The latest version was publishable until ${validTo.toLocaleString()}` };
+  }
+
+  const publishFrom = parseSitecoreDate(authoringItem.publishFrom?.value);
+  if (publishFrom && publishFrom > now) {
+    return {
+      status: 'scheduled',
+      level: 'item',
+      reason: `The item is publishable from ${publishFrom.toLocaleString()}`,
+      liftsAt: publishFrom.toISOString()
+    };
+  }
+
+  const validFrom = parseSitecoreDate(authoringItem.validFrom?.value);
+  if (validFrom && validFrom > now) {
+    return {
+      status: 'scheduled',
+      level: 'version',
+      reason: `The latest version is publishable from ${validFrom.toLocaleString()}`,
+      liftsAt: validFrom.toISOString()
+    };
+  }
+
+  return undefined;
+};
+
+/**
+ * Look up an item in an ID-keyed query result (as returned by getItemsFromAuthoring and getItemsFromLive)
+ * Distinguishes items that were not found from items whose query failed
+ */
+export const getResultItem = <T>(
+  result: ItemQueryResult,
+  itemId: string
+): { state: ItemLookupState; item?: T } => {
+  const data = result.error ? null : result.data?.data;
+  const key = normalizeItemId(itemId);
+
+  if (!data || !(key in data)) {
+    return { state: 'unavailable' };
+  }
+
+  const item = data[key] as T | null;
+  return item ? { state: 'found', item } : { state: 'not-found' };
+};
+
 /**
  * Process raw GraphQL responses into ProcessedItemInfo objects
+ * Results are matched to items by normalized item ID
+ * Pass previewResult to also compare against the preview endpoint (previewVersion / previewState)
  */
 export const processItemData = (
   authoringResult: ItemQueryResult,
   liveResult: ItemQueryResult,
   itemIds: string[],
   currentItemId?: string,
-  referencedByMap?: Map<string, Array<{ id: string; name: string; path: string }>>
+  referencedByMap?: Map<string, Array<{ id: string; name: string; path: string }>>,
+  provenanceMap?: ProvenanceMap,
+  previewResult?: ItemQueryResult
 ): ProcessedItemInfo[] => {
   const processedItems: ProcessedItemInfo[] = [];
 
   // Validate both responses
   const authoringValidation = validateResponse(authoringResult);
   const liveValidation = validateResponse(liveResult);
+  if (!authoringValidation.isValid) {
+    console.warn('Authoring response issues:', authoringValidation.errors);
+  }
+  if (!liveValidation.isValid) {
+    console.warn('Live response issues:', liveValidation.errors);
+  }
 
-  itemIds.forEach((itemId, index) => {
-    const authoringItem = authoringValidation.data?.[`item${index}`] as AuthoringItemResponse | undefined;
-    const liveItem = liveValidation.data?.[`item${index}`] as LiveItemResponse | undefined;
+  itemIds.forEach((itemId) => {
+    const { state: authoringState, item: authoringItem } = getResultItem<AuthoringItemResponse>(authoringResult, itemId);
+    const { state: liveState, item: liveItem } = getResultItem<LiveItemResponse>(liveResult, itemId);
+    const preview = previewResult ? getResultItem<LiveItemResponse>(previewResult, itemId) : undefined;
 
     const latestVersion = authoringItem?.version || 0;
     const publishedVersion = liveItem?.version || null;
     const isPublished = publishedVersion !== null;
     const isOutdated = isPublished && publishedVersion < latestVersion;
 
-    // Try to find referenced by info - try both with and without hyphens
-    const referencedBy = referencedByMap?.get(itemId) || 
-                        referencedByMap?.get(formatGuidWithHyphens(itemId));
-    
+    const referencedBy = referencedByMap?.get(normalizeItemId(itemId));
+    const provenance = getItemProvenance(provenanceMap, itemId);
+    const workflow = extractWorkflowInfo(authoringItem);
+    const needsPublishing = !isPublished || isOutdated;
 
     processedItems.push({
       id: itemId,
@@ -325,12 +570,21 @@ export const processItemData = (
       path: authoringItem?.path || '',
       latestVersion,
       publishedVersion,
+      previewVersion: preview ? preview.item?.version || null : undefined,
       isPublished,
       isOutdated,
       versionDifference: isPublished ? latestVersion - publishedVersion : latestVersion,
-      itemType: determineItemType(itemId, currentItemId),
+      itemType: determineItemType(itemId, currentItemId, provenance, authoringItem?.path),
+      authoringState,
+      liveState,
+      previewState: preview?.state,
       template: authoringItem?.template?.name,
       language: authoringItem?.language?.name || liveItem?.language?.name || 'en',
+      provenance,
+      workflow,
+      isBlockedByWorkflow: needsPublishing && !!workflow && !workflow.isFinal,
+      restriction: extractPublishingRestriction(authoringItem),
+      media: extractMediaInfo(authoringItem, liveState),
       referencedBy
     });
   });
@@ -338,15 +592,133 @@ export const processItemData = (
   return processedItems;
 };
 
+/**
+ * Merge re-queried items into the loaded list, keeping order and how each item was discovered
+ * itemType, provenance, referencedBy and isOutsideSite come from the page graph, so they are kept from the loaded item.
+ * Items whose authoring lookup failed keep their loaded values; refreshed items that were not loaded are ignored.
+ */
+export const mergeRefreshedItems = (
+  items: ProcessedItemInfo[],
+  refreshedItems: ProcessedItemInfo[]
+): ProcessedItemInfo[] => {
+  const refreshedById = new Map(refreshedItems.map(item => [normalizeItemId(item.id), item]));
+
+  return items.map(item => {
+    const refreshed = refreshedById.get(normalizeItemId(item.id));
+    if (!refreshed || refreshed.authoringState === 'unavailable') {
+      return item;
+    }
+
+    return {
+      ...refreshed,
+      id: item.id,
+      itemType: item.itemType,
+      provenance: item.provenance,
+      referencedBy: item.referencedBy,
+      isOutsideSite: item.isOutsideSite
+    };
+  });
+};
+
+/**
+ * Derive the root path of the site a page belongs to
+ * Uses the path segment named after the site when the site name is known, otherwise the
+ * /sitecore/content/<tenant>/<site> layout of headless sites
+ * @returns undefined for paths outside /sitecore/content
+ */
+export const getSiteRootPath = (pagePath: string, siteName?: string): string | undefined => {
+  const segments = pagePath.split('/');
+  if (segments[1]?.toLowerCase() !== 'sitecore' || segments[2]?.toLowerCase() !== 'content') {
+    return undefined;
+  }
+
+  const siteIndex = siteName
+    ? segments.findIndex((segment, index) => index > 2 && segment.toLowerCase() === siteName.toLowerCase())
+    : -1;
+  if (siteIndex > 0) {
+    return segments.slice(0, siteIndex + 1).join('/');
+  }
+  return segments.length >= 5 ? segments.slice(0, 5).join('/') : undefined;
+};
+
+/**
+ * Whether an item is only on the page through its page design: a page design, partial design
+ * or partial design datasource that the page's own layout does not use
+ */
+export const isFromPageDesign = (item: ProcessedItemInfo): boolean =>
+  !!item.provenance?.some(entry => entry.source === 'page-design' || entry.source === 'partial-design-datasource') &&
+  !item.provenance.some(entry => entry.source === 'rendering-datasource' || entry.source === 'local-datasource');
+
+/**
+ * Whether an item was found through a General Link or Rich Text link
+ */
+export const isLinkTarget = (item: ProcessedItemInfo): boolean =>
+  !!item.provenance?.some(entry => entry.source === 'link-field');
+
+/**
+ * Flag link targets that lie outside the site root; content outside /sitecore/content is not flagged
+ */
+export const markLinksOutsideSite = (items: ProcessedItemInfo[], siteRootPath?: string): ProcessedItemInfo[] => {
+  if (!siteRootPath) {
+    return items;
+  }
+
+  const siteRoot = siteRootPath.toLowerCase();
+  return items.map(item => {
+    const path = item.path.toLowerCase();
+    if (!isLinkTarget(item) || !path.startsWith('/sitecore/content/')) {
+      return item;
+    }
+    return { ...item, isOutsideSite: path !== siteRoot && !path.startsWith(`${siteRoot}/`) };
+  });
+};
+
+/**
+ * Problems with the links that point to an item; empty for items that are not link targets
+ */
+export const getLinkIssues = (item: ProcessedItemInfo): LinkIssue[] => {
+  if (!isLinkTarget(item)) {
+    return [];
+  }
+
+  const issues: LinkIssue[] = [];
+  if (item.authoringState === 'not-found') {
+    issues.push('deleted-target');
+  } else if (item.liveState === 'not-found') {
+    issues.push('unpublished-target');
+  }
+  if (item.isOutsideSite) {
+    issues.push('outside-site');
+  }
+  return issues;
+};
+
+/**
+ * Whether the item is served by the preview endpoint but has not been published to live
+ */
+export const isInPreviewOnly = (item: ProcessedItemInfo): boolean => {
+  return item.previewState === 'found' && item.liveState === 'not-found';
+};
+
+/**
+ * Whether the authoring or live lookup of an item failed, so its publishing status is unknown
+ */
+export const isStatusUnknown = (item: ProcessedItemInfo): boolean =>
+  item.authoringState === 'unavailable' || item.liveState === 'unavailable';
+
 /**
  * Generate summary statistics from processed item data
+ * Items with an unknown status are counted separately, not as published or unpublished
  */
 export const generateSummary = (items: ProcessedItemInfo[]): ItemInformationSummary => {
+  const knownItems = items.filter(item => !isStatusUnknown(item));
   return {
     totalItems: items.length,
-    publishedItems: items.filter(item => item.isPublished).length,
-    unpublishedItems: items.filter(item => !item.isPublished).length,
-    outdatedItems: items.filter(item => item.isOutdated).length
+    publishedItems: knownItems.filter(item => item.isPublished).length,
+    unpublishedItems: knownItems.filter(item => !item.isPublished).length,
+    outdatedItems: knownItems.filter(item => item.isOutdated).length,
+    previewOnlyItems: items.filter(isInPreviewOnly).length,
+    unknownItems: items.length - knownItems.length
   };
 };
 
@@ -380,6 +752,50 @@ export const createItemInformationResponse = (
   };
 };
 
+/**
+ * Build an items × languages matrix from per-language processed items
+ * @param items - Items as discovered in the page language (defines row order and item type)
+ * @param itemsByLanguage - Processed items for each language, as returned by processItemData
+ */
+export const createLanguageMatrix = (
+  items: ProcessedItemInfo[],
+  itemsByLanguage: Record<string, ProcessedItemInfo[]>
+): LanguageMatrixResponse => {
+  const languages = Object.keys(itemsByLanguage).sort();
+
+  const rows = items.map(item => {
+    const cells: Record<string, ProcessedItemInfo | null> = {};
+    languages.forEach(language => {
+      const languageItem = itemsByLanguage[language].find(
+        candidate => normalizeItemId(candidate.id) === normalizeItemId(item.id)
+      );
+      // An item without a version in this language comes back with version 0; items whose
+      // lookup failed are kept so they show as unknown rather than as missing
+      cells[language] = languageItem && (languageItem.latestVersion > 0 || isStatusUnknown(languageItem))
+        ? { ...languageItem, itemType: item.itemType, provenance: item.provenance, referencedBy: item.referencedBy }
+        : null;
+    });
+    return { item, cells };
+  });
+
+  const summary: LanguageGapSummary[] = languages.map(language => {
+    const cells = rows.map(row => row.cells[language]);
+    const present = cells.filter((cell): cell is ProcessedItemInfo => cell !== null);
+    const known = present.filter(cell => !isStatusUnknown(cell));
+    return {
+      language,
+      itemsWithVersions: present.length,
+      missingVersions: cells.length - present.length,
+      unpublishedItems: known.filter(cell => !cell.isPublished).length,
+      outdatedItems: known.filter(cell => cell.isOutdated).length,
+      upToDateItems: known.filter(cell => cell.isPublished && !cell.isOutdated).length,
+      unknownItems: present.length - known.length
+    };
+  });
+
+  return { languages, rows, summary };
+};
+
 /**
  * Helper function to validate GraphQL response structure
  */
@@ -417,6 +833,116 @@ const validateResponse = (response: ItemQueryResult): {
   };
 };
 
+/**
+ * A GUID found in a field value, classified by the field format it appeared in
+ */
+export interface FieldReference {
+  id: string;
+  source: 'link-field' | 'media-field' | 'field-reference';
+}
+
+const GUID_PATTERN = /\{?[0-9A-Fa-f]{8}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{12}\}?/g;
+// General Link fields: <link linktype="internal" id="{GUID}" ... />
+const GENERAL_LINK_PATTERN = /<link\b[^>]*>/gi;
+// Rich Text dynamic links: ~/link.aspx?_id=GUID (usually without hyphens)
+const RICH_TEXT_LINK_PATTERN = /~\/link\.aspx\?_id=([0-9A-Fa-f]{32}|[0-9A-Fa-f-]{36})/gi;
+// Image and File fields: <image mediaid="{GUID}" ... />, <file mediaid="{GUID}" ... />
+const MEDIA_FIELD_PATTERN = /<(?:image|file)\b[^>]*\bmediaid="([^"]+)"/gi;
+// Rich Text media links: -/media/GUID.ashx or ~/media/GUID.ashx (usually without hyphens)
+const RICH_TEXT_MEDIA_PATTERN = /[-~]\/media\/([0-9A-Fa-f]{32}|[0-9A-Fa-f-]{36})\.ashx/gi;
+
+/**
+ * An internal link found in a General Link or Rich Text field value
+ */
+export interface InternalLink {
+  /** Target item ID, uppercase with hyphens */
+  id: string;
+  format: 'general-link' | 'rich-text';
+  /** Link type of a General Link; "media" links point to media items */
+  linkType?: string;
+  /** Link text of a General Link */
+  text?: string;
+}
+
+/**
+ * Extract the links to items from a General Link or Rich Text field value
+ * General Links are read from their linktype, id and text attributes; Rich Text links from
+ * ~/link.aspx?_id= URLs. External, mailto and anchor links have no item ID and are skipped.
+ */
+export const extractInternalLinks = (fieldValue: string): InternalLink[] => {
+  const links: InternalLink[] = [];
+
+  if (!fieldValue || typeof fieldValue !== 'string') {
+    return links;
+  }
+
+  for (const match of fieldValue.matchAll(GENERAL_LINK_PATTERN)) {
+    const attributes = Object.fromEntries(
+      Array.from(match[0].matchAll(/([\w-]+)="([^"]*)"/g), ([, name, value]) => [name.toLowerCase(), value])
+    );
+    if (attributes.id && isValidGuid(attributes.id)) {
+      links.push({
+        id: formatGuidWithHyphens(attributes.id),
+        format: 'general-link',
+        linkType: attributes.linktype?.toLowerCase() || undefined,
+        text: attributes.text || undefined
+      });
+    }
+  }
+
+  for (const match of fieldValue.matchAll(RICH_TEXT_LINK_PATTERN)) {
+    const formatted = formatGuidWithHyphens(match[1]);
+    if (isValidGuid(formatted)) {
+      links.push({ id: formatted, format: 'rich-text' });
+    }
+  }
+
+  return links;
+};
+
+/**
+ * Extract referenced item IDs from a field value
+ * IDs inside Image, File or Rich Text media markup are classified as media, IDs inside General Link
+ * or Rich Text link markup as links, and any other GUID (multilist, droplink, ...) as a plain field
+ * reference. Returned IDs are uppercase with hyphens.
+ */
+export const extractFieldReferences = (fieldValue: string): FieldReference[] => {
+  const references: FieldReference[] = [];
+
+  if (!fieldValue || typeof fieldValue !== 'string') {
+    return references;
+  }
+
+  const links = extractInternalLinks(fieldValue);
+
+  const mediaIds = new Set<string>(links.filter(link => link.linkType === 'media').map(link => link.id));
+  for (const match of fieldValue.matchAll(MEDIA_FIELD_PATTERN)) {
+    if (isValidGuid(match[1])) {
+      mediaIds.add(formatGuidWithHyphens(match[1]));
+    }
+  }
+  for (const match of fieldValue.matchAll(RICH_TEXT_MEDIA_PATTERN)) {
+    const formatted = formatGuidWithHyphens(match[1]);
+    if (isValidGuid(formatted)) {
+      mediaIds.add(formatted);
+    }
+  }
+
+  mediaIds.forEach(id => references.push({ id, source: 'media-field' }));
+
+  const linkIds = new Set(links.map(link => link.id).filter(id => !mediaIds.has(id)));
+  linkIds.forEach(id => references.push({ id, source: 'link-field' }));
+
+  for (const match of fieldValue.match(GUID_PATTERN) || []) {
+    const id = formatGuidWithHyphens(match);
+    if (!references.some(reference => reference.id === id)) {
+      references.push({ id, source: 'field-reference' });
+    }
+  }
+
+  return references;
+};
+
 /**
  * Extract datasource references from item fields
  * This would analyze the item's fields to find references to other items
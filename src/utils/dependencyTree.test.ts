@@ -0,0 +1,123 @@
+// utils/dependencyTree.test.ts
+import { describe, expect, it } from 'vitest';
+import { buildDependencyTree, getExpandableKeys } from './dependencyTree';
+import type { DependencyTreeNode, ProcessedItemInfo } from '../types/itemInformation';
+
+const item = (id: string, name: string, overrides: Partial<ProcessedItemInfo> = {}): ProcessedItemInfo => ({
+  id,
+  name,
+  path: `/sitecore/content/Site/Home/Data/${name}`,
+  latestVersion: 1,
+  publishedVersion: 1,
+  isPublished: true,
+  isOutdated: false,
+  versionDifference: 0,
+  itemType: 'reference',
+  ...overrides
+});
+
+const ref = (entry: ProcessedItemInfo) => ({ id: entry.id, name: entry.name, path: entry.path });
+
+const datasource = (id: string, name: string, placeholder?: string, overrides: Partial<ProcessedItemInfo> = {}) =>
+  item(id, name, { itemType: 'datasource', provenance: [{ source: 'rendering-datasource', detail: placeholder }], ...overrides });
+
+/**
+ * Node labels as an outline, e.g. ['Home', '  headless-main', '    Hero']
+ */
+const outline = (node: DependencyTreeNode, depth = 0): string[] => {
+  const flags = [node.isCycle && 'cycle', node.isRepeat && 'repeat'].filter(Boolean);
+  const label = `${'  '.repeat(depth)}${node.item?.name ?? node.label}${flags.length > 0 ? ` (${flags.join(', ')})` : ''}`;
+  return [label, ...node.children.flatMap(child => outline(child, depth + 1))];
+};
+
+const page = item('00000000000040008000000000000000', 'Home', { itemType: 'current', path: '/sitecore/content/Site/Home' });
+
+describe('buildDependencyTree', () => {
+  it('groups datasources by placeholder and nests the items they reference', () => {
+    const hero = datasource('11111111111141118111111111111111', 'Hero', 'headless-main');
+    const promo = datasource('22222222222242228222222222222222', 'Promo', 'headless-main');
+    const footer = datasource('33333333333343338333333333333333', 'Footer', 'headless-footer');
+    const card = item('44444444444444448444444444444444', 'Card', { referencedBy: [ref(promo)] });
+    const tag = item('55555555555545558555555555555555', 'Tag', { referencedBy: [ref(page)] });
+
+    const tree = buildDependencyTree(page, [hero, promo, footer, card, tag]);
+
+    expect(outline(tree)).toEqual([
+      'Home',
+      '  headless-main',
+      '    Hero',
+      '    Promo',
+      '      Card',
+      '  headless-footer',
+      '    Footer',
+      '  Tag'
+    ]);
+    expect(getExpandableKeys(tree)).toHaveLength(4);
+  });
+
+  it('groups page design items under "From page design"', () => {
+    const design = item('66666666666646668666666666666666', 'Default', { provenance: [{ source: 'page-design', detail: 'Default' }] });
+    const header = item('77777777777747778777777777777777', 'Header', {
+      provenance: [{ source: 'page-design', detail: 'Header' }],
+      referencedBy: [ref(design)]
+    });
+    const logo = item('88888888888848888888888888888888', 'Logo', {
+      provenance: [{ source: 'partial-design-datasource', parentId: header.id, detail: 'Header' }],
+      referencedBy: [ref(header)]
+    });
+
+    const tree = buildDependencyTree(page, [design, header, logo]);
+
+    expect(outline(tree)).toEqual(['Home', '  From page design', '    Default', '      Header', '        Logo']);
+  });
+
+  it('marks items that reference one of their ancestors as cycles', () => {
+    const promo = datasource('22222222222242228222222222222222', 'Promo', 'headless-main');
+    const card = item('44444444444444448444444444444444', 'Card', { referencedBy: [ref(promo)] });
+    promo.referencedBy = [ref(card)];
+
+    const tree = buildDependencyTree(page, [promo, card]);
+
+    expect(outline(tree)).toEqual(['Home', '  headless-main', '    Promo', '      Card', '        Promo (cycle)']);
+  });
+
+  it('expands shared items once and shows them as leaves elsewhere', () => {
+    const hero = datasource('11111111111141118111111111111111', 'Hero', 'headless-main');
+    const promo = datasource('22222222222242228222222222222222', 'Promo', 'headless-main');
+    const card = item('44444444444444448444444444444444', 'Card', { referencedBy: [ref(hero), ref(promo)] });
+    const image = item('99999999999949998999999999999999', 'Image', { referencedBy: [ref(card)] });
+
+    const tree = buildDependencyTree(page, [hero, promo, card, image]);
+
+    expect(outline(tree)).toEqual([
+      'Home',
+      '  headless-main',
+      '    Hero',
+      '      Card',
+      '        Image',
+      '    Promo',
+      '      Card (repeat)'
+    ]);
+  });
+
+  it('builds each shared subtree once on densely shared graphs', () => {
+    // 25 levels of two items that both reference both items above them: 2^25 paths to the bottom
+    const levels: ProcessedItemInfo[][] = [[
+      datasource('a0000000000040008000000000000000', 'L0', 'headless-main'),
+      datasource('b0000000000040008000000000000000', 'R0', 'headless-main')
+    ]];
+    for (let level = 1; level < 25; level++) {
+      const suffix = String(level).padStart(2, '0');
+      levels.push(['a', 'b'].map(prefix => item(
+        `${prefix}${suffix}00000000040008000000000000000`,
+        `${prefix === 'a' ? 'L' : 'R'}${level}`,
+        { referencedBy: levels[level - 1].map(ref) }
+      )));
+    }
+
+    const nodes = outline(buildDependencyTree(page, levels.flat()));
+
+    expect(nodes.filter(line => !line.endsWith('(repeat)'))).toHaveLength(2 + 50);
+    expect(nodes).toHaveLength(2 + 50 + 48);
+  });
+});
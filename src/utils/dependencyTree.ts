@@ -0,0 +1,137 @@
+// utils/dependencyTree.ts
+import type { DependencyTreeNode, ProcessedItemInfo } from '../types/itemInformation';
+import { formatGuidWithoutHyphens, isFromPageDesign } from './dataProcessing';
+
+const isDatasource = (item: ProcessedItemInfo): boolean =>
+  !!item.provenance?.some(entry => entry.source === 'rendering-datasource' || entry.source === 'local-datasource');
+
+/**
+ * Index the listed items by the normalized IDs of the items that reference them
+ */
+const indexChildren = (items: ProcessedItemInfo[]): Map<string, ProcessedItemInfo[]> => {
+  const childrenByParent = new Map<string, ProcessedItemInfo[]>();
+  items.forEach(item => {
+    new Set(item.referencedBy?.map(ref => formatGuidWithoutHyphens(ref.id))).forEach(parentId => {
+      childrenByParent.set(parentId, [...(childrenByParent.get(parentId) || []), item]);
+    });
+  });
+  return childrenByParent;
+};
+
+interface TreeBuildState {
+  childrenByParent: Map<string, ProcessedItemInfo[]>;
+  /** IDs of the items on the path from the root to the node being built */
+  ancestors: Set<string>;
+  /** IDs of the items already expanded somewhere in the tree */
+  expanded: Set<string>;
+}
+
+/**
+ * Build the node of an item; each item is expanded only where it is first reached
+ * and shown as a leaf everywhere else, so shared subtrees are built once
+ */
+const buildNode = (item: ProcessedItemInfo, parentKey: string, state: TreeBuildState): DependencyTreeNode => {
+  const id = formatGuidWithoutHyphens(item.id);
+  const key = `${parentKey}/${id}`;
+
+  // Stop at cycles; the item is shown but not expanded again
+  if (state.ancestors.has(id)) {
+    return { key, item, children: [], isCycle: true };
+  }
+  if (state.expanded.has(id)) {
+    return { key, item, children: [], isRepeat: true };
+  }
+
+  state.expanded.add(id);
+  state.ancestors.add(id);
+  const children = (state.childrenByParent.get(id) || []).map(child => buildNode(child, key, state));
+  state.ancestors.delete(id);
+
+  return { key, item, children };
+};
+
+/**
+ * Build a page → placeholder → datasource → nested reference tree
+ * Datasources are grouped by the placeholder they were found in; items that are neither
+ * datasources nor referenced by another listed item are attached directly to the page.
+ * Items only on the page through its page design are grouped under "From page design".
+ */
+export const buildDependencyTree = (
+  currentItem: ProcessedItemInfo,
+  referencedItems: ProcessedItemInfo[]
+): DependencyTreeNode => {
+  const allItems = [currentItem, ...referencedItems];
+  const rootId = formatGuidWithoutHyphens(currentItem.id);
+  const rootKey = rootId;
+  const listedIds = new Set(allItems.map(item => formatGuidWithoutHyphens(item.id)));
+  const state: TreeBuildState = {
+    childrenByParent: indexChildren(allItems),
+    ancestors: new Set([rootId]),
+    expanded: new Set([rootId])
+  };
+
+  const placeholderGroups = new Map<string, ProcessedItemInfo[]>();
+  const directChildren: ProcessedItemInfo[] = [];
+  const designItems = referencedItems.filter(isFromPageDesign);
+  const designIds = new Set(designItems.map(item => formatGuidWithoutHyphens(item.id)));
+
+  referencedItems.filter(item => !designIds.has(formatGuidWithoutHyphens(item.id))).forEach(item => {
+    if (isDatasource(item)) {
+      const placeholder = item.provenance?.find(entry => entry.source === 'rendering-datasource' && entry.detail)?.detail;
+      if (placeholder) {
+        placeholderGroups.set(placeholder, [...(placeholderGroups.get(placeholder) || []), item]);
+      } else {
+        directChildren.push(item);
+      }
+      return;
+    }
+
+    const hasListedParent = item.referencedBy?.some(ref => listedIds.has(formatGuidWithoutHyphens(ref.id)));
+    if (!hasListedParent) {
+      directChildren.push(item);
+    }
+  });
+
+  // Nodes are built in display order, so an item shared by several branches is expanded in the topmost one
+  const placeholderNodes: DependencyTreeNode[] = Array.from(placeholderGroups.entries()).map(([placeholder, groupItems]) => {
+    const groupKey = `${rootKey}/placeholder:${placeholder}`;
+    return {
+      key: groupKey,
+      label: placeholder,
+      children: groupItems.map(item => buildNode(item, groupKey, state))
+    };
+  });
+
+  const directNodes = directChildren.map(item => buildNode(item, rootKey, state));
+
+  // Items referenced from the page's own fields are attached through referencedBy
+  const referencedFromPage = (state.childrenByParent.get(rootId) || [])
+    .filter(item => !isDatasource(item) && !designIds.has(formatGuidWithoutHyphens(item.id)))
+    .map(item => buildNode(item, rootKey, state));
+
+  // Designs and partial design datasources are nested under the design that references them
+  const designKey = `${rootKey}/page-design`;
+  const designNodes: DependencyTreeNode[] = designItems.length === 0 ? [] : [{
+    key: designKey,
+    label: 'From page design',
+    children: designItems
+      .filter(item => !item.referencedBy?.some(ref => designIds.has(formatGuidWithoutHyphens(ref.id))))
+      .map(item => buildNode(item, designKey, state))
+  }];
+
+  return {
+    key: rootKey,
+    item: currentItem,
+    children: [...placeholderNodes, ...directNodes, ...referencedFromPage, ...designNodes]
+  };
+};
+
+/**
+ * Collect the keys of all nodes that have children
+ */
+export const getExpandableKeys = (node: DependencyTreeNode): string[] => {
+  if (node.children.length === 0) {
+    return [];
+  }
+  return [node.key, ...node.children.flatMap(getExpandableKeys)];
+};
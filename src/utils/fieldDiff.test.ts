@@ -0,0 +1,88 @@
+// utils/fieldDiff.test.ts
+import { describe, expect, it } from 'vitest';
+import { detectFieldKind, diffItemFields, diffWords, getFieldDisplayText } from './fieldDiff';
+
+describe('diffWords', () => {
+  it('marks inserted and deleted words and keeps the rest unchanged', () => {
+    expect(diffWords('The quick fox', 'The quick brown fox')).toEqual([
+      { text: 'The quick ', type: 'unchanged' },
+      { text: 'brown ', type: 'added' },
+      { text: 'fox', type: 'unchanged' }
+    ]);
+    expect(diffWords('The quick brown fox', 'The fox')).toEqual([
+      { text: 'The ', type: 'unchanged' },
+      { text: 'quick brown ', type: 'removed' },
+      { text: 'fox', type: 'unchanged' }
+    ]);
+  });
+
+  it('returns one unchanged segment for identical values', () => {
+    expect(diffWords('Read more', 'Read more')).toEqual([{ text: 'Read more', type: 'unchanged' }]);
+  });
+
+  it('handles empty values on either side', () => {
+    expect(diffWords('', '')).toEqual([]);
+    expect(diffWords('', 'New text')).toEqual([{ text: 'New text', type: 'added' }]);
+    expect(diffWords('Old text', '')).toEqual([{ text: 'Old text', type: 'removed' }]);
+  });
+
+  it('skips the diff when the values are too large', () => {
+    const words = (count: number) => Array.from({ length: count }, (_, index) => `word${index}`).join(' ');
+
+    // 300 words and 299 spaces on each side is more than 250,000 LCS cells
+    expect(diffWords(words(300), `${words(300)} more`)).toEqual([]);
+    expect(diffWords(words(100), `${words(100)} more`)).toEqual([
+      { text: words(100), type: 'unchanged' },
+      { text: ' more', type: 'added' }
+    ]);
+  });
+});
+
+describe('diffItemFields', () => {
+  it('compares latest and published values field by field, skipping standard fields', () => {
+    const fields = diffItemFields(
+      [
+        { name: 'Title', value: 'Spring sale' },
+        { name: 'Text', value: '<p>Save <b>20%</b> now</p>' },
+        { name: 'Subtitle', value: 'New' },
+        { name: '__Updated', value: '20250601T120000Z' }
+      ],
+      [
+        { name: 'Title', value: 'Spring sale' },
+        { name: 'Text', value: '<p>Save <b>10%</b> now</p>' },
+        { name: 'Legacy', value: 'Old' }
+      ]
+    );
+
+    expect(fields.map(({ name, kind, status }) => ({ name, kind, status }))).toEqual([
+      { name: 'Title', kind: 'text', status: 'unchanged' },
+      { name: 'Text', kind: 'rich-text', status: 'changed' },
+      { name: 'Subtitle', kind: 'text', status: 'added' },
+      { name: 'Legacy', kind: 'text', status: 'removed' }
+    ]);
+    expect(fields[0].segments).toEqual([]);
+    expect(fields[1].segments).toEqual([
+      { text: 'Save ', type: 'unchanged' },
+      { text: '10%', type: 'removed' },
+      { text: '20%', type: 'added' },
+      { text: ' now', type: 'unchanged' }
+    ]);
+  });
+
+  it('reports every field as added when the item is not published', () => {
+    const fields = diffItemFields([{ name: 'Title', value: '' }], null);
+
+    expect(fields).toEqual([{ name: 'Title', kind: 'text', status: 'added', latestValue: '', publishedValue: null, segments: [] }]);
+  });
+});
+
+describe('field display', () => {
+  it('detects image and link fields and lists their attributes', () => {
+    const image = '<image mediaid="{0F1E2D3C-4B5A-4978-8695-A4B3C2D1E0F9}" alt="Hero" />';
+
+    expect(detectFieldKind(image)).toBe('image');
+    expect(detectFieldKind('<link linktype="external" url="https://example.com" />')).toBe('link');
+    expect(detectFieldKind(null)).toBe('text');
+    expect(getFieldDisplayText(image, 'image')).toBe('mediaid: {0F1E2D3C-4B5A-4978-8695-A4B3C2D1E0F9}\nalt: Hero');
+  });
+});
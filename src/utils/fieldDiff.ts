@@ -0,0 +1,184 @@
+// utils/fieldDiff.ts
+import type {
+  FieldDiff,
+  FieldKind,
+  TextDiffSegment
+} from '../types/fieldDiff';
+
+// Word diffs are skipped above this many LCS cells to keep the UI responsive
+const MAX_DIFF_CELLS = 250000;
+
+/**
+ * Determine how a field value should be rendered based on its raw format
+ */
+export const detectFieldKind = (value: string | null): FieldKind => {
+  if (!value) {
+    return 'text';
+  }
+
+  if (/^\s*<image\b/i.test(value)) {
+    return 'image';
+  }
+
+  if (/^\s*<link\b/i.test(value)) {
+    return 'link';
+  }
+
+  if (/<\/?[a-z][^>]*>/i.test(value)) {
+    return 'rich-text';
+  }
+
+  return 'text';
+};
+
+/**
+ * Parse the attributes of an image or link field value,
+ * e.g. <image mediaid="{GUID}" alt="Hero" /> → { mediaid: '{GUID}', alt: 'Hero' }
+ */
+export const parseFieldAttributes = (value: string | null): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+
+  if (!value) {
+    return attributes;
+  }
+
+  for (const match of value.matchAll(/([\w-]+)="([^"]*)"/g)) {
+    attributes[match[1]] = match[2];
+  }
+
+  return attributes;
+};
+
+/**
+ * Convert rich text HTML to plain text for comparison
+ */
+const stripHtml = (value: string): string => {
+  return value
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .trim();
+};
+
+/**
+ * Get the text used for display and word-level diffing of a field value
+ */
+export const getFieldDisplayText = (value: string | null, kind: FieldKind): string => {
+  if (!value) {
+    return '';
+  }
+
+  switch (kind) {
+    case 'rich-text':
+      return stripHtml(value);
+    case 'image':
+    case 'link':
+      return Object.entries(parseFieldAttributes(value))
+        .map(([name, attributeValue]) => `${name}: ${attributeValue}`)
+        .join('\n');
+    case 'text':
+    default:
+      return value;
+  }
+};
+
+/**
+ * Word-level diff between two strings using a longest common subsequence table
+ * Returns an empty array when the inputs are too large to diff
+ */
+export const diffWords = (before: string, after: string): TextDiffSegment[] => {
+  const beforeTokens = before.split(/(\s+)/).filter(token => token.length > 0);
+  const afterTokens = after.split(/(\s+)/).filter(token => token.length > 0);
+
+  if (beforeTokens.length * afterTokens.length > MAX_DIFF_CELLS) {
+    return [];
+  }
+
+  // lcs[i][j] = length of the LCS of beforeTokens[i..] and afterTokens[j..]
+  const lcs: number[][] = Array.from({ length: beforeTokens.length + 1 }, () =>
+    new Array<number>(afterTokens.length + 1).fill(0)
+  );
+  for (let i = beforeTokens.length - 1; i >= 0; i--) {
+    for (let j = afterTokens.length - 1; j >= 0; j--) {
+      lcs[i][j] = beforeTokens[i] === afterTokens[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  const push = (text: string, type: TextDiffSegment['type']) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ text, type });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < beforeTokens.length && j < afterTokens.length) {
+    if (beforeTokens[i] === afterTokens[j]) {
+      push(beforeTokens[i], 'unchanged');
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(beforeTokens[i], 'removed');
+      i++;
+    } else {
+      push(afterTokens[j], 'added');
+      j++;
+    }
+  }
+  beforeTokens.slice(i).forEach(token => push(token, 'removed'));
+  afterTokens.slice(j).forEach(token => push(token, 'added'));
+
+  return segments;
+};
+
+/**
+ * Compare the fields of the latest authoring version with the published fields
+ * Standard fields (__*) are skipped because Experience Edge does not return them.
+ */
+export const diffItemFields = (
+  latestFields: Array<{ name: string; value: string }>,
+  publishedFields: Array<{ name: string; value: string }> | null
+): FieldDiff[] => {
+  const isContentField = (field: { name: string }) => !field.name.startsWith('__');
+  const latest = new Map(latestFields.filter(isContentField).map(field => [field.name, field.value]));
+  const published = new Map((publishedFields || []).filter(isContentField).map(field => [field.name, field.value]));
+
+  // Keep authoring field order, then append fields only present on the published version
+  const fieldNames = [
+    ...latest.keys(),
+    ...Array.from(published.keys()).filter(name => !latest.has(name))
+  ];
+
+  return fieldNames.map(name => {
+    const latestValue = latest.has(name) ? latest.get(name)! : null;
+    const publishedValue = published.has(name) ? published.get(name)! : null;
+    const kind = detectFieldKind(latestValue ?? publishedValue);
+
+    let status: FieldDiff['status'];
+    if (publishedValue === null) {
+      status = 'added';
+    } else if (latestValue === null) {
+      status = 'removed';
+    } else {
+      status = latestValue === publishedValue ? 'unchanged' : 'changed';
+    }
+
+    const segments = status === 'unchanged'
+      ? []
+      : diffWords(getFieldDisplayText(publishedValue, kind), getFieldDisplayText(latestValue, kind));
+
+    return { name, kind, status, latestValue, publishedValue, segments };
+  });
+};
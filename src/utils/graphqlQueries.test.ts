@@ -0,0 +1,443 @@
+// utils/graphqlQueries.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  getChildItemsFromAuthoring,
+  getItemLanguagesFromAuthoring,
+  getItemsFromAuthoring,
+  getItemsFromLive,
+  getItemsFromPreview,
+  getMediaFromLive,
+  getPublishingStatus,
+  getSitecoreContextId,
+  getSitecoreContextIds,
+  publishItems,
+  resolveLocalDatasourcePaths
+} from './graphqlQueries';
+import { formatGuidWithoutHyphens } from './dataProcessing';
+import { createFakeClient, respondWithItems, stubEdgeFetch } from '../test/fakeClient';
+import { FOOTER_ID, HERO_ID, PAGE_ID, PAGE_PATH, PROMO_ID, applicationContext } from '../test/fixtures/pageContexts';
+import { TEXT_ID, authoringItems, liveItems, previewItems } from '../test/fixtures/graphqlResponses';
+
+const compact = formatGuidWithoutHyphens;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('getSitecoreContextId', () => {
+  it('prefers the preview context', async () => {
+    const { client } = createFakeClient({ applicationContext });
+
+    expect(await getSitecoreContextId(client)).toBe('test-preview-context');
+  });
+
+  it('returns the live context separately for live queries', async () => {
+    const { client } = createFakeClient({ applicationContext });
+
+    expect(await getSitecoreContextIds(client)).toEqual({
+      sitecoreContextId: 'test-preview-context',
+      liveContextId: 'test-live-context'
+    });
+  });
+
+  it('falls back to the live context and to a top-level context ID', async () => {
+    const liveOnly = createFakeClient({ applicationContext: { resourceAccess: [{ context: { live: 'live-only' } }] } });
+    const topLevel = createFakeClient({ applicationContext: { sitecoreContextId: 'top-level' } });
+
+    expect(await getSitecoreContextId(liveOnly.client)).toBe('live-only');
+    expect(await getSitecoreContextId(topLevel.client)).toBe('top-level');
+  });
+});
+
+describe('getItemsFromAuthoring', () => {
+  it('keys results by normalized item ID and keeps not-found items as null', async () => {
+    const { client, calls } = createFakeClient({ authoring: respondWithItems(authoringItems) });
+    const missingId = 'DEADBEEF-0000-4000-8000-000000000000';
+
+    const result = await getItemsFromAuthoring(client, [HERO_ID, missingId], 'ctx', 'en');
+
+    expect(result.data?.data).toEqual({
+      [compact(HERO_ID)]: authoringItems[HERO_ID],
+      [compact(missingId)]: null
+    });
+    expect(calls[0].sitecoreContextId).toBe('ctx');
+    expect(calls[0].query).toContain(`itemId: "${HERO_ID}"`);
+  });
+
+  it('splits large ID lists into chunks', async () => {
+    const { client, calls } = createFakeClient({ authoring: respondWithItems(authoringItems) });
+
+    const result = await getItemsFromAuthoring(client, [HERO_ID, PROMO_ID, FOOTER_ID], 'ctx', 'en', { chunkSize: 2 });
+
+    expect(calls).toHaveLength(2);
+    expect(Object.keys(result.data?.data || {})).toEqual([HERO_ID, PROMO_ID, FOOTER_ID].map(compact));
+  });
+
+  it('reports failed chunks and keeps the items that loaded', async () => {
+    const respond = respondWithItems(authoringItems);
+    const { client } = createFakeClient({
+      authoring: query => {
+        if (query.includes(FOOTER_ID)) {
+          throw new Error('Gateway timeout');
+        }
+        return respond(query);
+      }
+    });
+
+    const result = await getItemsFromAuthoring(client, [HERO_ID, PROMO_ID, FOOTER_ID], 'ctx', 'en', { chunkSize: 2 });
+
+    expect(result.failures).toEqual([{ endpoint: 'authoring', itemIds: [FOOTER_ID], error: 'Gateway timeout' }]);
+    expect(result.data?.data).toHaveProperty(compact(HERO_ID));
+    expect(result.data?.data).not.toHaveProperty(compact(FOOTER_ID));
+  });
+
+  it('fails as a whole when every chunk fails', async () => {
+    const { client } = createFakeClient({
+      authoring: () => {
+        throw new Error('Unauthorized');
+      }
+    });
+
+    const result = await getItemsFromAuthoring(client, [HERO_ID], 'ctx', 'en');
+
+    expect(result.error).toBeInstanceOf(Error);
+    expect(result.failures).toHaveLength(1);
+  });
+});
+
+describe('getItemLanguagesFromAuthoring', () => {
+  const languageRecord = (...languages: Array<[string, number]>) => ({
+    languages: languages.map(([name, version]) => ({ version, language: { name } }))
+  });
+
+  it('keys languages by normalized item ID and keeps the chunks that loaded', async () => {
+    const respond = respondWithItems({
+      [HERO_ID]: languageRecord(['en', 2], ['da', 1], ['de', 0]),
+      [PROMO_ID]: languageRecord(['en', 1])
+    });
+    const { client, calls } = createFakeClient({
+      authoring: query => {
+        if (query.includes(FOOTER_ID)) {
+          throw new Error('Query too complex');
+        }
+        return respond(query);
+      }
+    });
+
+    const result = await getItemLanguagesFromAuthoring(client, [PROMO_ID, HERO_ID, FOOTER_ID], 'ctx', { chunkSize: 2 });
+
+    expect(calls).toHaveLength(2);
+    expect(result.languagesByItem).toEqual({
+      [compact(PROMO_ID)]: ['en'],
+      [compact(HERO_ID)]: ['en', 'da']
+    });
+    expect(result.failures).toEqual([{ endpoint: 'authoring', itemIds: [FOOTER_ID], error: 'Query too complex' }]);
+  });
+});
+
+describe('getItemsFromLive', () => {
+  it('queries xmc.live.graphql through the SDK with the live context by default', async () => {
+    const { client, calls } = createFakeClient({ live: respondWithItems(liveItems) });
+
+    const result = await getItemsFromLive(client, [compact(HERO_ID), FOOTER_ID], 'test-live-context', 'en');
+
+    expect(calls[0]).toMatchObject({ key: 'xmc.live.graphql', sitecoreContextId: 'test-live-context' });
+    expect(calls[0].query).toContain(`item(path: "{${HERO_ID}}"`);
+    expect(result.data?.data).toEqual({
+      [compact(HERO_ID)]: liveItems[HERO_ID],
+      [compact(FOOTER_ID)]: null
+    });
+  });
+
+  it('only selects field values when asked to', async () => {
+    const { client, calls } = createFakeClient({ live: respondWithItems(liveItems) });
+
+    await getItemsFromLive(client, [HERO_ID], 'ctx', 'en');
+    await getItemsFromLive(client, [HERO_ID], 'ctx', 'en', true);
+
+    expect(calls[0].query).not.toContain('fields(');
+    expect(calls[1].query).toContain('fields(excludeStandardFields: true)');
+  });
+
+  it('reports failed queries in failures', async () => {
+    const { client } = createFakeClient({
+      live: () => {
+        throw new Error('Forbidden');
+      }
+    });
+
+    const result = await getItemsFromLive(client, [HERO_ID], 'ctx', 'en');
+
+    expect(result.error).toBeInstanceOf(Error);
+    expect(result.failures?.[0]).toMatchObject({ endpoint: 'live', itemIds: [HERO_ID], error: 'Forbidden' });
+  });
+
+  describe('fallback modes', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      vi.resetModules();
+    });
+
+    // The live data source is read when the module loads
+    const importWithEnv = async (env: Record<string, string>) => {
+      Object.entries(env).forEach(([name, value]) => vi.stubEnv(name, value));
+      vi.resetModules();
+      return import('./graphqlQueries');
+    };
+
+    it('posts the query to the configured proxy without a token', async () => {
+      const { getItemsFromLive: getItemsFromLiveViaProxy } = await importWithEnv({
+        VITE_LIVE_DATA_SOURCE: 'proxy',
+        VITE_LIVE_PROXY_URL: '/api/live-graphql'
+      });
+      const fetchMock = stubEdgeFetch(respondWithItems(liveItems));
+      const { client, calls } = createFakeClient();
+
+      const result = await getItemsFromLiveViaProxy(client, [HERO_ID], 'ctx', 'en');
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('/api/live-graphql');
+      expect(init?.headers).not.toHaveProperty('sc_apikey');
+      expect(calls).toHaveLength(0);
+      expect(result.data?.data).toEqual({ [compact(HERO_ID)]: liveItems[HERO_ID] });
+    });
+
+    it('calls Experience Edge directly with the API key in token mode', async () => {
+      const { getItemsFromLive: getItemsFromLiveWithToken } = await importWithEnv({
+        VITE_LIVE_DATA_SOURCE: 'token',
+        VITE_SITECORE_EDGE_TOKEN: 'test-edge-token',
+        VITE_SITECORE_EDGE_ENDPOINT: 'https://edge.test/api/graphql/v1'
+      });
+      const fetchMock = stubEdgeFetch(respondWithItems(liveItems));
+      const { client } = createFakeClient();
+
+      const result = await getItemsFromLiveWithToken(client, [HERO_ID], 'ctx', 'en');
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://edge.test/api/graphql/v1');
+      expect(init?.headers).toMatchObject({ sc_apikey: 'test-edge-token' });
+      expect(result.data?.data).toEqual({ [compact(HERO_ID)]: liveItems[HERO_ID] });
+    });
+
+    it('reports HTTP errors as a failed result', async () => {
+      const { getItemsFromLive: getItemsFromLiveViaProxy } = await importWithEnv({
+        VITE_LIVE_DATA_SOURCE: 'proxy',
+        VITE_LIVE_PROXY_URL: '/api/live-graphql'
+      });
+      vi.stubGlobal('fetch', vi.fn(async () => new Response('Bad Gateway', { status: 502 })));
+      const { client } = createFakeClient();
+
+      const result = await getItemsFromLiveViaProxy(client, [HERO_ID], 'ctx', 'en');
+
+      expect(result.failures?.[0]).toMatchObject({ endpoint: 'live', error: 'HTTP error! status: 502' });
+    });
+  });
+});
+
+describe('getMediaFromLive', () => {
+  const MEDIA_ID = 'A1B2C3D4-0010-4000-8000-000000000010';
+  const MISSING_MEDIA_ID = 'A1B2C3D4-0011-4000-8000-000000000011';
+  const mediaUrl = (name: string) => `https://edge.sitecorecloud.io/tenant/media/${name}`;
+
+  it('checks the file of each published media item on Edge', async () => {
+    const { client, calls } = createFakeClient({
+      live: respondWithItems({
+        [MEDIA_ID]: { id: compact(MEDIA_ID), url: { url: mediaUrl('hero.jpg') } },
+        [MISSING_MEDIA_ID]: { id: compact(MISSING_MEDIA_ID), url: { url: mediaUrl('gone.jpg') } }
+      })
+    });
+    const fetchMock = vi.fn(async (url: string) => new Response(null, { status: url.endsWith('hero.jpg') ? 200 : 404 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await getMediaFromLive(client, [MEDIA_ID, MISSING_MEDIA_ID, HERO_ID], 'ctx', 'en');
+
+    expect(calls[0].query).toContain('url {');
+    expect(fetchMock).toHaveBeenCalledWith(mediaUrl('hero.jpg'), { method: 'HEAD' });
+    expect(result.data?.data).toEqual({
+      [compact(MEDIA_ID)]: { id: compact(MEDIA_ID), url: { url: mediaUrl('hero.jpg') }, blobState: 'published' },
+      [compact(MISSING_MEDIA_ID)]: { id: compact(MISSING_MEDIA_ID), url: { url: mediaUrl('gone.jpg') }, blobState: 'missing' },
+      [compact(HERO_ID)]: null
+    });
+  });
+
+  it('leaves the file state unknown when the check is blocked', async () => {
+    const { client } = createFakeClient({
+      live: respondWithItems({ [MEDIA_ID]: { id: compact(MEDIA_ID), url: { url: mediaUrl('hero.jpg') } } })
+    });
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    }));
+
+    const result = await getMediaFromLive(client, [MEDIA_ID], 'ctx', 'en');
+
+    expect(result.data?.data?.[compact(MEDIA_ID)]).toMatchObject({ blobState: 'unknown' });
+  });
+});
+
+describe('getItemsFromPreview', () => {
+  it('queries xmc.preview.graphql and keys results by normalized item ID', async () => {
+    const { client, calls } = createFakeClient({ preview: respondWithItems(previewItems) });
+
+    const result = await getItemsFromPreview(client, [FOOTER_ID, TEXT_ID], 'ctx', 'en');
+
+    expect(calls[0]).toMatchObject({ key: 'xmc.preview.graphql', sitecoreContextId: 'ctx' });
+    expect(calls[0].query).toContain(`item(path: "{${FOOTER_ID}}"`);
+    expect(result.data?.data).toEqual({
+      [compact(FOOTER_ID)]: previewItems[FOOTER_ID],
+      [compact(TEXT_ID)]: null
+    });
+  });
+
+  it('splits large ID lists into chunks and reports failed chunks', async () => {
+    const respond = respondWithItems(previewItems);
+    const { client, calls } = createFakeClient({
+      preview: query => {
+        if (query.includes(FOOTER_ID)) {
+          throw new Error('Preview unavailable');
+        }
+        return respond(query);
+      }
+    });
+
+    const result = await getItemsFromPreview(client, [HERO_ID, PROMO_ID, FOOTER_ID], 'ctx', 'en', { chunkSize: 2 });
+
+    expect(calls).toHaveLength(2);
+    expect(result.failures).toEqual([{ endpoint: 'preview', itemIds: [FOOTER_ID], error: 'Preview unavailable' }]);
+    expect(result.data?.data).toHaveProperty(compact(PROMO_ID));
+  });
+});
+
+describe('resolveLocalDatasourcePaths', () => {
+  /**
+   * Authoring responder that only knows the given paths
+   */
+  const respondWithPaths = (paths: Record<string, string>) => (query: string) => {
+    const data: Record<string, unknown> = {};
+    for (const match of query.matchAll(/(path\d+):\s*item\(where:\s*\{[^}]*path:\s*"([^"]*)"/g)) {
+      data[match[1]] = paths[match[2]] ? { itemId: `{${paths[match[2]]}}`, name: 'Resolved', path: match[2] } : null;
+    }
+    return { data };
+  };
+
+  it('resolves paths directly under the page (strategy 1)', async () => {
+    const { client, calls } = createFakeClient({ authoring: respondWithPaths({ [`${PAGE_PATH}/Data/Text 1`]: TEXT_ID }) });
+
+    const result = await resolveLocalDatasourcePaths(client, ['Data/Text 1'], PAGE_PATH, 'ctx');
+
+    expect(result).toEqual({ 'Data/Text 1': TEXT_ID });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('falls back to the Data folder (strategy 2)', async () => {
+    const { client, calls } = createFakeClient({ authoring: respondWithPaths({ [`${PAGE_PATH}/Data/Text 1`]: TEXT_ID }) });
+
+    const result = await resolveLocalDatasourcePaths(client, ['Text 1'], PAGE_PATH, 'ctx');
+
+    expect(result).toEqual({ 'Text 1': TEXT_ID });
+    expect(calls).toHaveLength(2);
+  });
+
+  it('drops the Page Components prefix (strategy 3)', async () => {
+    const { client, calls } = createFakeClient({ authoring: respondWithPaths({ [`${PAGE_PATH}/Text 1`]: TEXT_ID }) });
+
+    const result = await resolveLocalDatasourcePaths(client, ['Page Components/Text 1'], PAGE_PATH, 'ctx');
+
+    expect(result).toEqual({ 'Page Components/Text 1': TEXT_ID });
+    expect(calls).toHaveLength(3);
+  });
+
+  it('drops the Page Components prefix under the Data folder (strategy 4)', async () => {
+    const { client, calls } = createFakeClient({ authoring: respondWithPaths({ [`${PAGE_PATH}/Data/Text 1`]: TEXT_ID }) });
+
+    const result = await resolveLocalDatasourcePaths(client, ['Page Components/Text 1'], PAGE_PATH, 'ctx');
+
+    expect(result).toEqual({ 'Page Components/Text 1': TEXT_ID });
+    expect(calls).toHaveLength(4);
+  });
+
+  it('combines items resolved by different strategies', async () => {
+    const { client } = createFakeClient({
+      authoring: respondWithPaths({
+        [`${PAGE_PATH}/Data/Text 1`]: TEXT_ID,
+        [`${PAGE_PATH}/Data/Promo`]: PROMO_ID
+      })
+    });
+
+    const result = await resolveLocalDatasourcePaths(client, ['Data/Text 1', 'Promo'], PAGE_PATH, 'ctx');
+
+    expect(result).toEqual({ 'Data/Text 1': TEXT_ID, Promo: PROMO_ID });
+  });
+
+  it('returns nothing for paths no strategy can resolve', async () => {
+    const { client, calls } = createFakeClient({ authoring: respondWithPaths({}) });
+
+    const result = await resolveLocalDatasourcePaths(client, ['Missing'], PAGE_PATH, 'ctx');
+
+    expect(result).toEqual({});
+    expect(calls).toHaveLength(4);
+  });
+});
+
+describe('getChildItemsFromAuthoring', () => {
+  it('escapes the parent path and cursor in the query', async () => {
+    const parentPath = '/sitecore/content/Demo "Site"\\Home';
+    const { client, calls } = createFakeClient({
+      authoring: () => ({
+        data: {
+          parent: {
+            itemId: PAGE_ID,
+            name: 'Home',
+            path: parentPath,
+            children: { nodes: [], pageInfo: { hasNextPage: false } }
+          }
+        }
+      })
+    });
+
+    const { parent, nextCursor } = await getChildItemsFromAuthoring(client, parentPath, 'ctx', 'en', 'cursor"1');
+
+    expect(calls[0].query).toContain('path: "/sitecore/content/Demo \\"Site\\"\\\\Home"');
+    expect(calls[0].query).toContain('after: "cursor\\"1"');
+    expect(parent.path).toBe(parentPath);
+    expect(nextCursor).toBeUndefined();
+  });
+});
+
+describe('publishing', () => {
+  it('starts one publish job per item and maps operation IDs back', async () => {
+    const { client, calls } = createFakeClient({
+      authoring: () => ({ data: { publish0: { operationId: 'op-1' }, publish1: null } })
+    });
+
+    const result = await publishItems(client, [compact(HERO_ID), PROMO_ID], {
+      languages: ['en'],
+      targetDatabases: ['experienceedge'],
+      publishSubItems: false,
+      publishRelatedItems: true,
+      publishItemMode: 'SMART'
+    }, 'ctx');
+
+    expect(result).toEqual({ [compact(HERO_ID)]: 'op-1', [PROMO_ID]: null });
+    expect(calls[0].query).toContain(`rootItemId: "${HERO_ID}"`);
+    expect(calls[0].query).toContain('publishRelatedItems: true');
+  });
+
+  it('throws when the mutation returns no data', async () => {
+    const { client } = createFakeClient({ authoring: () => ({ data: null, errors: [{ message: 'Access denied' }] }) });
+
+    await expect(publishItems(client, [HERO_ID], {
+      languages: ['en'],
+      targetDatabases: ['experienceedge'],
+      publishSubItems: false,
+      publishRelatedItems: false,
+      publishItemMode: 'SMART'
+    }, 'ctx')).rejects.toThrow('Access denied');
+  });
+
+  it('reads the status of publishing operations', async () => {
+    const status = { isDone: true, isFailed: false, processed: 3, state: 'Finished' };
+    const { client } = createFakeClient({ authoring: () => ({ data: { status0: status, status1: null } }) });
+
+    expect(await getPublishingStatus(client, ['op-1', 'op-2'], 'ctx')).toEqual({ 'op-1': status, 'op-2': null });
+  });
+});
@@ -1,16 +1,46 @@
 // utils/graphqlQueries.ts
 import { ClientSDK } from '@sitecore-marketplace-sdk/client';
-import type { ItemQueryResult } from '../types/itemInformation';
+import type {
+  AuthoringChildItemResponse,
+  ChunkFailure,
+  ItemQueryResult,
+  LiveMediaResponse,
+  PageDesignLookupResponse,
+  PageLayoutFields
+} from '../types/itemInformation';
+import type { PublishOptions, PublishingStatusResponse } from '../types/publishing';
 import { formatGuidWithHyphens } from './dataProcessing';
+import { batchItemQuery } from './queryBatching';
+import type { BatchOptions } from './queryBatching';
+import { cachedItemQuery, createQueryCache, invalidateItemCache } from './queryCache';
+import { checkMediaBlob } from './mediaItems';
 
-// Configuration for direct live endpoint calls
+/**
+ * How published (live) data is fetched
+ * - sdk: xmc.live.graphql through the Marketplace SDK, authenticated by the host (default)
+ * - proxy: POST { query } to VITE_LIVE_PROXY_URL, which adds the delivery token server-side
+ * - token: call Experience Edge directly with VITE_SITECORE_EDGE_TOKEN (the token ships in the bundle)
+ */
+export type LiveDataSource = 'sdk' | 'proxy' | 'token';
+
+const LIVE_DATA_SOURCE: LiveDataSource = (['sdk', 'proxy', 'token'] as const).find(
+  source => source === import.meta.env.VITE_LIVE_DATA_SOURCE
+) || 'sdk';
+
+// Configuration for the proxy and token fallback modes
+const LIVE_PROXY_URL = import.meta.env.VITE_LIVE_PROXY_URL || '';
 const LIVE_ENDPOINT = import.meta.env.VITE_SITECORE_EDGE_ENDPOINT || 'https://edge.sitecorecloud.io/api/graphql/v1';
-const LIVE_TOKEN = import.meta.env.VITE_SITECORE_EDGE_TOKEN || '';
+// Only read in token mode: Vite inlines the comparison, so builds in other modes drop the token
+const LIVE_TOKEN = import.meta.env.VITE_LIVE_DATA_SOURCE === 'token' ? import.meta.env.VITE_SITECORE_EDGE_TOKEN || '' : '';
 
-// Validate required environment variables
-if (!LIVE_TOKEN && import.meta.env.DEV) {
-  console.warn('⚠️ VITE_SITECORE_EDGE_TOKEN not set in environment variables. Live endpoint queries will fail.');
-  console.warn('   Please copy .env.example to .env and add your Sitecore Experience Edge API token.');
+// Validate the environment variables the selected mode needs
+if (import.meta.env.DEV) {
+  if (LIVE_DATA_SOURCE === 'token' && !LIVE_TOKEN) {
+    console.warn('⚠️ VITE_LIVE_DATA_SOURCE is "token" but VITE_SITECORE_EDGE_TOKEN is not set. Live endpoint queries will fail.');
+  }
+  if (LIVE_DATA_SOURCE === 'proxy' && !LIVE_PROXY_URL) {
+    console.warn('⚠️ VITE_LIVE_DATA_SOURCE is "proxy" but VITE_LIVE_PROXY_URL is not set. Live endpoint queries will fail.');
+  }
 }
 
 /**
@@ -20,14 +50,106 @@ export const formatGuidForLive = (guid: string): string => {
   return formatGuidWithHyphens(guid);
 };
 
+// Context IDs do not change while the app is open; cached per client until clearQueryCaches
+let contextIdsCache = new WeakMap<ClientSDK, Promise<SitecoreContextIds>>();
+
+// Resolved local datasource IDs by context | language | page path | local path
+const resolvedPathCache = createQueryCache<string>({ ttl: 5 * 60000 });
+
+/**
+ * Drop every cached lookup (context IDs, resolved local paths and item queries)
+ */
+export const clearQueryCaches = () => {
+  contextIdsCache = new WeakMap();
+  resolvedPathCache.invalidate();
+  invalidateItemCache();
+};
+
+export interface SitecoreContextIds {
+  /** Context ID for authoring and preview queries (preview context preferred) */
+  sitecoreContextId?: string;
+  /** Context ID for live (Experience Edge) queries; falls back to sitecoreContextId */
+  liveContextId?: string;
+}
+
+/**
+ * Resolve the sitecoreContextIds from application.context
+ * Prefers the preview context (official approach) and falls back to any other context found
+ * Resolved IDs are cached per client; lookups that find no context ID are retried next time
+ */
+export const getSitecoreContextIds = (client: ClientSDK): Promise<SitecoreContextIds> => {
+  const cached = contextIdsCache.get(client);
+  if (cached) {
+    return cached;
+  }
+
+  const cache = contextIdsCache;
+  const request = queryContextIds(client).then(contextIds => {
+    if (!contextIds.sitecoreContextId) {
+      cache.delete(client);
+    }
+    return contextIds;
+  });
+  cache.set(client, request);
+  return request;
+};
+
+const queryContextIds = async (client: ClientSDK): Promise<SitecoreContextIds> => {
+  let sitecoreContextId: string | undefined;
+  let liveContextId: string | undefined;
+  try {
+    const { data: appContext } = await client.query('application.context');
+
+    // Extract sitecoreContextId according to official documentation
+    sitecoreContextId = appContext?.resourceAccess?.[0]?.context?.preview;
+    liveContextId = appContext?.resourceAccess?.[0]?.context?.live;
+
+    if (!sitecoreContextId) {
+      // Try alternative locations as fallback
+      sitecoreContextId = appContext?.resourceAccess?.[0]?.context?.live ||
+                          (appContext as Record<string, unknown>)?.sitecoreContextId as string ||
+                          (appContext as Record<string, unknown>)?.contextId as string;
+    }
+
+    // If still not found, try to extract from any resourceAccess context
+    if (!sitecoreContextId && appContext?.resourceAccess) {
+      for (const resource of appContext.resourceAccess as Array<Record<string, unknown>>) {
+        if (resource?.context) {
+          const context = resource.context as Record<string, unknown>;
+          sitecoreContextId = context.preview as string ||
+                             context.live as string ||
+                             context.master as string;
+          if (sitecoreContextId) break;
+        }
+      }
+    }
+
+  } catch (error) {
+    console.error('Failed to get application context:', error);
+  }
+
+  return { sitecoreContextId, liveContextId: liveContextId || sitecoreContextId };
+};
+
+/**
+ * Resolve the sitecoreContextId for authoring and preview queries from application.context
+ */
+export const getSitecoreContextId = async (client: ClientSDK): Promise<string | undefined> => {
+  const { sitecoreContextId } = await getSitecoreContextIds(client);
+  return sitecoreContextId;
+};
+
 /**
  * Query the authoring endpoint for multiple items to get latest versions
+ * Large ID lists are split into chunks (see batchItemQuery); failed chunks are reported in `failures`
+ * Results are cached per item for a minute (see cachedItemQuery)
  */
 export const getItemsFromAuthoring = async (
   client: ClientSDK,
   itemIds: string[],
   sitecoreContextId?: string,
-  language: string = 'en'
+  language: string = 'en',
+  batchOptions?: BatchOptions
 ): Promise<ItemQueryResult> => {
   if (!client || itemIds.length === 0) {
     return { data: { data: {} } };
@@ -37,6 +159,24 @@ export const getItemsFromAuthoring = async (
     console.warn('sitecoreContextId not provided for authoring GraphQL queries');
   }
 
+  return cachedItemQuery('authoring', { contextId: sitecoreContextId, language }, itemIds, uncachedIds => batchItemQuery(
+    'authoring',
+    uncachedIds,
+    chunkIds => queryAuthoringItems(client, chunkIds, sitecoreContextId, language),
+    batchOptions
+  ));
+};
+
+/**
+ * Query a single chunk of items from the authoring endpoint
+ */
+const queryAuthoringItems = async (
+  client: ClientSDK,
+  itemIds: string[],
+  sitecoreContextId: string | undefined,
+  language: string
+): Promise<ItemQueryResult> => {
+
   const query = `
     query GetAuthoringItems {
       ${itemIds.map((id, index) => `
@@ -55,6 +195,35 @@ export const getItemsFromAuthoring = async (
           language {
             name
           }
+          workflow {
+            workflow {
+              workflowId
+              displayName
+            }
+            workflowState {
+              stateId
+              displayName
+              final
+            }
+          }
+          neverPublish: field(name: "__Never publish") {
+            value
+          }
+          publishFrom: field(name: "__Publish") {
+            value
+          }
+          publishTo: field(name: "__Unpublish") {
+            value
+          }
+          hideVersion: field(name: "__Hide version") {
+            value
+          }
+          validFrom: field(name: "__Valid from") {
+            value
+          }
+          validTo: field(name: "__Valid to") {
+            value
+          }
           fields {
             nodes {
               name
@@ -85,21 +254,190 @@ export const getItemsFromAuthoring = async (
   }
 };
 
+export interface ItemLanguagesResult {
+  /** Language names per item, keyed by normalized item ID; items in failed chunks are left out */
+  languagesByItem: Record<string, string[]>;
+  /** Chunks whose languages could not be loaded */
+  failures: ChunkFailure[];
+}
+
+/**
+ * Query the authoring endpoint for the languages each item has versions in
+ * Large ID lists are split into chunks (see batchItemQuery); failed chunks are reported in `failures`
+ */
+export const getItemLanguagesFromAuthoring = async (
+  client: ClientSDK,
+  itemIds: string[],
+  sitecoreContextId?: string,
+  batchOptions?: BatchOptions
+): Promise<ItemLanguagesResult> => {
+  if (!client || itemIds.length === 0) {
+    return { languagesByItem: {}, failures: [] };
+  }
+
+  const result = await batchItemQuery(
+    'authoring',
+    itemIds,
+    chunkIds => queryItemLanguages(client, chunkIds, sitecoreContextId),
+    batchOptions
+  );
+  if (result.error) {
+    console.error('Error querying item languages:', result.error);
+  }
+
+  const responseData = (result.data?.data || {}) as Record<string, {
+    languages?: Array<{ version?: number; language?: { name?: string } }>;
+  } | null>;
+
+  const languagesByItem: Record<string, string[]> = {};
+  Object.entries(responseData).forEach(([id, item]) => {
+    languagesByItem[id] = (item?.languages || [])
+      .filter(entry => (entry.version || 0) > 0 && entry.language?.name)
+      .map(entry => entry.language!.name!);
+  });
+
+  return { languagesByItem, failures: result.failures || [] };
+};
+
+/**
+ * Query a single chunk of item languages from the authoring endpoint
+ */
+const queryItemLanguages = async (
+  client: ClientSDK,
+  itemIds: string[],
+  sitecoreContextId: string | undefined
+): Promise<ItemQueryResult> => {
+  const query = `
+    query GetItemLanguages {
+      ${itemIds.map((id, index) => `
+        item${index}: item(where: {
+          database: "master"
+          itemId: "${id}"
+        }) {
+          itemId
+          languages {
+            version
+            language {
+              name
+            }
+          }
+        }
+      `).join('')}
+    }
+  `;
+
+  const queryParams = sitecoreContextId ? { sitecoreContextId } : {};
+  return client.mutate('xmc.authoring.graphql', {
+    params: {
+      query: queryParams,
+      body: {
+        query: query.trim()
+      }
+    }
+  });
+};
+
 /**
  * Query the live endpoint for multiple items to get published versions
- * Uses direct HTTP call to ensure we hit the correct Experience Edge endpoint
+ * Uses the Marketplace SDK by default; see LiveDataSource for the proxy and token fallback modes
+ * Set includeFields to also fetch the published field values (standard fields excluded)
+ * Large ID lists are split into chunks (see batchItemQuery); failed chunks are reported in `failures`
+ * Results are cached per item for a minute (see cachedItemQuery)
+ * @param liveContextId - sitecoreContextId of the live environment (see getSitecoreContextIds)
  */
 export const getItemsFromLive = async (
-  _client: ClientSDK, // Unused but kept for API compatibility
+  client: ClientSDK,
   itemIds: string[],
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  _sitecoreContextId?: string, // Unused but kept for API compatibility
-  language: string = 'en'
+  liveContextId?: string,
+  language: string = 'en',
+  includeFields: boolean = false,
+  batchOptions?: BatchOptions
 ): Promise<ItemQueryResult> => {
   if (itemIds.length === 0) {
     return { data: { data: {} } };
   }
 
+  if (LIVE_DATA_SOURCE === 'sdk' && !liveContextId) {
+    console.warn('liveContextId not provided for live GraphQL queries');
+  }
+
+  const scope = { contextId: liveContextId, language, variant: includeFields ? 'fields' : undefined };
+  return cachedItemQuery('live', scope, itemIds, uncachedIds => batchItemQuery(
+    'live',
+    uncachedIds,
+    chunkIds => queryLiveItems(client, chunkIds, liveContextId, language, includeFields),
+    batchOptions
+  ));
+};
+
+/**
+ * Send a live GraphQL query through the configured LiveDataSource
+ * Returns the response in the same shape as the SDK ({ data: { data, errors } })
+ */
+const sendLiveQuery = async (
+  client: ClientSDK,
+  query: string,
+  liveContextId: string | undefined
+): Promise<ItemQueryResult> => {
+  if (LIVE_DATA_SOURCE === 'sdk') {
+    const queryParams = liveContextId ? { sitecoreContextId: liveContextId } : {};
+    return client.mutate('xmc.live.graphql', {
+      params: {
+        query: queryParams,
+        body: {
+          query
+        }
+      }
+    });
+  }
+
+  let url: string;
+  let headers: Record<string, string>;
+  if (LIVE_DATA_SOURCE === 'proxy') {
+    if (!LIVE_PROXY_URL) {
+      throw new Error('VITE_LIVE_PROXY_URL environment variable is not set. Please configure the live data proxy URL.');
+    }
+    url = LIVE_PROXY_URL;
+    headers = { 'Content-Type': 'application/json' };
+  } else {
+    if (!LIVE_TOKEN) {
+      throw new Error('VITE_SITECORE_EDGE_TOKEN environment variable is not set. Please configure your Experience Edge API token.');
+    }
+    url = LIVE_ENDPOINT;
+    headers = { 'Content-Type': 'application/json', 'sc_apikey': LIVE_TOKEN };
+  }
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ query })
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  return { data: await response.json() };
+};
+
+/**
+ * Query a single chunk of items from the live endpoint
+ */
+const queryLiveItems = async (
+  client: ClientSDK,
+  itemIds: string[],
+  liveContextId: string | undefined,
+  language: string,
+  includeFields: boolean
+): Promise<ItemQueryResult> => {
+
+  // Published field values are only needed for field-level comparisons
+  const fieldsSelection = includeFields ? `
+          fields(excludeStandardFields: true) {
+            name
+            value
+          }` : '';
+
   const query = `
     query GetLiveItems {
       ${itemIds.map((id, index) => `
@@ -109,52 +447,103 @@ export const getItemsFromLive = async (
           version
           language {
             name
-          }
+          }${fieldsSelection}
         }
       `).join('')}
     }
   `;
 
   try {
-    // Check if token is available
-    if (!LIVE_TOKEN) {
-      throw new Error('VITE_SITECORE_EDGE_TOKEN environment variable is not set. Please configure your Experience Edge API token.');
+    return await sendLiveQuery(client, query.trim(), liveContextId);
+  } catch (error) {
+    console.error(`Error querying live endpoint (${LIVE_DATA_SOURCE}):`, error);
+    return { error };
+  }
+};
+
+/**
+ * Query the live endpoint for the media URLs of media library items and check that Edge serves their files
+ * Results are keyed by normalized item ID with the blob state added; items that are not published are null
+ * Large ID lists are split into chunks (see batchItemQuery); failed chunks are reported in `failures`
+ * Results are cached per item for a minute (see cachedItemQuery)
+ * @param liveContextId - sitecoreContextId of the live environment (see getSitecoreContextIds)
+ */
+export const getMediaFromLive = async (
+  client: ClientSDK,
+  itemIds: string[],
+  liveContextId?: string,
+  language: string = 'en',
+  batchOptions?: BatchOptions
+): Promise<ItemQueryResult> => {
+  if (itemIds.length === 0) {
+    return { data: { data: {} } };
+  }
+
+  const scope = { contextId: liveContextId, language, variant: 'media' };
+  return cachedItemQuery('live', scope, itemIds, uncachedIds => batchItemQuery(
+    'live',
+    uncachedIds,
+    chunkIds => queryLiveMedia(client, chunkIds, liveContextId, language),
+    batchOptions
+  ));
+};
+
+/**
+ * Query a single chunk of media URLs from the live endpoint and check each file
+ */
+const queryLiveMedia = async (
+  client: ClientSDK,
+  itemIds: string[],
+  liveContextId: string | undefined,
+  language: string
+): Promise<ItemQueryResult> => {
+
+  const query = `
+    query GetLiveMedia {
+      ${itemIds.map((id, index) => `
+        item${index}: item(path: "{${formatGuidForLive(id)}}", language: "${language}") {
+          id
+          url {
+            url
+          }
+        }
+      `).join('')}
     }
+  `;
 
-    // Make direct HTTP call to Experience Edge endpoint instead of using SDK
-    const response = await fetch(LIVE_ENDPOINT, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'sc_apikey': LIVE_TOKEN
-      },
-      body: JSON.stringify({
-        query: query.trim()
-      })
-    });
+  try {
+    const result = await sendLiveQuery(client, query.trim(), liveContextId);
+    const mediaItems = result.data?.data as Record<string, LiveMediaResponse | null> | undefined;
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    if (mediaItems) {
+      await Promise.all(Object.entries(mediaItems).map(async ([alias, mediaItem]) => {
+        if (mediaItem) {
+          const edgeUrl = mediaItem.url?.url;
+          mediaItems[alias] = { ...mediaItem, blobState: edgeUrl ? await checkMediaBlob(edgeUrl) : 'missing' };
+        }
+      }));
     }
 
-    const result = await response.json();
-    
-    // Return in the same format as the SDK would
-    return { data: result };
+    return result;
   } catch (error) {
-    console.error('Error querying DIRECT live endpoint:', error);
+    console.error(`Error querying live media (${LIVE_DATA_SOURCE}):`, error);
     return { error };
   }
 };
 
 /**
  * Query the preview endpoint for multiple items
+ * Preview serves the latest indexed versions, so comparing it with authoring and live tells
+ * a stale preview index apart from content that was never published
+ * Large ID lists are split into chunks (see batchItemQuery); failed chunks are reported in `failures`
+ * Results are cached per item for a minute (see cachedItemQuery)
  */
 export const getItemsFromPreview = async (
   client: ClientSDK,
   itemIds: string[],
   sitecoreContextId?: string,
-  language: string = 'en'
+  language: string = 'en',
+  batchOptions?: BatchOptions
 ): Promise<ItemQueryResult> => {
   if (!client || itemIds.length === 0) {
     return { data: { data: {} } };
@@ -164,10 +553,27 @@ export const getItemsFromPreview = async (
     console.warn('sitecoreContextId not provided for preview GraphQL queries');
   }
 
+  return cachedItemQuery('preview', { contextId: sitecoreContextId, language }, itemIds, uncachedIds => batchItemQuery(
+    'preview',
+    uncachedIds,
+    chunkIds => queryPreviewItems(client, chunkIds, sitecoreContextId, language),
+    batchOptions
+  ));
+};
+
+/**
+ * Query a single chunk of items from the preview endpoint
+ */
+const queryPreviewItems = async (
+  client: ClientSDK,
+  itemIds: string[],
+  sitecoreContextId: string | undefined,
+  language: string
+): Promise<ItemQueryResult> => {
   const query = `
     query GetPreviewItems {
       ${itemIds.map((id, index) => `
-        item${index}: item(path: "${id}", language: "${language}") {
+        item${index}: item(path: "{${formatGuidForLive(id)}}", language: "${language}") {
           id
           name
           version
@@ -227,6 +633,254 @@ export const validateGraphQLResponse = (response: ItemQueryResult): {
   };
 };
 
+// Item fields selected for the parent and each child in getChildItemsFromAuthoring
+const CHILD_ITEM_SELECTION = `
+            itemId
+            name
+            path
+            hasChildren
+            template {
+              name
+            }
+            renderings: field(name: "__Renderings") {
+              value
+            }
+            finalRenderings: field(name: "__Final Renderings") {
+              value
+            }`;
+
+export interface ChildItemsPage {
+  /** The parent item itself, with its layout fields */
+  parent: AuthoringChildItemResponse;
+  children: AuthoringChildItemResponse[];
+  /** Cursor for the next page of children; undefined when there are no more */
+  nextCursor?: string;
+}
+
+/**
+ * Query an item and one page of its children on the authoring endpoint, with their layout fields
+ * Throws when the query fails or the parent item cannot be found
+ * @param after - Cursor returned by the previous call (nextCursor)
+ */
+export const getChildItemsFromAuthoring = async (
+  client: ClientSDK,
+  parentPath: string,
+  sitecoreContextId?: string,
+  language: string = 'en',
+  after?: string,
+  pageSize: number = 100
+): Promise<ChildItemsPage> => {
+  const query = `
+    query GetChildItems {
+      parent: item(where: {
+        database: "master"
+        path: ${JSON.stringify(parentPath)}
+        language: "${language}"
+      }) {
+        ${CHILD_ITEM_SELECTION}
+        children(first: ${pageSize}${after ? `, after: ${JSON.stringify(after)}` : ''}) {
+          nodes {
+            ${CHILD_ITEM_SELECTION}
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+  `;
+
+  const queryParams = sitecoreContextId ? { sitecoreContextId } : {};
+  const result = await client.mutate('xmc.authoring.graphql', {
+    params: {
+      query: queryParams,
+      body: {
+        query: query.trim()
+      }
+    }
+  });
+
+  const response = result as ItemQueryResult;
+  const parent = response.data?.data?.parent as (AuthoringChildItemResponse & {
+    children?: {
+      nodes?: AuthoringChildItemResponse[];
+      pageInfo?: { hasNextPage: boolean; endCursor?: string | null };
+    };
+  }) | null | undefined;
+
+  if (!parent) {
+    const message = (response.data?.errors?.[0] as { message?: string } | undefined)?.message;
+    throw new Error(message || `Item not found: ${parentPath}`);
+  }
+
+  const { children: connection, ...parentItem } = parent;
+  const { nodes = [], pageInfo } = connection || {};
+  return {
+    parent: parentItem,
+    children: nodes,
+    nextCursor: pageInfo?.hasNextPage && pageInfo.endCursor ? pageInfo.endCursor : undefined
+  };
+};
+
+/**
+ * Query the shared and final layout fields of a page on the authoring endpoint
+ * Not cached, since layout changes in the editor reload the page straight away
+ * @returns null when the query fails or the page cannot be found
+ */
+export const getPageLayoutFromAuthoring = async (
+  client: ClientSDK,
+  itemId: string,
+  sitecoreContextId?: string,
+  language: string = 'en'
+): Promise<PageLayoutFields | null> => {
+  const query = `
+    query GetPageLayout {
+      page: item(where: {
+        database: "master"
+        itemId: "${formatGuidWithHyphens(itemId)}"
+        language: "${language}"
+      }) {
+        renderings: field(name: "__Renderings") {
+          value
+        }
+        finalRenderings: field(name: "__Final Renderings") {
+          value
+        }
+      }
+    }
+  `;
+
+  try {
+    const queryParams = sitecoreContextId ? { sitecoreContextId } : {};
+    const result = await client.mutate('xmc.authoring.graphql', {
+      params: {
+        query: queryParams,
+        body: {
+          query: query.trim()
+        }
+      }
+    });
+
+    const page = (result as ItemQueryResult).data?.data?.page as PageLayoutFields | null | undefined;
+    return page || null;
+  } catch (error) {
+    console.error('Error querying page layout:', error);
+    return null;
+  }
+};
+
+/**
+ * Query what decides the page design of a page: the page's Page Design field and template,
+ * and the TemplatesMapping of the site's Presentation/Page Designs item
+ * @returns null when the query fails
+ */
+export const getPageDesignLookupFromAuthoring = async (
+  client: ClientSDK,
+  itemId: string,
+  siteRootPath: string,
+  sitecoreContextId?: string,
+  language: string = 'en'
+): Promise<PageDesignLookupResponse | null> => {
+  const query = `
+    query GetPageDesignLookup {
+      page: item(where: {
+        database: "master"
+        itemId: "${formatGuidWithHyphens(itemId)}"
+        language: "${language}"
+      }) {
+        template {
+          templateId
+        }
+        pageDesign: field(name: "Page Design") {
+          value
+        }
+      }
+      pageDesigns: item(where: {
+        database: "master"
+        path: ${JSON.stringify(`${siteRootPath}/Presentation/Page Designs`)}
+        language: "${language}"
+      }) {
+        templatesMapping: field(name: "TemplatesMapping") {
+          value
+        }
+      }
+    }
+  `;
+
+  try {
+    const queryParams = sitecoreContextId ? { sitecoreContextId } : {};
+    const result = await client.mutate('xmc.authoring.graphql', {
+      params: {
+        query: queryParams,
+        body: {
+          query: query.trim()
+        }
+      }
+    });
+
+    return ((result as ItemQueryResult).data?.data || null) as PageDesignLookupResponse | null;
+  } catch (error) {
+    console.error('Error querying page design:', error);
+    return null;
+  }
+};
+
+/**
+ * Query page design and partial design items with their partial design and layout fields
+ * Large ID lists are split into chunks (see batchItemQuery); failed chunks are reported in `failures`
+ */
+export const getDesignItemsFromAuthoring = async (
+  client: ClientSDK,
+  itemIds: string[],
+  sitecoreContextId?: string,
+  language: string = 'en'
+): Promise<ItemQueryResult> => {
+  if (!client || itemIds.length === 0) {
+    return { data: { data: {} } };
+  }
+
+  return batchItemQuery('authoring', itemIds, async chunkIds => {
+    const query = `
+      query GetDesignItems {
+        ${chunkIds.map((id, index) => `
+          item${index}: item(where: {
+            database: "master"
+            itemId: "${formatGuidWithHyphens(id)}"
+            language: "${language}"
+          }) {
+            itemId
+            name
+            path
+            partialDesigns: field(name: "PartialDesigns") {
+              value
+            }
+            basePartialDesign: field(name: "Base Partial Design") {
+              value
+            }
+            renderings: field(name: "__Renderings") {
+              value
+            }
+            finalRenderings: field(name: "__Final Renderings") {
+              value
+            }
+          }
+        `).join('')}
+      }
+    `;
+
+    const queryParams = sitecoreContextId ? { sitecoreContextId } : {};
+    return client.mutate('xmc.authoring.graphql', {
+      params: {
+        query: queryParams,
+        body: {
+          query: query.trim()
+        }
+      }
+    });
+  });
+};
+
 /**
  * Resolve local datasource paths to item IDs using GraphQL
  * @param client - Marketplace SDK client
@@ -246,6 +900,41 @@ export const resolveLocalDatasourcePaths = async (
     return {};
   }
 
+  // Only paths that resolved are cached; unresolved ones are tried again every time
+  const getKey = (localPath: string) => [sitecoreContextId, language, basePath, localPath].join('|');
+  const cachedItems: Record<string, string | null> = {};
+  const uncachedPaths = localPaths.filter(localPath => {
+    const cached = resolvedPathCache.get(getKey(localPath));
+    if (cached) {
+      cachedItems[localPath] = cached.value;
+    }
+    return !cached;
+  });
+
+  if (uncachedPaths.length === 0) {
+    return cachedItems;
+  }
+
+  const resolvedItems = await queryLocalDatasourcePaths(client, uncachedPaths, basePath, sitecoreContextId, language);
+  Object.entries(resolvedItems).forEach(([localPath, itemId]) => {
+    if (itemId) {
+      resolvedPathCache.set(getKey(localPath), itemId);
+    }
+  });
+
+  return { ...cachedItems, ...resolvedItems };
+};
+
+/**
+ * Query the authoring endpoint for local datasource paths, trying each path strategy in turn
+ */
+const queryLocalDatasourcePaths = async (
+  client: ClientSDK,
+  localPaths: string[],
+  basePath: string,
+  sitecoreContextId: string,
+  language: string
+): Promise<Record<string, string | null>> => {
   // Try multiple path construction strategies for local datasources
   const pathStrategies = [
     // Strategy 1: Direct under current path
@@ -261,7 +950,7 @@ export const resolveLocalDatasourcePaths = async (
     }
   ];
 
-  let resolvedItems: Record<string, string | null> = {};
+  const resolvedItems: Record<string, string | null> = {};
   
   // Try each strategy until we find the items
   for (let strategyIndex = 0; strategyIndex < pathStrategies.length; strategyIndex++) {
@@ -319,8 +1008,17 @@ export const resolveLocalDatasourcePaths = async (
       }
 
       // If we found some items, keep track but continue trying
+      // (without losing items an earlier strategy already resolved)
       if (foundItems > 0) {
-        resolvedItems = { ...resolvedItems, ...result };
+        Object.entries(result).forEach(([localPath, itemId]) => {
+          if (itemId || !resolvedItems[localPath]) {
+            resolvedItems[localPath] = itemId;
+          }
+        });
+
+        if (localPaths.every(localPath => resolvedItems[localPath])) {
+          return resolvedItems;
+        }
       }
 
     } catch (error) {
@@ -330,4 +1028,117 @@ export const resolveLocalDatasourcePaths = async (
 
   // Return the best result we found (may have some nulls)
   return resolvedItems;
+};
+
+/**
+ * Start publish jobs for multiple items using the authoring publishItem mutation
+ * @returns Object mapping item IDs to publishing operation IDs (null if the job could not be started)
+ */
+export const publishItems = async (
+  client: ClientSDK,
+  itemIds: string[],
+  options: PublishOptions,
+  sitecoreContextId?: string
+): Promise<Record<string, string | null>> => {
+  if (!client || itemIds.length === 0) {
+    return {};
+  }
+
+  const languages = options.languages.map(language => `"${language}"`).join(', ');
+  const targetDatabases = options.targetDatabases.map(target => `"${target}"`).join(', ');
+
+  const mutation = `
+    mutation PublishItems {
+      ${itemIds.map((id, index) => `
+        publish${index}: publishItem(input: {
+          rootItemId: "${formatGuidWithHyphens(id)}"
+          languages: [${languages}]
+          targetDatabases: [${targetDatabases}]
+          publishItemMode: ${options.publishItemMode}
+          publishSubItems: ${options.publishSubItems}
+          publishRelatedItems: ${options.publishRelatedItems}
+        }) {
+          operationId
+        }
+      `).join('')}
+    }
+  `;
+
+  const queryParams = sitecoreContextId ? { sitecoreContextId } : {};
+  const response = await client.mutate('xmc.authoring.graphql', {
+    params: {
+      query: queryParams,
+      body: {
+        query: mutation.trim()
+      }
+    }
+  });
+
+  const responseData = response?.data?.data as Record<string, { operationId?: string } | null> | undefined;
+  const errors = response?.data?.errors as Array<{ message?: string }> | undefined;
+
+  if (!responseData) {
+    const message = errors?.map(error => error.message).join('; ') || 'No data returned from publishItem mutation';
+    throw new Error(message);
+  }
+
+  const result: Record<string, string | null> = {};
+  itemIds.forEach((id, index) => {
+    result[id] = responseData[`publish${index}`]?.operationId || null;
+  });
+
+  return result;
+};
+
+/**
+ * Query the status of multiple publishing operations
+ * @returns Object mapping operation IDs to their status (null if the status could not be read)
+ */
+export const getPublishingStatus = async (
+  client: ClientSDK,
+  operationIds: string[],
+  sitecoreContextId?: string
+): Promise<Record<string, PublishingStatusResponse | null>> => {
+  if (!client || operationIds.length === 0) {
+    return {};
+  }
+
+  const query = `
+    query GetPublishingStatus {
+      ${operationIds.map((operationId, index) => `
+        status${index}: publishingStatus(publishingOperationId: "${operationId}") {
+          isDone
+          isFailed
+          processed
+          state
+        }
+      `).join('')}
+    }
+  `;
+
+  const result: Record<string, PublishingStatusResponse | null> = {};
+
+  try {
+    const queryParams = sitecoreContextId ? { sitecoreContextId } : {};
+    const response = await client.mutate('xmc.authoring.graphql', {
+      params: {
+        query: queryParams,
+        body: {
+          query: query.trim()
+        }
+      }
+    });
+
+    const responseData = response?.data?.data as Record<string, PublishingStatusResponse | null> | undefined;
+    operationIds.forEach((operationId, index) => {
+      result[operationId] = responseData?.[`status${index}`] || null;
+    });
+  } catch (error) {
+    console.error('Error querying publishing status:', error);
+    operationIds.forEach(operationId => {
+      result[operationId] = null;
+    });
+  }
+
+  return result;
 };
\ No newline at end of file
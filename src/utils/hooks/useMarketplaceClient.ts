@@ -36,6 +36,12 @@ const DEFAULT_OPTIONS: Required<UseMarketplaceClientOptions> = {
 
 let client: ClientSDK | undefined = undefined;
 
+/**
+ * Whether the app is running inside the local mock host (mock-host.html, dev server only)
+ */
+const isMockHost = () =>
+  import.meta.env.DEV && new URLSearchParams(window.location.search).has('mockHost');
+
 async function getMarketplaceClient() {
   if (client) {
     return client;
@@ -51,6 +57,8 @@ async function getMarketplaceClient() {
   const config = {
     target: window.parent,
     modules: [XMC], // add the module
+    // The SDK only accepts Sitecore Cloud origins during the handshake unless the host origin is given
+    ...(isMockHost() ? { origin: window.location.origin } : {}),
   };
   client = await ClientSDK.init(config);
   return client;
@@ -0,0 +1,110 @@
+// utils/itemFilters.test.ts
+import { describe, expect, it } from 'vitest';
+import { filterItems, getFilterOptions, hasActiveFilters, matchesSearch, sortItems } from './itemFilters';
+import { generateSummary } from './dataProcessing';
+import type { ProcessedItemInfo } from '../types/itemInformation';
+
+const PROMO_ID = '22222222-2222-4222-8222-222222222222';
+
+const item = (id: string, name: string, overrides: Partial<ProcessedItemInfo> = {}): ProcessedItemInfo => ({
+  id,
+  name,
+  path: `/sitecore/content/Site/Home/Data/${name}`,
+  latestVersion: 1,
+  publishedVersion: 1,
+  isPublished: true,
+  isOutdated: false,
+  versionDifference: 0,
+  itemType: 'datasource',
+  ...overrides
+});
+
+const hero = item('11111111111141118111111111111111', 'Hero', { template: 'Hero' });
+const promo = item(PROMO_ID.replace(/-/g, ''), 'Promo 10', {
+  template: 'Promo',
+  latestVersion: 3,
+  publishedVersion: 1,
+  isOutdated: true,
+  versionDifference: 2
+});
+const card = item('33333333333343338333333333333333', 'Promo 9', {
+  itemType: 'link',
+  template: 'Card',
+  latestVersion: 2,
+  publishedVersion: null,
+  isPublished: false,
+  versionDifference: 2,
+  referencedBy: [{ id: PROMO_ID, name: 'Promo 10', displayName: 'Spring Promo', path: promo.path }],
+  isBlockedByWorkflow: true
+});
+const items = [hero, promo, card];
+
+describe('filterItems', () => {
+  it('filters by status using the summary badge rules', () => {
+    expect(filterItems(items, { status: 'up-to-date' })).toEqual([hero]);
+    expect(filterItems(items, { status: 'outdated' })).toEqual([promo]);
+    expect(filterItems(items, { status: 'not-published' })).toEqual([card]);
+    expect(filterItems(items, { status: 'awaiting-approval' })).toEqual([card]);
+  });
+
+  it('keeps items with an unknown status out of the published, outdated and not-published filters', () => {
+    const liveUnknown = item('44444444444444448444444444444444', 'Teaser', {
+      liveState: 'unavailable',
+      publishedVersion: null,
+      isPublished: false
+    });
+    const authoringUnknown = item('55555555555545558555555555555555', 'Banner', { authoringState: 'unavailable', latestVersion: 0 });
+    const withUnknown = [...items, liveUnknown, authoringUnknown];
+
+    expect(filterItems(withUnknown, { status: 'not-published' })).toEqual([card]);
+    expect(filterItems(withUnknown, { status: 'up-to-date' })).toEqual([hero]);
+    expect(filterItems(withUnknown, { status: 'status-unknown' })).toEqual([liveUnknown, authoringUnknown]);
+    expect(generateSummary(withUnknown)).toMatchObject({ publishedItems: 2, unpublishedItems: 1, unknownItems: 2 });
+  });
+
+  it('combines type, template and referencing parent filters', () => {
+    expect(filterItems(items, { itemType: 'datasource', template: 'Promo' })).toEqual([promo]);
+    expect(filterItems(items, { referencedBy: PROMO_ID.replace(/-/g, '') })).toEqual([card]);
+    expect(filterItems(items, { itemType: 'link', template: 'Hero' })).toEqual([]);
+  });
+
+  it('searches name, path and ID', () => {
+    expect(filterItems(items, { search: 'promo' })).toEqual([promo, card]);
+    expect(filterItems(items, { search: '/data/hero' })).toEqual([hero]);
+    expect(matchesSearch(promo, `{${PROMO_ID.toUpperCase()}}`)).toBe(true);
+    expect(matchesSearch(hero, '  ')).toBe(true);
+  });
+});
+
+describe('sortItems', () => {
+  it('keeps discovery order without a sort', () => {
+    expect(sortItems(items, null)).toBe(items);
+  });
+
+  it('sorts names naturally and versions numerically in both directions', () => {
+    expect(sortItems(items, { key: 'name', direction: 'asc' }).map(entry => entry.name)).toEqual(['Hero', 'Promo 9', 'Promo 10']);
+    expect(sortItems(items, { key: 'latestVersion', direction: 'desc' })).toEqual([promo, card, hero]);
+    expect(sortItems(items, { key: 'publishedVersion', direction: 'asc' })).toEqual([card, hero, promo]);
+  });
+
+  it('keeps discovery order for equal values', () => {
+    expect(sortItems(items, { key: 'versionDifference', direction: 'desc' })).toEqual([promo, card, hero]);
+  });
+});
+
+describe('getFilterOptions', () => {
+  it('lists the types, templates and referencing parents present', () => {
+    expect(getFilterOptions(items)).toEqual({
+      itemTypes: ['datasource', 'link'],
+      templates: ['Card', 'Hero', 'Promo'],
+      parents: [{ id: PROMO_ID.replace(/-/g, ''), name: 'Spring Promo' }]
+    });
+  });
+});
+
+describe('hasActiveFilters', () => {
+  it('ignores empty values and blank search text', () => {
+    expect(hasActiveFilters({ status: null, search: ' ' })).toBe(false);
+    expect(hasActiveFilters({ template: 'Hero' })).toBe(true);
+  });
+});
@@ -0,0 +1,166 @@
+// utils/itemFilters.ts
+import type { ItemType, ProcessedItemInfo } from '../types/itemInformation';
+import { formatGuidWithoutHyphens, getLinkIssues, isInPreviewOnly, isStatusUnknown } from './dataProcessing';
+import { isMediaBlobMissing } from './publishingStatus';
+
+/**
+ * Status quick filters; one per PublishingStatusSummary badge
+ */
+export type ItemStatusFilter =
+  | 'up-to-date'
+  | 'outdated'
+  | 'not-published'
+  | 'preview-only'
+  | 'restricted'
+  | 'awaiting-approval'
+  | 'broken-links'
+  | 'status-unknown';
+
+export type ItemSortKey = 'name' | 'path' | 'latestVersion' | 'publishedVersion' | 'versionDifference';
+
+export interface ItemSort {
+  key: ItemSortKey;
+  direction: 'asc' | 'desc';
+}
+
+export interface ItemFilters {
+  status?: ItemStatusFilter | null;
+  itemType?: ItemType | null;
+  template?: string | null;
+  /** Normalized ID of the item that references the listed items */
+  referencedBy?: string | null;
+  /** Free text matched against name, path and ID */
+  search?: string;
+}
+
+export interface ItemFilterOptions {
+  itemTypes: ItemType[];
+  templates: string[];
+  parents: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Whether an item falls under a status quick filter
+ * Uses the same rules as the counts on the PublishingStatusSummary badges
+ */
+export const matchesStatusFilter = (item: ProcessedItemInfo, status: ItemStatusFilter): boolean => {
+  switch (status) {
+    case 'up-to-date':
+      return item.isPublished && !item.isOutdated && !isMediaBlobMissing(item) && !isStatusUnknown(item);
+    case 'outdated':
+      return item.isOutdated && !isStatusUnknown(item);
+    case 'not-published':
+      return !item.isPublished && !isStatusUnknown(item);
+    case 'preview-only':
+      return isInPreviewOnly(item);
+    case 'restricted':
+      return !!item.restriction;
+    case 'awaiting-approval':
+      return !!item.isBlockedByWorkflow;
+    case 'broken-links':
+      return getLinkIssues(item).length > 0;
+    case 'status-unknown':
+      return isStatusUnknown(item);
+    default:
+      return true;
+  }
+};
+
+/**
+ * Whether an item's name, path or ID contains the search text
+ * IDs match with or without braces and hyphens
+ */
+export const matchesSearch = (item: ProcessedItemInfo, search: string): boolean => {
+  const text = search.trim().toLowerCase();
+  if (!text) {
+    return true;
+  }
+
+  const compactText = text.replace(/[{}-]/g, '');
+  return item.name.toLowerCase().includes(text) ||
+    item.path.toLowerCase().includes(text) ||
+    (!!compactText && formatGuidWithoutHyphens(item.id).toLowerCase().includes(compactText));
+};
+
+/**
+ * Keep the items that match every set filter
+ */
+export const filterItems = (items: ProcessedItemInfo[], filters: ItemFilters): ProcessedItemInfo[] => {
+  const { status, itemType, template, referencedBy, search = '' } = filters;
+
+  return items.filter(item =>
+    (!status || matchesStatusFilter(item, status)) &&
+    (!itemType || item.itemType === itemType) &&
+    (!template || item.template === template) &&
+    (!referencedBy || !!item.referencedBy?.some(ref => formatGuidWithoutHyphens(ref.id) === referencedBy)) &&
+    matchesSearch(item, search)
+  );
+};
+
+const getSortValue = (item: ProcessedItemInfo, key: ItemSortKey): string | number => {
+  switch (key) {
+    case 'name':
+      return item.name;
+    case 'path':
+      return item.path;
+    case 'latestVersion':
+      return item.latestVersion;
+    case 'publishedVersion':
+      // Unpublished items sort before version 1
+      return item.publishedVersion ?? 0;
+    case 'versionDifference':
+      return item.versionDifference;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Sort items by a column; items that compare equal keep their discovery order
+ */
+export const sortItems = (items: ProcessedItemInfo[], sort: ItemSort | null): ProcessedItemInfo[] => {
+  if (!sort) {
+    return items;
+  }
+
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return [...items].sort((a, b) => {
+    const valueA = getSortValue(a, sort.key);
+    const valueB = getSortValue(b, sort.key);
+    const comparison = typeof valueA === 'string' && typeof valueB === 'string'
+      ? valueA.localeCompare(valueB, undefined, { sensitivity: 'base', numeric: true })
+      : Number(valueA) - Number(valueB);
+    return comparison * factor;
+  });
+};
+
+/**
+ * Item types, templates and referencing parents present in a list, for the filter dropdowns
+ */
+export const getFilterOptions = (items: ProcessedItemInfo[]): ItemFilterOptions => {
+  const itemTypes = new Set<ItemType>();
+  const templates = new Set<string>();
+  const parents = new Map<string, string>();
+
+  items.forEach(item => {
+    itemTypes.add(item.itemType);
+    if (item.template) {
+      templates.add(item.template);
+    }
+    item.referencedBy?.forEach(ref => {
+      parents.set(formatGuidWithoutHyphens(ref.id), ref.displayName || ref.name);
+    });
+  });
+
+  return {
+    itemTypes: Array.from(itemTypes),
+    templates: Array.from(templates).sort((a, b) => a.localeCompare(b)),
+    parents: Array.from(parents, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name))
+  };
+};
+
+/**
+ * Whether any filter narrows the list
+ */
+export const hasActiveFilters = (filters: ItemFilters): boolean =>
+  !!(filters.status || filters.itemType || filters.template || filters.referencedBy || filters.search?.trim());
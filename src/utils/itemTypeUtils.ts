@@ -1,5 +1,5 @@
 // utils/itemTypeUtils.ts
-import type { ProcessedItemInfo } from '../types/itemInformation';
+import type { ItemProvenance, ItemSource, LinkIssue, ProcessedItemInfo, RenderingVariant } from '../types/itemInformation';
 
 /**
  * Get the color scheme for an item type badge
@@ -12,6 +12,8 @@ export const getItemTypeColor = (itemType: ProcessedItemInfo['itemType']): strin
       return 'purple';
     case 'link':
       return 'cyan';
+    case 'media':
+      return 'pink';
     case 'reference':
       return 'gray';
     default:
@@ -30,9 +32,103 @@ export const getItemTypeLabel = (type: ProcessedItemInfo['itemType']): string =>
       return 'Datasource';
     case 'link':
       return 'Link';
+    case 'media':
+      return 'Media';
     case 'reference':
       return 'Reference';
     default:
       return 'Unknown';
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Get a human-readable label for the place an item was discovered
+ */
+export const getItemSourceLabel = (source: ItemSource): string => {
+  switch (source) {
+    case 'rendering-datasource':
+      return 'Rendering datasource';
+    case 'local-datasource':
+      return 'Local datasource';
+    case 'link-field':
+      return 'Link';
+    case 'media-field':
+      return 'Media';
+    case 'field-reference':
+      return 'Field reference';
+    case 'page-design':
+      return 'Page design';
+    case 'partial-design-datasource':
+      return 'Partial design datasource';
+    default:
+      return 'Unknown';
+  }
+};
+
+/**
+ * Describe a personalization rule or test variant, e.g. 'Personalization rule "Returning visitors"'
+ */
+export const describeRenderingVariant = (variant: RenderingVariant): string =>
+  `${variant.kind === 'ab-test' ? 'A/B test variant' : 'Personalization rule'} "${variant.name}"`;
+
+/**
+ * Get the distinct personalization rules and test variants an item is used by
+ */
+export const getRenderingVariants = (provenance?: ItemProvenance[]): RenderingVariant[] => {
+  const variants = new Map<string, RenderingVariant>();
+  (provenance || []).forEach(entry => {
+    if (entry.variant) {
+      variants.set(`${entry.variant.kind}:${entry.variant.name}`, entry.variant);
+    }
+  });
+  return Array.from(variants.values());
+};
+
+/**
+ * Describe a single provenance entry, e.g. "Field reference in Items"
+ */
+export const describeProvenance = (provenance: ItemProvenance): string => {
+  const label = getItemSourceLabel(provenance.source);
+  const variant = provenance.variant ? ` for ${describeRenderingVariant(provenance.variant)}` : '';
+  const layer = provenance.layer ? ` (${provenance.layer} layout)` : '';
+
+  if (provenance.fieldName) {
+    return `${label} in ${provenance.fieldName}`;
+  }
+
+  // Local paths and design names are shown as they are
+  if (provenance.source !== 'rendering-datasource' && provenance.detail) {
+    return `${label} (${provenance.detail})${variant}${layer}`;
+  }
+
+  if (provenance.detail) {
+    return `${label} in placeholder ${provenance.detail}${variant}${layer}`;
+  }
+
+  return `${label}${variant}${layer}`;
+};
+
+/**
+ * Get a short label and an explanation for a link problem
+ */
+export const describeLinkIssue = (issue: LinkIssue): { label: string; description: string } => {
+  switch (issue) {
+    case 'deleted-target':
+      return {
+        label: 'Broken link',
+        description: 'The linked item no longer exists, so the link is broken.'
+      };
+    case 'unpublished-target':
+      return {
+        label: 'Links to unpublished item',
+        description: 'The linked item is not published, so the link will be broken on the live site until it is.'
+      };
+    case 'outside-site':
+      return {
+        label: 'Links outside site',
+        description: 'The linked item is outside the current site, so the link may resolve to another site or not at all.'
+      };
+    default:
+      return { label: 'Link issue', description: '' };
+  }
+};
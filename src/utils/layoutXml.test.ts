@@ -0,0 +1,100 @@
+// utils/layoutXml.test.ts
+import { describe, expect, it } from 'vitest';
+import { combineLayouts, getPageLayout, hasLayout, parseLayoutXml } from './layoutXml';
+
+const DEVICE = '{FE5D7FDF-89C0-4D99-9AA3-B5FBD009C9F3}';
+
+const sharedXml = `<r xmlns:xsd="http://www.w3.org/2001/XMLSchema"><d id="${DEVICE}" l="{1}">` +
+  '<r uid="{A}" id="{R1}" ph="headless-main" ds="{11111111-1111-4111-8111-111111111111}" />' +
+  '<r uid="{B}" id="{R2}" ph="headless-main" ds="local:/Data/Text 1" />' +
+  '</d></r>';
+
+const finalXml = `<r xmlns:p="p" xmlns:s="s" p:p="1"><d id="${DEVICE.toLowerCase()}">` +
+  '<r uid="{B}" s:ds="{22222222-2222-4222-8222-222222222222}" />' +
+  '<r uid="{C}" p:after="r[@uid=\'{B}\']" s:id="{R3}" s:ph="headless-footer" s:ds="{33333333-3333-4333-8333-333333333333}" />' +
+  '</d></r>';
+
+describe('parseLayoutXml', () => {
+  it('reads renderings with plain and s: prefixed attributes', () => {
+    expect(parseLayoutXml(sharedXml).devices[0].renderings[1]).toEqual({
+      uid: '{B}',
+      id: '{R2}',
+      placeholderKey: 'headless-main',
+      dataSource: 'local:/Data/Text 1'
+    });
+    expect(parseLayoutXml(finalXml).devices[0].renderings[1]).toMatchObject({
+      id: '{R3}',
+      placeholderKey: 'headless-footer'
+    });
+  });
+
+  it('returns no devices for empty or malformed values', () => {
+    expect(parseLayoutXml('')).toEqual({ devices: [] });
+    expect(parseLayoutXml(null)).toEqual({ devices: [] });
+    expect(parseLayoutXml('<r><d>')).toEqual({ devices: [] });
+  });
+});
+
+const personalizedXml = `<r xmlns:s="s"><d id="${DEVICE}">` +
+  '<r uid="{A}" s:id="{R1}" s:ph="headless-main" s:ds="{11111111-1111-4111-8111-111111111111}"><rls><ruleset>' +
+  '<rule uid="{00000000-0000-0000-0000-000000000000}" s:name="Default"><conditions /><actions /></rule>' +
+  '<rule uid="{D}" s:name="Returning visitors"><conditions><condition uid="{E}" s:id="{F}" /></conditions>' +
+  '<actions><action uid="{G}" s:id="{H}" s:DataSource="{44444444-4444-4444-8444-444444444444}" /></actions></rule>' +
+  '</ruleset></rls></r>' +
+  '</d></r>';
+
+describe('parseLayoutXml personalization', () => {
+  it('reads the rules that set a datasource and keeps them when combining layouts', () => {
+    const rules = [{ uid: '{D}', name: 'Returning visitors', dataSource: '{44444444-4444-4444-8444-444444444444}' }];
+
+    expect(parseLayoutXml(personalizedXml).devices[0].renderings[0].rules).toEqual(rules);
+    expect(parseLayoutXml(sharedXml).devices[0].renderings[0].rules).toBeUndefined();
+    expect(combineLayouts(parseLayoutXml(sharedXml), parseLayoutXml(personalizedXml)).devices[0].renderings[0]).toMatchObject({
+      dataSource: '{11111111-1111-4111-8111-111111111111}',
+      rules
+    });
+  });
+});
+
+describe('combineLayouts', () => {
+  it('applies final layout changes to the shared renderings by uid', () => {
+    const combined = combineLayouts(parseLayoutXml(sharedXml), parseLayoutXml(finalXml));
+
+    expect(combined.devices).toHaveLength(1);
+    expect(combined.devices[0].renderings.map(rendering => rendering.dataSource)).toEqual([
+      '{11111111-1111-4111-8111-111111111111}',
+      '{22222222-2222-4222-8222-222222222222}',
+      '{33333333-3333-4333-8333-333333333333}'
+    ]);
+    expect(combined.devices[0].renderings[1].placeholderKey).toBe('headless-main');
+    expect(combined.devices[0].renderings.map(rendering => rendering.layer)).toEqual(['shared', 'final', 'final']);
+  });
+
+  it('drops removed renderings and moves renderings placed before or after another', () => {
+    const deltas = `<r xmlns:p="p" xmlns:s="s" p:p="1"><d id="${DEVICE}">` +
+      '<r uid="{A}" p:d="1" />' +
+      '<r uid="{B}" p:before="*" />' +
+      '<r uid="{C}" p:before="r[@uid=\'{B}\']" s:ph="headless-main" s:ds="{33333333-3333-4333-8333-333333333333}" />' +
+      '</d></r>';
+    const combined = combineLayouts(parseLayoutXml(sharedXml), parseLayoutXml(deltas));
+
+    expect(combined.devices[0].renderings.map(({ uid, layer }) => ({ uid, layer }))).toEqual([
+      { uid: '{C}', layer: 'final' },
+      { uid: '{B}', layer: 'shared' }
+    ]);
+  });
+
+  it('clears the shared datasource when the final layout sets an empty one', () => {
+    const deltas = `<r xmlns:p="p" xmlns:s="s" p:p="1"><d id="${DEVICE}"><r uid="{A}" s:ds="" /></d></r>`;
+    const combined = combineLayouts(parseLayoutXml(sharedXml), parseLayoutXml(deltas));
+
+    expect(combined.devices[0].renderings[0]).toMatchObject({ uid: '{A}', id: '{R1}', dataSource: '', layer: 'final' });
+    expect(combined.devices[0].renderings[1].dataSource).toBe('local:/Data/Text 1');
+  });
+
+  it('reads the layout fields of a page', () => {
+    expect(hasLayout({ renderings: { value: ' ' }, finalRenderings: null })).toBe(false);
+    expect(hasLayout({ finalRenderings: { value: finalXml } })).toBe(true);
+    expect(getPageLayout({ renderings: { value: sharedXml } }).devices[0].renderings).toHaveLength(2);
+  });
+});
@@ -0,0 +1,203 @@
+// utils/layoutXml.ts
+import type { LayoutLayer, PageLayoutFields } from '../types/itemInformation';
+
+/**
+ * A rendering read from a layout field
+ */
+export interface LayoutRendering {
+  /** Rendering instance ID (uid attribute) */
+  uid: string;
+  /** Rendering definition item ID */
+  id?: string;
+  placeholderKey?: string;
+  dataSource?: string;
+  /** Personalization rules that set a datasource of their own */
+  rules?: LayoutRule[];
+  /** Layer the datasource is set in; only set on renderings returned by combineLayouts */
+  layer?: LayoutLayer;
+  /** Final layout deltas only: the rendering is removed from the shared layout (p:d) */
+  removed?: boolean;
+  /** Final layout deltas only: uid of the rendering this one is placed before, or * for the first position */
+  before?: string;
+  /** Final layout deltas only: uid of the rendering this one is placed after */
+  after?: string;
+}
+
+/**
+ * A personalization rule of a rendering (rls/ruleset/rule element)
+ */
+export interface LayoutRule {
+  uid: string;
+  name: string;
+  dataSource?: string;
+}
+
+export interface LayoutDevice {
+  id: string;
+  renderings: LayoutRendering[];
+}
+
+/**
+ * Presentation details in the same shape pages.context provides them
+ */
+export interface LayoutDetails {
+  devices: LayoutDevice[];
+}
+
+/**
+ * Read an attribute that may be written with or without the s: prefix
+ * Shared layout (__Renderings) uses plain attributes, final layout deltas (__Final Renderings) prefix them.
+ * An attribute that is present but empty returns '', so a delta can clear a shared value.
+ */
+const readAttribute = (element: Element, name: string): string | undefined => {
+  const attribute = [name, `s:${name}`].find(candidate => element.hasAttribute(candidate));
+  return attribute ? element.getAttribute(attribute) ?? undefined : undefined;
+};
+
+/**
+ * Read the rendering uid from a delta position such as r[@uid='{B}'], keeping * as is
+ */
+const readPosition = (element: Element, name: string): string | undefined => {
+  const value = element.getAttribute(`p:${name}`);
+  if (!value) {
+    return undefined;
+  }
+  return value === '*' ? value : /@uid='([^']+)'/.exec(value)?.[1];
+};
+
+/**
+ * Read the personalization rules of a rendering that change its datasource
+ * The datasource is set by a rule action; rules without one (such as the default rule) are left out
+ */
+const parseRules = (rendering: Element): LayoutRule[] | undefined => {
+  const rules = Array.from(rendering.getElementsByTagName('rule'))
+    .map(rule => ({
+      uid: rule.getAttribute('uid') || '',
+      name: readAttribute(rule, 'name') || '',
+      dataSource: Array.from(rule.getElementsByTagName('action'))
+        .map(action => readAttribute(action, 'DataSource'))
+        .find(Boolean)
+    }))
+    .filter(rule => rule.dataSource);
+
+  return rules.length > 0 ? rules : undefined;
+};
+
+/**
+ * Parse a __Renderings or __Final Renderings field value into presentation details
+ * Returns no devices when the value is empty or not valid XML
+ */
+export const parseLayoutXml = (xml: string | null | undefined): LayoutDetails => {
+  if (!xml || !xml.trim()) {
+    return { devices: [] };
+  }
+
+  const document = new DOMParser().parseFromString(xml, 'text/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    console.warn('Error parsing layout XML');
+    return { devices: [] };
+  }
+
+  const devices = Array.from(document.getElementsByTagName('d')).map(device => ({
+    id: device.getAttribute('id') || '',
+    renderings: Array.from(device.getElementsByTagName('r')).map(rendering => {
+      const rules = parseRules(rendering);
+      const before = readPosition(rendering, 'before');
+      const after = readPosition(rendering, 'after');
+      return {
+        uid: rendering.getAttribute('uid') || '',
+        id: readAttribute(rendering, 'id'),
+        placeholderKey: readAttribute(rendering, 'ph'),
+        dataSource: readAttribute(rendering, 'ds'),
+        ...(rules && { rules }),
+        ...(rendering.getAttribute('p:d') === '1' && { removed: true }),
+        ...(before && { before }),
+        ...(after && { after })
+      };
+    })
+  }));
+
+  return { devices };
+};
+
+/**
+ * Combine the shared and final layout of a page into one set of presentation details
+ * Final layout deltas are applied per device by rendering uid: removed renderings are dropped,
+ * changed values win over the shared ones (an empty ds clears the datasource), and added or moved
+ * renderings are placed before or after the rendering they name. Each rendering records the layer its datasource is set in.
+ */
+export const combineLayouts = (shared: LayoutDetails, final: LayoutDetails): LayoutDetails => {
+  const devices = new Map<string, LayoutRendering[]>();
+
+  shared.devices.forEach(device => {
+    const deviceId = device.id.toUpperCase();
+    const renderings = devices.get(deviceId) || [];
+    device.renderings.forEach(rendering => {
+      renderings.push({
+        uid: rendering.uid,
+        id: rendering.id,
+        placeholderKey: rendering.placeholderKey,
+        dataSource: rendering.dataSource,
+        rules: rendering.rules,
+        layer: 'shared'
+      });
+    });
+    devices.set(deviceId, renderings);
+  });
+
+  final.devices.forEach(device => {
+    const deviceId = device.id.toUpperCase();
+    const renderings = devices.get(deviceId) || [];
+    device.renderings.forEach(rendering => {
+      // Renderings without a uid cannot be matched and are added as they are
+      const index = rendering.uid ? renderings.findIndex(existing => existing.uid === rendering.uid) : -1;
+      const existing = index >= 0 ? renderings[index] : undefined;
+      if (existing) {
+        renderings.splice(index, 1);
+      }
+      if (rendering.removed) {
+        return;
+      }
+
+      const combined: LayoutRendering = {
+        uid: rendering.uid,
+        id: rendering.id || existing?.id,
+        placeholderKey: rendering.placeholderKey || existing?.placeholderKey,
+        dataSource: rendering.dataSource ?? existing?.dataSource,
+        rules: rendering.rules ?? existing?.rules,
+        layer: existing && rendering.dataSource === undefined ? existing.layer : 'final'
+      };
+
+      // Renderings that are not repositioned keep their place; new ones go last
+      let position = existing ? index : renderings.length;
+      if (rendering.before === '*') {
+        position = 0;
+      } else if (rendering.before || rendering.after) {
+        const anchor = renderings.findIndex(other => other.uid === (rendering.before || rendering.after));
+        if (anchor >= 0) {
+          position = rendering.before ? anchor : anchor + 1;
+        }
+      }
+      renderings.splice(position, 0, combined);
+    });
+    devices.set(deviceId, renderings);
+  });
+
+  return {
+    devices: Array.from(devices.entries()).map(([id, renderings]) => ({ id, renderings }))
+  };
+};
+
+/**
+ * Whether an item has presentation details of its own
+ */
+export const hasLayout = (item: PageLayoutFields): boolean => {
+  return !!(item.renderings?.value?.trim() || item.finalRenderings?.value?.trim());
+};
+
+/**
+ * Presentation details of a page from its shared and final layout fields
+ */
+export const getPageLayout = (item: PageLayoutFields): LayoutDetails => {
+  return combineLayouts(parseLayoutXml(item.renderings?.value), parseLayoutXml(item.finalRenderings?.value));
+};
@@ -0,0 +1,63 @@
+// utils/mediaItems.test.ts
+import { describe, expect, it } from 'vitest';
+import { extractMediaInfo, formatFileSize, isImageMedia, isMediaLibraryPath } from './mediaItems';
+import type { AuthoringItemResponse } from '../types/itemInformation';
+
+const mediaItem = (path: string, fields: Record<string, string>): AuthoringItemResponse => ({
+  itemId: 'a1b2c3d4-0010-4000-8000-000000000010',
+  name: 'hero',
+  path,
+  version: 1,
+  fields: { nodes: Object.entries(fields).map(([name, value]) => ({ name, value })) }
+});
+
+describe('extractMediaInfo', () => {
+  it('reads the file details of media library items', () => {
+    const media = extractMediaInfo(mediaItem('/sitecore/media library/Project/hero', {
+      Blob: '{0F1E2D3C-4B5A-4978-8695-A4B3C2D1E0F9}',
+      Extension: 'png',
+      'Mime Type': 'image/png',
+      Size: '1536',
+      Width: '1200',
+      Height: 'n/a',
+      Alt: 'Hero'
+    }), 'found');
+
+    expect(media).toEqual({
+      extension: 'png',
+      mimeType: 'image/png',
+      size: 1536,
+      width: 1200,
+      height: undefined,
+      alt: 'Hero',
+      hasBlob: true,
+      blobState: undefined
+    });
+  });
+
+  it('marks files of unpublished media items and ignores items outside the media library', () => {
+    expect(extractMediaInfo(mediaItem('/sitecore/Media Library/doc', { Blob: '{X}' }), 'not-found'))
+      .toMatchObject({ hasBlob: true, blobState: 'not-published' });
+    expect(extractMediaInfo(mediaItem('/sitecore/media library/Folder', {}), 'not-found'))
+      .toMatchObject({ hasBlob: false, blobState: undefined });
+    expect(extractMediaInfo(mediaItem('/sitecore/content/Home', { Blob: '{X}' }))).toBeUndefined();
+    expect(isMediaLibraryPath(undefined)).toBe(false);
+  });
+});
+
+describe('formatFileSize', () => {
+  it('uses the largest unit that keeps the number readable', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(1536)).toBe('1.5 KB');
+    expect(formatFileSize(25 * 1024 * 1024)).toBe('25 MB');
+    expect(formatFileSize(undefined)).toBe('');
+  });
+});
+
+describe('isImageMedia', () => {
+  it('recognizes images by MIME type or extension', () => {
+    expect(isImageMedia({ hasBlob: true, mimeType: 'image/svg+xml' })).toBe(true);
+    expect(isImageMedia({ hasBlob: true, extension: 'JPG' })).toBe(true);
+    expect(isImageMedia({ hasBlob: true, extension: 'pdf', mimeType: 'application/pdf' })).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+// utils/mediaItems.ts
+import type {
+  AuthoringItemResponse,
+  ItemLookupState,
+  MediaBlobState,
+  MediaInfo
+} from '../types/itemInformation';
+
+const MEDIA_LIBRARY_PATH = '/sitecore/media library/';
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'bmp', 'avif'];
+
+/**
+ * Whether an item path is inside the media library
+ */
+export const isMediaLibraryPath = (path?: string): boolean =>
+  !!path && path.toLowerCase().startsWith(MEDIA_LIBRARY_PATH);
+
+const parseNumber = (value?: string): number | undefined => {
+  const parsed = Number.parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+/**
+ * Read the file details of a media library item from its authoring fields
+ * The blob state is only known here when the item is not published; published items
+ * are checked against Experience Edge later (see checkMediaBlob)
+ * @returns undefined for items outside the media library
+ */
+export const extractMediaInfo = (
+  authoringItem?: AuthoringItemResponse,
+  liveState?: ItemLookupState
+): MediaInfo | undefined => {
+  if (!authoringItem || !isMediaLibraryPath(authoringItem.path)) {
+    return undefined;
+  }
+
+  const fields = new Map((authoringItem.fields?.nodes || []).map(field => [field.name, field.value]));
+  const hasBlob = !!fields.get('Blob');
+
+  return {
+    extension: fields.get('Extension') || undefined,
+    mimeType: fields.get('Mime Type') || undefined,
+    size: parseNumber(fields.get('Size')),
+    width: parseNumber(fields.get('Width')),
+    height: parseNumber(fields.get('Height')),
+    alt: fields.get('Alt') || undefined,
+    hasBlob,
+    blobState: hasBlob && liveState === 'not-found' ? 'not-published' : undefined
+  };
+};
+
+/**
+ * Whether the media file can be shown as a thumbnail
+ */
+export const isImageMedia = (media: MediaInfo): boolean =>
+  !!media.mimeType?.startsWith('image/') || IMAGE_EXTENSIONS.includes((media.extension || '').toLowerCase());
+
+/**
+ * Format a file size in bytes, e.g. 1536 → "1.5 KB"
+ */
+export const formatFileSize = (bytes?: number): string => {
+  if (bytes === undefined) {
+    return '';
+  }
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size >= 10 ? Math.round(size) : Math.round(size * 10) / 10} ${units[unit]}`;
+};
+
+/**
+ * Check whether Experience Edge serves the file behind a media URL
+ * Requests the headers only; a blocked or failed request leaves the state unknown
+ */
+export const checkMediaBlob = async (edgeUrl: string): Promise<MediaBlobState> => {
+  try {
+    const response = await fetch(edgeUrl, { method: 'HEAD' });
+    if (response.ok) {
+      return 'published';
+    }
+    return response.status === 404 || response.status === 410 ? 'missing' : 'unknown';
+  } catch (error) {
+    console.warn('Error checking media file on Experience Edge:', error);
+    return 'unknown';
+  }
+};
+
+/**
+ * Explain the blob state of a media item for tooltips and reports
+ */
+export const describeMediaBlobState = (media: MediaInfo): string => {
+  if (!media.hasBlob) {
+    return 'No file is attached to this media item.';
+  }
+
+  switch (media.blobState) {
+    case 'published':
+      return 'The file is served by Experience Edge.';
+    case 'missing':
+      return 'The media item is published but Experience Edge does not serve its file. Republish the media item.';
+    case 'not-published':
+      return 'The media item and its file have not been published.';
+    case 'unknown':
+      return 'The file on Experience Edge could not be checked.';
+    default:
+      return 'The file has not been checked on Experience Edge.';
+  }
+};
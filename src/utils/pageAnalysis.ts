@@ -0,0 +1,244 @@
+// utils/pageAnalysis.ts
+import { ClientSDK } from '@sitecore-marketplace-sdk/client';
+import type {
+  AuthoringItemResponse,
+  ChunkFailure,
+  LiveMediaResponse,
+  ProcessedItemInfo
+} from '../types/itemInformation';
+import {
+  getItemsFromAuthoring,
+  getItemsFromLive,
+  getItemsFromPreview,
+  getMediaFromLive,
+  getPageLayoutFromAuthoring,
+  resolveLocalDatasourcePaths
+} from './graphqlQueries';
+import {
+  addItemProvenance,
+  extractItemIdsWithLocalPaths,
+  formatGuidWithoutHyphens,
+  getSiteRootPath,
+  markLinksOutsideSite,
+  processItemData
+} from './dataProcessing';
+import type { ExtractedItemInfo } from './dataProcessing';
+import { getPageLayout, hasLayout } from './layoutXml';
+import { DEFAULT_MAX_REFERENCE_DEPTH, traverseReferences } from './referenceTraversal';
+
+export interface PageAnalysisOptions {
+  /** Context ID for authoring and preview queries */
+  sitecoreContextId?: string;
+  /** Context ID for live queries */
+  liveContextId?: string;
+  /**
+   * Maximum number of hops to follow when traversing references in datasource fields
+   * @default 3
+   */
+  maxReferenceDepth?: number;
+  /** Root of the current site, for flagging links outside it; derived from the page path when not given */
+  siteRootPath?: string;
+}
+
+export interface PageAnalysisResult {
+  /** The page and everything it references, compared across authoring, preview and live */
+  items: ProcessedItemInfo[];
+  /** Whether references beyond maxReferenceDepth were not followed */
+  truncated: boolean;
+  /** Query chunks that failed while the rest of the data loaded */
+  failures: ChunkFailure[];
+}
+
+/**
+ * Extract the page's items from its shared and final layout fields
+ * pages.context gives the presentation details as one merged blob; reading both layers leaves out
+ * renderings removed in the final layout and records the layer of every datasource.
+ * Returns the given extraction when the layout fields cannot be read or are empty.
+ */
+export const extractLayeredPageItems = async (
+  client: ClientSDK,
+  pageContext: unknown,
+  extraction: ExtractedItemInfo,
+  sitecoreContextId?: string
+): Promise<ExtractedItemInfo> => {
+  const pageInfo = (pageContext as { pageInfo?: Record<string, unknown> } | null)?.pageInfo;
+  if (!pageInfo || extraction.itemIds.length === 0) {
+    return extraction;
+  }
+
+  const layoutFields = await getPageLayoutFromAuthoring(client, extraction.itemIds[0], sitecoreContextId, extraction.language);
+  if (!layoutFields || !hasLayout(layoutFields)) {
+    return extraction;
+  }
+
+  return extractItemIdsWithLocalPaths({
+    ...(pageContext as Record<string, unknown>),
+    pageInfo: { ...pageInfo, presentationDetails: getPageLayout(layoutFields) }
+  });
+};
+
+/**
+ * Add the Experience Edge media URL and file status to published media items
+ * Media items whose live media lookup failed get an unknown blob state
+ */
+export const addMediaStatus = async (
+  client: ClientSDK,
+  items: ProcessedItemInfo[],
+  liveContextId: string | undefined,
+  language: string
+): Promise<{ items: ProcessedItemInfo[]; failures: ChunkFailure[] }> => {
+  const publishedMediaIds = items
+    .filter(item => item.media?.hasBlob && item.liveState === 'found')
+    .map(item => item.id);
+  if (publishedMediaIds.length === 0) {
+    return { items, failures: [] };
+  }
+
+  const result = await getMediaFromLive(client, publishedMediaIds, liveContextId, language);
+  const mediaData = (result.error ? {} : result.data?.data || {}) as Record<string, LiveMediaResponse | null>;
+  const publishedMedia = new Set(publishedMediaIds);
+
+  return {
+    items: items.map(item => {
+      const key = formatGuidWithoutHyphens(item.id);
+      if (!item.media || !publishedMedia.has(item.id)) {
+        return item;
+      }
+
+      const mediaItem = mediaData[key];
+      return {
+        ...item,
+        media: {
+          ...item.media,
+          edgeUrl: mediaItem?.url?.url || undefined,
+          blobState: key in mediaData ? mediaItem?.blobState || 'missing' : 'unknown'
+        }
+      };
+    }),
+    failures: result.failures || []
+  };
+};
+
+/**
+ * Compare a page and the items it references across authoring, preview and live
+ * Resolves local datasource paths, queries all endpoints, follows references in datasource
+ * fields breadth-first and processes the merged results. The first item ID is the page itself.
+ */
+export const analyzePageItems = async (
+  client: ClientSDK,
+  extraction: ExtractedItemInfo,
+  {
+    sitecoreContextId,
+    liveContextId,
+    maxReferenceDepth = DEFAULT_MAX_REFERENCE_DEPTH,
+    siteRootPath = getSiteRootPath(extraction.currentPagePath)
+  }: PageAnalysisOptions = {}
+): Promise<PageAnalysisResult> => {
+  const { localPathsToResolve, currentPagePath, language, provenanceMap } = extraction;
+  const itemIds = [...extraction.itemIds];
+  const currentItemId = itemIds[0];
+
+  // Resolve local datasource paths to item IDs if needed
+  if (localPathsToResolve.length > 0 && sitecoreContextId) {
+    try {
+      const resolvedPaths = await resolveLocalDatasourcePaths(
+        client,
+        localPathsToResolve,
+        currentPagePath,
+        sitecoreContextId,
+        language
+      );
+
+      // Add resolved item IDs to the list
+      Object.entries(resolvedPaths).forEach(([localPath, resolvedId]) => {
+        if (!resolvedId) return;
+        const usages = extraction.localPathUsages?.get(localPath) || [{}];
+        usages.forEach(usage => {
+          addItemProvenance(provenanceMap, resolvedId, { source: 'local-datasource', detail: localPath, ...usage });
+        });
+        if (!itemIds.includes(resolvedId)) {
+          itemIds.push(resolvedId);
+        }
+      });
+    } catch (error) {
+      console.error('Error resolving local datasource paths:', error);
+    }
+  }
+
+  // Query all items (from context) for authoring, preview and live data
+  const [authoringResult, liveResult, previewResult] = await Promise.all([
+    getItemsFromAuthoring(client, itemIds, sitecoreContextId, language),
+    getItemsFromLive(client, itemIds, liveContextId, language),
+    getItemsFromPreview(client, itemIds, sitecoreContextId, language)
+  ]);
+
+  // Follow references in datasource fields (like FAQ items in multilists) breadth-first
+  const authoringData = (authoringResult?.data?.data || {}) as Record<string, AuthoringItemResponse | null>;
+  const rootItems = Object.values(authoringData).filter((item): item is AuthoringItemResponse => !!item);
+  const {
+    nestedItemIds,
+    nestedAuthoringItems,
+    referencedByMap,
+    missingLinkIds,
+    truncated,
+    failures: nestedAuthoringFailures
+  } = await traverseReferences(client, rootItems, itemIds, provenanceMap, {
+    maxDepth: maxReferenceDepth,
+    sitecoreContextId,
+    language
+  });
+
+  // Collect chunks that failed so the caller can still show everything that did load
+  const failures: ChunkFailure[] = [
+    ...(authoringResult.failures || []),
+    ...(liveResult.failures || []),
+    ...(previewResult.failures || []),
+    ...nestedAuthoringFailures
+  ];
+
+  // Query nested items for live and preview data and merge results; results are keyed by item ID
+  // Deleted link targets are listed too, so links to them show up as broken
+  const nestedQueryIds = [...nestedItemIds, ...missingLinkIds];
+  if (nestedQueryIds.length > 0) {
+    const [nestedLiveResult, nestedPreviewResult] = await Promise.all([
+      getItemsFromLive(client, nestedQueryIds, liveContextId, language),
+      getItemsFromPreview(client, nestedQueryIds, sitecoreContextId, language)
+    ]);
+    failures.push(...(nestedLiveResult.failures || []), ...(nestedPreviewResult.failures || []));
+
+    if (authoringResult?.data?.data) {
+      nestedAuthoringItems.forEach((item, index) => {
+        authoringData[formatGuidWithoutHyphens(nestedItemIds[index])] = item;
+      });
+      missingLinkIds.forEach(id => {
+        authoringData[formatGuidWithoutHyphens(id)] = null;
+      });
+    }
+
+    if (liveResult?.data?.data && nestedLiveResult?.data?.data) {
+      Object.assign(liveResult.data.data, nestedLiveResult.data.data);
+    }
+
+    if (previewResult?.data?.data && nestedPreviewResult?.data?.data) {
+      Object.assign(previewResult.data.data, nestedPreviewResult.data.data);
+    }
+
+    itemIds.push(...nestedQueryIds);
+  }
+
+  const processedItems = markLinksOutsideSite(processItemData(
+    authoringResult,
+    liveResult,
+    itemIds,
+    currentItemId,
+    referencedByMap,
+    provenanceMap,
+    previewResult
+  ), siteRootPath);
+
+  // Check that Edge serves the files of published media items
+  const { items, failures: mediaFailures } = await addMediaStatus(client, processedItems, liveContextId, language);
+  failures.push(...mediaFailures);
+
+  return { items, truncated, failures };
+};
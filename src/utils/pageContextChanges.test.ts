@@ -0,0 +1,28 @@
+// utils/pageContextChanges.test.ts
+import { describe, expect, it } from 'vitest';
+import { getPageContextChange, getPageContextSnapshot } from './pageContextChanges';
+import { homePageContext } from '../test/fixtures/pageContexts';
+
+const snapshotWith = (pageInfo: Record<string, unknown>) =>
+  getPageContextSnapshot({ ...homePageContext, pageInfo: { ...homePageContext.pageInfo, ...pageInfo } });
+
+describe('getPageContextChange', () => {
+  const home = getPageContextSnapshot(homePageContext);
+
+  it('treats another page or language as a page switch', () => {
+    expect(getPageContextChange(home, snapshotWith({ id: '{00000000-0000-4000-8000-000000000000}' }))).toBe('page');
+    expect(getPageContextChange(home, snapshotWith({ language: 'da' }))).toBe('page');
+    expect(getPageContextChange(null, home)).toBe('page');
+  });
+
+  it('tells layout changes from saves', () => {
+    expect(getPageContextChange(home, snapshotWith({ presentationDetails: '{"devices":[]}' }))).toBe('layout');
+    expect(getPageContextChange(home, snapshotWith({ revision: 'next' }))).toBe('content');
+    expect(getPageContextChange(home, snapshotWith({ workflow: { state: 'Approved' } }))).toBe('content');
+  });
+
+  it('ignores identical contexts, differently formatted IDs and contexts without a page', () => {
+    expect(getPageContextChange(home, snapshotWith({ id: `{${homePageContext.pageInfo.id.toUpperCase()}}` }))).toBe('none');
+    expect(getPageContextChange(home, getPageContextSnapshot({ siteInfo: {} }))).toBe('none');
+  });
+});
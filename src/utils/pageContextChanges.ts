@@ -0,0 +1,73 @@
+// utils/pageContextChanges.ts
+
+/**
+ * How a pages.context update affects the loaded item information
+ * - page: another page or language is open; everything is reloaded
+ * - layout: the page's renderings changed, so its datasources may have changed; the page graph is reloaded
+ * - content: the page was saved or its workflow state changed; the loaded items are refreshed
+ * - none: nothing the publishing status depends on changed
+ */
+export type PageContextChange = 'page' | 'layout' | 'content' | 'none';
+
+/**
+ * The parts of a pages.context payload that decide which refresh an update needs
+ */
+export interface PageContextSnapshot {
+  pageId: string;
+  language: string;
+  layout: string;
+  /** Revision, version and workflow state, combined */
+  content: string;
+}
+
+interface PageContextLike {
+  pageInfo?: {
+    id?: string;
+    language?: string;
+    presentationDetails?: unknown;
+    revision?: string;
+    version?: number;
+    updatedDate?: string;
+    workflow?: unknown;
+  } | null;
+}
+
+/**
+ * Reduce a pages.context payload to the values compared between updates
+ */
+export const getPageContextSnapshot = (pageContext: unknown): PageContextSnapshot | null => {
+  const pageInfo = (pageContext as PageContextLike | null | undefined)?.pageInfo;
+  if (!pageInfo?.id) {
+    return null;
+  }
+
+  const { presentationDetails } = pageInfo;
+  return {
+    pageId: pageInfo.id.replace(/[{}-]/g, '').toUpperCase(),
+    language: pageInfo.language || '',
+    layout: typeof presentationDetails === 'string' ? presentationDetails : JSON.stringify(presentationDetails ?? null),
+    content: JSON.stringify([pageInfo.revision, pageInfo.version, pageInfo.updatedDate, pageInfo.workflow ?? null])
+  };
+};
+
+/**
+ * Classify a pages.context update against the previous one
+ */
+export const getPageContextChange = (
+  previous: PageContextSnapshot | null,
+  next: PageContextSnapshot | null
+): PageContextChange => {
+  if (!next) {
+    return 'none';
+  }
+  if (!previous || previous.pageId !== next.pageId || previous.language !== next.language) {
+    return 'page';
+  }
+  if (previous.layout !== next.layout) {
+    return 'layout';
+  }
+  if (previous.content !== next.content) {
+    return 'content';
+  }
+  return 'none';
+};
@@ -0,0 +1,121 @@
+// utils/pageDesigns.test.ts
+import { describe, expect, it } from 'vitest';
+import { extractPageDesignItems, getPageDesignId, parseTemplatesMapping } from './pageDesigns';
+import { formatGuidWithoutHyphens, getItemProvenance } from './dataProcessing';
+import type { ExtractedItemInfo } from './dataProcessing';
+import { createFakeClient, respondWithItems } from '../test/fakeClient';
+import { FOOTER_ID, HERO_ID, PAGE_ID, PAGE_PATH } from '../test/fixtures/pageContexts';
+
+const compact = formatGuidWithoutHyphens;
+
+const SITE_ROOT = '/sitecore/content/Demo/Demo Site';
+const TEMPLATE_ID = 'B1B2C3D4-0001-4000-8000-000000000001';
+const DESIGN_ID = 'C1B2C3D4-0001-4000-8000-000000000001';
+const OTHER_DESIGN_ID = 'C1B2C3D4-0002-4000-8000-000000000002';
+const HEADER_ID = 'D1B2C3D4-0001-4000-8000-000000000001';
+const BASE_ID = 'D1B2C3D4-0002-4000-8000-000000000002';
+const HEADER_TEXT_ID = 'E1B2C3D4-0001-4000-8000-000000000001';
+const HEADER_PATH = `${SITE_ROOT}/Presentation/Partial Designs/Header`;
+
+const layout = (...dataSources: string[]) => ({
+  value: `<r><d id="{FE5D7FDF-89C0-4D99-9AA3-B5FBD009C9F3}">${dataSources
+    .map((dataSource, index) => `<r uid="{${index}}" ph="headless-header" ds="${dataSource}" />`)
+    .join('')}</d></r>`
+});
+
+const designRecords = {
+  [DESIGN_ID]: {
+    itemId: DESIGN_ID,
+    name: 'Default',
+    path: `${SITE_ROOT}/Presentation/Page Designs/Default`,
+    partialDesigns: { value: `{${HEADER_ID}}` }
+  },
+  [HEADER_ID]: {
+    itemId: HEADER_ID,
+    name: 'Header',
+    path: HEADER_PATH,
+    basePartialDesign: { value: `{${BASE_ID}}` },
+    renderings: layout(`{${HERO_ID}}`, 'local:/Data/Header Text')
+  },
+  [BASE_ID]: {
+    itemId: BASE_ID,
+    name: 'Base',
+    path: `${SITE_ROOT}/Presentation/Partial Designs/Base`,
+    renderings: layout(`{${FOOTER_ID}}`)
+  },
+  [`${HEADER_PATH}/Data/Header Text`]: { itemId: `{${HEADER_TEXT_ID}}`, name: 'Header Text' }
+};
+
+const pageExtraction = (): ExtractedItemInfo => ({
+  itemIds: [PAGE_ID],
+  localPathsToResolve: [],
+  currentPagePath: PAGE_PATH,
+  language: 'en',
+  provenanceMap: new Map()
+});
+
+const mapping = `%7B${TEMPLATE_ID}%7D=%7B${DESIGN_ID}%7D&%7BB1B2C3D4-0009-4000-8000-000000000009%7D=%7B${OTHER_DESIGN_ID}%7D`;
+
+describe('getPageDesignId', () => {
+  it('prefers the page design set on the page over the template mapping', () => {
+    expect(parseTemplatesMapping(mapping).get(compact(TEMPLATE_ID))).toBe(compact(DESIGN_ID));
+    expect(getPageDesignId({
+      page: { template: { templateId: TEMPLATE_ID }, pageDesign: { value: `{${OTHER_DESIGN_ID}}` } },
+      pageDesigns: { templatesMapping: { value: mapping } }
+    })).toBe(compact(OTHER_DESIGN_ID));
+    expect(getPageDesignId({
+      page: { template: { templateId: TEMPLATE_ID }, pageDesign: { value: '' } },
+      pageDesigns: { templatesMapping: { value: mapping } }
+    })).toBe(compact(DESIGN_ID));
+    expect(getPageDesignId({ page: { template: { templateId: HEADER_ID } }, pageDesigns: null })).toBeUndefined();
+  });
+});
+
+describe('extractPageDesignItems', () => {
+  it('adds the page design, its partial designs and their datasources', async () => {
+    const { client } = createFakeClient({
+      authoring: respondWithItems({
+        [PAGE_ID]: { template: { templateId: TEMPLATE_ID }, pageDesign: null },
+        [`${SITE_ROOT}/Presentation/Page Designs`]: { templatesMapping: { value: mapping } },
+        ...designRecords
+      })
+    });
+
+    const { itemIds, provenanceMap } = await extractPageDesignItems(client, pageExtraction(), {
+      sitecoreContextId: 'test-context',
+      siteRootPath: SITE_ROOT
+    });
+
+    expect(itemIds).toEqual([PAGE_ID, DESIGN_ID, HEADER_ID, HERO_ID, HEADER_TEXT_ID, BASE_ID, FOOTER_ID].map(compact));
+    expect(getItemProvenance(provenanceMap, HEADER_ID)).toEqual([{ source: 'page-design', detail: 'Header' }]);
+    expect(getItemProvenance(provenanceMap, HEADER_TEXT_ID)).toEqual([
+      { source: 'partial-design-datasource', parentId: compact(HEADER_ID), detail: 'Header' }
+    ]);
+  });
+
+  it('escapes the site root path in the page design lookup', async () => {
+    const quotedRoot = '/sitecore/content/Demo/Demo "Site"';
+    const { client, calls } = createFakeClient({
+      authoring: respondWithItems({
+        [PAGE_ID]: { template: { templateId: TEMPLATE_ID } },
+        [`${quotedRoot}/Presentation/Page Designs`]: { templatesMapping: { value: mapping } },
+        ...designRecords
+      })
+    });
+
+    const { itemIds } = await extractPageDesignItems(client, pageExtraction(), { siteRootPath: quotedRoot });
+
+    expect(calls[0].query).toContain('path: "/sitecore/content/Demo/Demo \\"Site\\"/Presentation/Page Designs"');
+    expect(itemIds).toContain(compact(DESIGN_ID));
+  });
+
+  it('leaves the extraction as it is when the page has no page design', async () => {
+    const { client } = createFakeClient({
+      authoring: respondWithItems({ [PAGE_ID]: { template: { templateId: TEMPLATE_ID } } })
+    });
+    const extraction = pageExtraction();
+
+    expect(await extractPageDesignItems(client, extraction, { siteRootPath: SITE_ROOT })).toBe(extraction);
+    expect(await extractPageDesignItems(client, extraction)).toBe(extraction);
+  });
+});
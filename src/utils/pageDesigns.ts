@@ -0,0 +1,199 @@
+// utils/pageDesigns.ts
+import { ClientSDK } from '@sitecore-marketplace-sdk/client';
+import type { DesignItemResponse, PageDesignLookupResponse } from '../types/itemInformation';
+import {
+  getDesignItemsFromAuthoring,
+  getPageDesignLookupFromAuthoring,
+  resolveLocalDatasourcePaths
+} from './graphqlQueries';
+import {
+  addItemProvenance,
+  extractItemIdsWithLocalPaths,
+  formatGuidWithoutHyphens
+} from './dataProcessing';
+import type { ExtractedItemInfo, ProvenanceMap } from './dataProcessing';
+import { getPageLayout, hasLayout } from './layoutXml';
+
+// Partial designs can inherit from each other; stop following base designs after this many levels
+const MAX_DESIGN_DEPTH = 5;
+
+export interface PageDesignOptions {
+  /** Context ID for authoring queries */
+  sitecoreContextId?: string;
+  /** Root of the current site; its Presentation/Page Designs item maps templates to page designs */
+  siteRootPath?: string;
+}
+
+/**
+ * Read the item IDs from a pipe-separated multilist value
+ */
+const parseIdList = (value?: string | null): string[] => {
+  return (value || '')
+    .split('|')
+    .map(id => formatGuidWithoutHyphens(id.trim()))
+    .filter(id => id.length === 32);
+};
+
+/**
+ * Parse the TemplatesMapping field of an SXA Page Designs item
+ * The value is URL encoded, e.g. %7BTEMPLATE-ID%7D=%7BPAGE-DESIGN-ID%7D&...
+ * @returns Map of normalized template IDs to normalized page design IDs
+ */
+export const parseTemplatesMapping = (value?: string | null): Map<string, string> => {
+  const mapping = new Map<string, string>();
+  new URLSearchParams(value || '').forEach((designId, templateId) => {
+    if (designId) {
+      mapping.set(formatGuidWithoutHyphens(templateId), formatGuidWithoutHyphens(designId));
+    }
+  });
+  return mapping;
+};
+
+/**
+ * Get the page design of a page: its own Page Design field, or the design mapped to its template
+ */
+export const getPageDesignId = (lookup: PageDesignLookupResponse | null): string | undefined => {
+  const ownDesign = parseIdList(lookup?.page?.pageDesign?.value)[0];
+  if (ownDesign) {
+    return ownDesign;
+  }
+
+  const templateId = lookup?.page?.template?.templateId;
+  if (!templateId) {
+    return undefined;
+  }
+  return parseTemplatesMapping(lookup?.pageDesigns?.templatesMapping?.value).get(formatGuidWithoutHyphens(templateId));
+};
+
+/**
+ * Load the page design and its partial designs, following base partial designs
+ * Designs are returned in the order they were discovered, the page design first
+ */
+const loadDesignItems = async (
+  client: ClientSDK,
+  pageDesignId: string,
+  sitecoreContextId: string | undefined,
+  language: string
+): Promise<DesignItemResponse[]> => {
+  const designs: DesignItemResponse[] = [];
+  const visited = new Set([pageDesignId]);
+  let levelIds = [pageDesignId];
+
+  for (let depth = 0; levelIds.length > 0 && depth < MAX_DESIGN_DEPTH; depth++) {
+    const result = await getDesignItemsFromAuthoring(client, levelIds, sitecoreContextId, language);
+    const levelData = (result.data?.data || {}) as Record<string, DesignItemResponse | null>;
+
+    const nextIds: string[] = [];
+    levelIds.forEach(id => {
+      const design = levelData[id];
+      if (!design) {
+        return;
+      }
+      designs.push(design);
+      [...parseIdList(design.partialDesigns?.value), ...parseIdList(design.basePartialDesign?.value)].forEach(partialId => {
+        if (!visited.has(partialId)) {
+          visited.add(partialId);
+          nextIds.push(partialId);
+        }
+      });
+    });
+
+    levelIds = nextIds;
+  }
+
+  return designs;
+};
+
+/**
+ * Collect the rendering datasources of a partial design, resolving local paths against the partial design
+ */
+const collectDesignDatasources = async (
+  client: ClientSDK,
+  design: DesignItemResponse,
+  sitecoreContextId: string | undefined,
+  language: string
+): Promise<string[]> => {
+  const { itemIds, localPathsToResolve } = extractItemIdsWithLocalPaths({
+    pageInfo: {
+      id: design.itemId,
+      path: design.path,
+      language,
+      presentationDetails: getPageLayout(design)
+    }
+  });
+  // The first ID is the partial design itself
+  const datasourceIds = itemIds.slice(1);
+
+  if (localPathsToResolve.length > 0 && sitecoreContextId) {
+    const resolvedPaths = await resolveLocalDatasourcePaths(client, localPathsToResolve, design.path, sitecoreContextId, language);
+    Object.values(resolvedPaths).forEach(resolvedId => {
+      if (resolvedId) {
+        datasourceIds.push(formatGuidWithoutHyphens(resolvedId));
+      }
+    });
+  }
+
+  return datasourceIds;
+};
+
+/**
+ * Add the page design, its partial designs and their rendering datasources to a page extraction
+ * SXA headless pages get many renderings from partial designs, which are not in the page's own
+ * presentation details; an unpublished header partial breaks every page using it. Design items
+ * are recorded with page-design provenance and their datasources with partial-design-datasource.
+ * Returns the given extraction when the page has no page design or it cannot be read.
+ */
+export const extractPageDesignItems = async (
+  client: ClientSDK,
+  extraction: ExtractedItemInfo,
+  { sitecoreContextId, siteRootPath }: PageDesignOptions = {}
+): Promise<ExtractedItemInfo> => {
+  if (!siteRootPath || extraction.itemIds.length === 0) {
+    return extraction;
+  }
+
+  try {
+    const { language } = extraction;
+    const lookup = await getPageDesignLookupFromAuthoring(client, extraction.itemIds[0], siteRootPath, sitecoreContextId, language);
+    const pageDesignId = getPageDesignId(lookup);
+    if (!pageDesignId) {
+      return extraction;
+    }
+
+    const designs = await loadDesignItems(client, pageDesignId, sitecoreContextId, language);
+    const provenanceMap: ProvenanceMap = new Map(extraction.provenanceMap);
+    const itemIds = [...extraction.itemIds];
+    const knownIds = new Set(itemIds.map(formatGuidWithoutHyphens));
+    const addItemId = (id: string) => {
+      if (!knownIds.has(id)) {
+        knownIds.add(id);
+        itemIds.push(id);
+      }
+    };
+
+    for (const design of designs) {
+      const designId = formatGuidWithoutHyphens(design.itemId);
+      addItemProvenance(provenanceMap, designId, { source: 'page-design', detail: design.name });
+      addItemId(designId);
+
+      if (!hasLayout(design)) {
+        continue;
+      }
+
+      const datasourceIds = await collectDesignDatasources(client, design, sitecoreContextId, language);
+      datasourceIds.forEach(datasourceId => {
+        addItemProvenance(provenanceMap, datasourceId, {
+          source: 'partial-design-datasource',
+          parentId: designId,
+          detail: design.name
+        });
+        addItemId(datasourceId);
+      });
+    }
+
+    return { ...extraction, itemIds, provenanceMap };
+  } catch (error) {
+    console.error('Error loading page design:', error);
+    return extraction;
+  }
+};
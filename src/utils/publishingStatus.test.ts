@@ -0,0 +1,44 @@
+// utils/publishingStatus.test.ts
+import { describe, expect, it } from 'vitest';
+import { getPublishingStatus, needsPublishing } from './publishingStatus';
+import type { ProcessedItemInfo } from '../types/itemInformation';
+
+const item = (overrides: Partial<ProcessedItemInfo> = {}): ProcessedItemInfo => ({
+  id: '11111111111141118111111111111111',
+  name: 'Hero',
+  path: '/sitecore/content/Site/Home/Data/Hero',
+  latestVersion: 2,
+  publishedVersion: 2,
+  isPublished: true,
+  isOutdated: false,
+  versionDifference: 0,
+  itemType: 'datasource',
+  authoringState: 'found',
+  liveState: 'found',
+  ...overrides
+});
+
+describe('getPublishingStatus', () => {
+  it('reports outdated and up-to-date items', () => {
+    expect(getPublishingStatus(item()).status).toBe('Up-to-date');
+    expect(getPublishingStatus(item({ latestVersion: 3, isOutdated: true })).status).toBe('Outdated');
+    expect(getPublishingStatus(item({ publishedVersion: null, isPublished: false })).status).toBe('Not Published');
+  });
+
+  it('does not report a published item as up-to-date when its authoring lookup failed', () => {
+    const unknown = item({ authoringState: 'unavailable', latestVersion: 0 });
+
+    expect(getPublishingStatus(unknown)).toMatchObject({ status: 'Authoring status unknown', colorScheme: 'gray' });
+    expect(getPublishingStatus(item({ authoringState: 'unavailable', restriction: { status: 'restricted', level: 'item', reason: 'Never publish' } })).status)
+      .toBe('Authoring status unknown');
+    expect(needsPublishing(unknown)).toBe(false);
+  });
+
+  it('reports unknown live status', () => {
+    const unknown = item({ liveState: 'unavailable', publishedVersion: null, isPublished: false });
+
+    expect(getPublishingStatus(unknown).status).toBe('Live status unknown');
+    expect(needsPublishing(unknown)).toBe(false);
+    expect(needsPublishing(item({ publishedVersion: null, isPublished: false }))).toBe(true);
+  });
+});
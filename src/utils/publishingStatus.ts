@@ -0,0 +1,171 @@
+// utils/publishingStatus.ts
+import type { ProcessedItemInfo, PublishingRestriction } from '../types/itemInformation';
+import { isInPreviewOnly, isStatusUnknown } from './dataProcessing';
+import { describeMediaBlobState } from './mediaItems';
+
+export type PublishingStatusIcon = 'check' | 'warning' | 'error' | 'time';
+
+export interface PublishingStatusInfo {
+  /** Short label shown on the status badge */
+  status: string;
+  colorScheme: string;
+  icon: PublishingStatusIcon;
+  /** Explanation shown in the tooltip */
+  description: string;
+}
+
+/**
+ * Whether a published media item's file is not served by Experience Edge
+ */
+export const isMediaBlobMissing = (item: ProcessedItemInfo): boolean =>
+  item.isPublished && item.media?.blobState === 'missing';
+
+/**
+ * Whether an item should be offered for publishing
+ * Restricted and scheduled items cannot be published until the restriction lifts,
+ * and items whose status could not be determined are left out
+ */
+export const needsPublishing = (item: ProcessedItemInfo): boolean =>
+  (!item.isPublished || item.isOutdated || isMediaBlobMissing(item)) &&
+  item.authoringState !== 'not-found' &&
+  !isStatusUnknown(item) &&
+  item.restriction?.status !== 'restricted' &&
+  item.restriction?.status !== 'scheduled';
+
+const getRestrictionStatus = (restriction: PublishingRestriction): PublishingStatusInfo => {
+  const liftsAt = restriction.liftsAt
+    ? ` Lifts on ${new Date(restriction.liftsAt).toLocaleString()}.`
+    : ' This does not lift automatically; change the publishing restrictions to publish it.';
+
+  switch (restriction.status) {
+    case 'scheduled':
+      return {
+        status: 'Scheduled',
+        colorScheme: 'purple',
+        icon: 'time',
+        description: `${restriction.reason}.${liftsAt}`
+      };
+    case 'expired':
+      return {
+        status: 'Expired',
+        colorScheme: 'gray',
+        icon: 'time',
+        description: `${restriction.reason}. Publishing will remove it from the live environment.`
+      };
+    case 'restricted':
+    default:
+      return {
+        status: 'Restricted',
+        colorScheme: 'gray',
+        icon: 'error',
+        description: `${restriction.reason}.${liftsAt}`
+      };
+  }
+};
+
+const getWorkflowDescription = (item: ProcessedItemInfo): string => {
+  if (!item.workflow) {
+    return '';
+  }
+  return item.isBlockedByWorkflow
+    ? ` The latest version is in workflow state "${item.workflow.stateName}" (${item.workflow.workflowName}) and will not be published until it is approved.`
+    : ` The latest version is approved ("${item.workflow.stateName}") and ready to publish.`;
+};
+
+const getPreviewDescription = (item: ProcessedItemInfo): string => {
+  if (item.previewState === 'not-found') {
+    return ' It is missing from preview too, so it has not been indexed yet.';
+  }
+  if (item.previewState === 'found' && item.previewVersion && item.previewVersion < item.latestVersion) {
+    return ` Preview is also behind (v${item.previewVersion}), so the preview index may be stale.`;
+  }
+  return '';
+};
+
+/**
+ * Status label, badge color, icon and explanation for an item, most pressing state first
+ */
+export const getPublishingStatus = (item: ProcessedItemInfo): PublishingStatusInfo => {
+  if (item.authoringState === 'not-found') {
+    return {
+      status: 'Not Found',
+      colorScheme: 'gray',
+      icon: 'error',
+      description: 'This item could not be found in the authoring environment. It may have been deleted or is not accessible.'
+    };
+  }
+
+  if (item.authoringState === 'unavailable') {
+    return {
+      status: 'Authoring status unknown',
+      colorScheme: 'gray',
+      icon: 'warning',
+      description: 'The authoring environment could not be queried for this item, so its latest version and publishing status are unknown.'
+    };
+  }
+
+  if (item.liveState === 'unavailable') {
+    return {
+      status: 'Live status unknown',
+      colorScheme: 'gray',
+      icon: 'warning',
+      description: 'The live environment could not be queried for this item, so its publishing status is unknown.'
+    };
+  }
+
+  if (item.restriction) {
+    return getRestrictionStatus(item.restriction);
+  }
+
+  if (isInPreviewOnly(item) && !item.isBlockedByWorkflow) {
+    return {
+      status: 'In preview only',
+      colorScheme: 'blue',
+      icon: 'warning',
+      description: `Version ${item.previewVersion} is available in preview but has not been published to the live environment.${getWorkflowDescription(item)}`
+    };
+  }
+
+  if (!item.isPublished) {
+    return {
+      status: item.isBlockedByWorkflow ? 'Not Published — awaiting approval' : 'Not Published',
+      colorScheme: 'red',
+      icon: 'error',
+      description: `This item has not been published to the live environment.${getPreviewDescription(item)}${getWorkflowDescription(item)}`
+    };
+  }
+
+  if (item.isOutdated) {
+    if (item.isBlockedByWorkflow) {
+      return {
+        status: 'Outdated — awaiting approval',
+        colorScheme: 'yellow',
+        icon: 'time',
+        description: `Published version (${item.publishedVersion}) is behind latest version (${item.latestVersion}).${getWorkflowDescription(item)}`
+      };
+    }
+
+    return {
+      status: item.workflow ? 'Outdated — approved, ready to publish' : 'Outdated',
+      colorScheme: 'orange',
+      icon: 'warning',
+      description: `Published version (${item.publishedVersion}) is behind latest version (${item.latestVersion}).${getWorkflowDescription(item)}`
+    };
+  }
+
+  if (isMediaBlobMissing(item) && item.media) {
+    return {
+      status: 'File not on Edge',
+      colorScheme: 'orange',
+      icon: 'warning',
+      description: describeMediaBlobState(item.media)
+    };
+  }
+
+  return {
+    status: 'Up-to-date',
+    colorScheme: 'green',
+    icon: 'check',
+    description: `Published version (${item.publishedVersion}) matches latest version (${item.latestVersion})`
+  };
+};
@@ -0,0 +1,127 @@
+// utils/queryBatching.ts
+import type { ChunkFailure, ItemQueryResult } from '../types/itemInformation';
+import { formatGuidWithoutHyphens } from './dataProcessing';
+
+export interface BatchOptions {
+  /**
+   * Maximum number of item aliases per GraphQL request
+   * @default 25
+   */
+  chunkSize?: number;
+  /**
+   * Maximum number of chunk requests in flight at the same time
+   * @default 3
+   */
+  concurrency?: number;
+}
+
+export const DEFAULT_BATCH_OPTIONS: Required<BatchOptions> = {
+  chunkSize: 25,
+  concurrency: 3,
+};
+
+/**
+ * Split an array into chunks of at most `size` entries
+ */
+export const chunkArray = <T>(items: T[], size: number): T[][] => {
+  const chunkSize = Math.max(1, Math.floor(size));
+  const chunks: T[][] = [];
+  for (let index = 0; index < items.length; index += chunkSize) {
+    chunks.push(items.slice(index, index + chunkSize));
+  }
+  return chunks;
+};
+
+/**
+ * Run an async worker over all tasks with at most `concurrency` workers in flight
+ * Results are returned in task order
+ */
+export const runWithConcurrency = async <T, R>(
+  tasks: T[],
+  concurrency: number,
+  worker: (task: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(tasks.length);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < tasks.length) {
+      const index = nextIndex++;
+      results[index] = await worker(tasks[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, tasks.length));
+  await Promise.all(Array.from({ length: workerCount }, runNext));
+  return results;
+};
+
+const describeError = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return String(error);
+};
+
+/**
+ * Run an aliased item query in chunks and merge the results
+ * Each chunk is queried with its own item0..itemN aliases; results are mapped back to the
+ * item ID they were requested for and keyed by normalized ID (uppercase, no hyphens or braces).
+ * Items that were queried but not found are stored as null. Chunks that fail are reported
+ * in `failures` and their items are left out instead of failing the whole result.
+ */
+export const batchItemQuery = async (
+  endpoint: ChunkFailure['endpoint'],
+  itemIds: string[],
+  runChunk: (chunkIds: string[]) => Promise<ItemQueryResult>,
+  options: BatchOptions = {}
+): Promise<ItemQueryResult> => {
+  const { chunkSize, concurrency } = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  const chunks = chunkArray(itemIds, chunkSize);
+
+  const chunkResults = await runWithConcurrency(chunks, concurrency, async (chunkIds) => {
+    try {
+      return await runChunk(chunkIds);
+    } catch (error) {
+      return { error } as ItemQueryResult;
+    }
+  });
+
+  const merged: Record<string, unknown> = {};
+  const errors: unknown[] = [];
+  const failures: ChunkFailure[] = [];
+
+  chunkResults.forEach((result, chunkIndex) => {
+    const chunkIds = chunks[chunkIndex];
+    const chunkData = result.data?.data;
+
+    if (result.error || !chunkData) {
+      failures.push({
+        endpoint,
+        itemIds: chunkIds,
+        error: result.error ? describeError(result.error) : 'No data in response'
+      });
+    } else {
+      chunkIds.forEach((id, index) => {
+        merged[formatGuidWithoutHyphens(id)] = chunkData[`item${index}`] ?? null;
+      });
+    }
+
+    if (result.data?.errors) {
+      errors.push(...result.data.errors);
+    }
+  });
+
+  // Only fail as a whole when every chunk failed
+  if (failures.length === chunks.length && chunks.length > 0) {
+    return { error: new Error(failures[0].error), failures };
+  }
+
+  return {
+    data: {
+      data: merged,
+      ...(errors.length > 0 ? { errors } : {})
+    },
+    ...(failures.length > 0 ? { failures } : {})
+  };
+};
@@ -0,0 +1,165 @@
+// utils/queryCache.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cachedItemQuery, createQueryCache, invalidateItemCache } from './queryCache';
+import type { ItemQueryResult } from '../types/itemInformation';
+
+const HERO_ID = 'A1B2C3D4-0001-4000-8000-000000000001';
+const PROMO_ID = 'A1B2C3D4-0002-4000-8000-000000000002';
+const scope = { contextId: 'ctx', language: 'en' };
+
+const compact = (id: string) => id.replace(/-/g, '');
+
+/**
+ * Answer an ID-keyed item query with a record per item, like batchItemQuery
+ */
+const runQueryWith = (records: Record<string, unknown>) => vi.fn(async (itemIds: string[]): Promise<ItemQueryResult> => ({
+  data: { data: Object.fromEntries(itemIds.map(id => [compact(id), records[id] ?? null])) }
+}));
+
+describe('createQueryCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves values as fresh within the TTL, then as stale, then drops them', () => {
+    vi.useFakeTimers();
+    const cache = createQueryCache<string>({ ttl: 1000, staleTtl: 1000 });
+    cache.set('key', 'value');
+
+    expect(cache.get('key')).toEqual({ value: 'value', isStale: false });
+    vi.advanceTimersByTime(1500);
+    expect(cache.get('key')).toEqual({ value: 'value', isStale: true });
+    vi.advanceTimersByTime(1000);
+    expect(cache.get('key')).toBeUndefined();
+  });
+
+  it('shares in-flight loads and does not cache failures', async () => {
+    const cache = createQueryCache<string>();
+    const loader = vi.fn(async () => 'value');
+
+    const [first, second] = await Promise.all([cache.load('key', loader), cache.load('key', loader)]);
+    expect([first, second]).toEqual(['value', 'value']);
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    await expect(cache.load('failing', async () => {
+      throw new Error('Service Unavailable');
+    })).rejects.toThrow('Service Unavailable');
+    expect(cache.get('failing')).toBeUndefined();
+  });
+
+  it('does not store a load that finishes after its key was invalidated', async () => {
+    const cache = createQueryCache<string>();
+    let resolveLoad: (value: string) => void = () => {};
+    const load = cache.load('key', () => new Promise(resolve => { resolveLoad = resolve; }));
+
+    cache.invalidate(key => key === 'key');
+    resolveLoad('old');
+
+    await expect(load).resolves.toBe('old');
+    expect(cache.get('key')).toBeUndefined();
+  });
+
+  it('evicts the oldest entries beyond maxEntries', () => {
+    const cache = createQueryCache<number>({ maxEntries: 2 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('c')?.value).toBe(3);
+  });
+});
+
+describe('cachedItemQuery', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('only queries items that are not cached, including items found to be missing', async () => {
+    const runQuery = runQueryWith({ [HERO_ID]: { name: 'Hero' } });
+
+    await cachedItemQuery('authoring', scope, [HERO_ID], runQuery);
+    const result = await cachedItemQuery('authoring', scope, [HERO_ID, PROMO_ID], runQuery);
+    await cachedItemQuery('authoring', scope, [PROMO_ID], runQuery);
+
+    expect(runQuery.mock.calls).toEqual([[[HERO_ID]], [[PROMO_ID]]]);
+    expect(result.data?.data).toEqual({ [compact(HERO_ID)]: { name: 'Hero' }, [compact(PROMO_ID)]: null });
+  });
+
+  it('keeps endpoints, contexts and languages apart', async () => {
+    const runQuery = runQueryWith({ [HERO_ID]: { name: 'Hero' } });
+
+    await cachedItemQuery('authoring', scope, [HERO_ID], runQuery);
+    await cachedItemQuery('live', scope, [HERO_ID], runQuery);
+    await cachedItemQuery('authoring', { ...scope, language: 'da' }, [HERO_ID], runQuery);
+    await cachedItemQuery('authoring', { ...scope, contextId: 'other' }, [HERO_ID], runQuery);
+
+    expect(runQuery).toHaveBeenCalledTimes(4);
+  });
+
+  it('lets concurrent queries for the same items share one request', async () => {
+    const runQuery = runQueryWith({ [HERO_ID]: { name: 'Hero' }, [PROMO_ID]: { name: 'Promo' } });
+
+    await Promise.all([
+      cachedItemQuery('live', scope, [HERO_ID], runQuery),
+      cachedItemQuery('live', scope, [HERO_ID, PROMO_ID], runQuery)
+    ]);
+
+    expect(runQuery.mock.calls).toEqual([[[HERO_ID]], [[PROMO_ID]]]);
+  });
+
+  it('reports failed items without caching them', async () => {
+    const runQuery = vi.fn(async (itemIds: string[]): Promise<ItemQueryResult> => ({
+      data: { data: { [compact(HERO_ID)]: { name: 'Hero' } } },
+      failures: [{ endpoint: 'live', itemIds: itemIds.filter(id => id === PROMO_ID), error: 'Service Unavailable' }]
+    }));
+
+    const result = await cachedItemQuery('live', scope, [HERO_ID, PROMO_ID], runQuery);
+    await cachedItemQuery('live', scope, [HERO_ID, PROMO_ID], runQuery);
+
+    expect(result.failures).toEqual([{ endpoint: 'live', itemIds: [PROMO_ID], error: 'Service Unavailable' }]);
+    expect(runQuery.mock.calls[1]).toEqual([[PROMO_ID]]);
+  });
+
+  it('fails as a whole when no item could be loaded', async () => {
+    const result = await cachedItemQuery('preview', scope, [HERO_ID], async () => ({ error: new Error('Forbidden') }));
+
+    expect(result.error).toBeInstanceOf(Error);
+    expect(result.failures).toEqual([{ endpoint: 'preview', itemIds: [HERO_ID], error: 'Forbidden' }]);
+  });
+
+  it('returns expired items right away and refreshes them in the background', async () => {
+    vi.useFakeTimers();
+    let title = 'Hero v1';
+    const runQuery = vi.fn(async (itemIds: string[]): Promise<ItemQueryResult> => ({
+      data: { data: Object.fromEntries(itemIds.map(id => [compact(id), { name: id === HERO_ID ? title : 'Promo' }])) }
+    }));
+    await cachedItemQuery('live', scope, [HERO_ID], runQuery);
+
+    vi.advanceTimersByTime(2 * 60000);
+    title = 'Hero v2';
+    const stale = await cachedItemQuery('live', scope, [HERO_ID, PROMO_ID], runQuery);
+    const refreshed = await cachedItemQuery('live', scope, [HERO_ID], runQuery);
+
+    expect(stale.data?.data).toEqual({ [compact(HERO_ID)]: { name: 'Hero v1' }, [compact(PROMO_ID)]: { name: 'Promo' } });
+    expect(refreshed.data?.data).toEqual({ [compact(HERO_ID)]: { name: 'Hero v2' } });
+    expect(runQuery.mock.calls).toEqual([[[HERO_ID]], [[HERO_ID]], [[PROMO_ID]]]);
+
+    // Past the stale window the item is queried and waited for again
+    vi.advanceTimersByTime(6 * 60000);
+    title = 'Hero v3';
+    expect((await cachedItemQuery('live', scope, [HERO_ID], runQuery)).data?.data).toEqual({ [compact(HERO_ID)]: { name: 'Hero v3' } });
+  });
+
+  it('queries invalidated items again', async () => {
+    const runQuery = runQueryWith({ [HERO_ID]: { name: 'Hero' }, [PROMO_ID]: { name: 'Promo' } });
+    await cachedItemQuery('live', scope, [HERO_ID, PROMO_ID], runQuery);
+    await cachedItemQuery('authoring', scope, [HERO_ID], runQuery);
+
+    invalidateItemCache({ endpoints: ['live'], itemIds: [`{${HERO_ID.toLowerCase()}}`] });
+    await cachedItemQuery('live', scope, [HERO_ID, PROMO_ID], runQuery);
+    await cachedItemQuery('authoring', scope, [HERO_ID], runQuery);
+
+    expect(runQuery.mock.calls.slice(2)).toEqual([[[HERO_ID]]]);
+  });
+});
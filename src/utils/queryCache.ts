@@ -0,0 +1,261 @@
+// utils/queryCache.ts
+import type { ChunkFailure, ItemQueryResult } from '../types/itemInformation';
+import { formatGuidWithoutHyphens } from './dataProcessing';
+
+export interface QueryCacheOptions {
+  /**
+   * How long in milliseconds a value stays fresh
+   * @default 60000
+   */
+  ttl?: number;
+  /**
+   * How long in milliseconds an expired value is still kept for stale reads
+   * @default 0
+   */
+  staleTtl?: number;
+  /**
+   * Maximum number of entries; the oldest are evicted first
+   * @default 2000
+   */
+  maxEntries?: number;
+}
+
+export interface CachedValue<T> {
+  value: T;
+  /** Whether the value is older than the TTL and should be revalidated */
+  isStale: boolean;
+}
+
+export interface QueryCache<T> {
+  /** Cached value, fresh or stale; undefined when missing or expired */
+  get: (key: string) => CachedValue<T> | undefined;
+  set: (key: string, value: T) => void;
+  /**
+   * Return the fresh cached value or load it; concurrent loads of the same key share one request
+   * Rejected loads are not cached
+   */
+  load: (key: string, loader: () => Promise<T>) => Promise<T>;
+  /** Whether a load of the key is in flight */
+  isLoading: (key: string) => boolean;
+  /** Drop every entry, or the entries whose key matches */
+  invalidate: (matches?: (key: string) => boolean) => void;
+}
+
+/**
+ * Create an in-memory cache with a TTL, stale reads and de-duplication of in-flight loads
+ */
+export const createQueryCache = <T>({
+  ttl = 60000,
+  staleTtl = 0,
+  maxEntries = 2000
+}: QueryCacheOptions = {}): QueryCache<T> => {
+  const entries = new Map<string, { value: T; storedAt: number }>();
+  const inFlight = new Map<string, Promise<T>>();
+
+  const get = (key: string): CachedValue<T> | undefined => {
+    const entry = entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    const age = Date.now() - entry.storedAt;
+    if (age > ttl + staleTtl) {
+      entries.delete(key);
+      return undefined;
+    }
+    return { value: entry.value, isStale: age > ttl };
+  };
+
+  const set = (key: string, value: T) => {
+    // Re-inserting moves the key to the end, so the first key is always the oldest
+    entries.delete(key);
+    entries.set(key, { value, storedAt: Date.now() });
+    while (entries.size > maxEntries) {
+      entries.delete(entries.keys().next().value as string);
+    }
+  };
+
+  const load = (key: string, loader: () => Promise<T>): Promise<T> => {
+    const cached = get(key);
+    if (cached && !cached.isStale) {
+      return Promise.resolve(cached.value);
+    }
+
+    const pending = inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    // A load that finishes after its key was invalidated does not store its value
+    const request: Promise<T> = loader()
+      .then(value => {
+        if (inFlight.get(key) === request) {
+          set(key, value);
+        }
+        return value;
+      })
+      .finally(() => {
+        if (inFlight.get(key) === request) {
+          inFlight.delete(key);
+        }
+      });
+    inFlight.set(key, request);
+    return request;
+  };
+
+  const invalidate = (matches?: (key: string) => boolean) => {
+    if (!matches) {
+      entries.clear();
+      inFlight.clear();
+      return;
+    }
+    Array.from(entries.keys()).filter(matches).forEach(key => entries.delete(key));
+    Array.from(inFlight.keys()).filter(matches).forEach(key => inFlight.delete(key));
+  };
+
+  return { get, set, load, isLoading: key => inFlight.has(key), invalidate };
+};
+
+export type ItemCacheEndpoint = ChunkFailure['endpoint'];
+
+export interface ItemCacheScope {
+  /** Context ID the endpoint was queried with */
+  contextId?: string;
+  language: string;
+  /** Distinguishes queries that select different data for the same item, e.g. live with field values */
+  variant?: string;
+}
+
+// Authoring, preview and live lookups by endpoint | context | language | variant | normalized item ID
+// Expired lookups are served for a few more minutes while they are refreshed in the background
+const itemCache = createQueryCache<unknown>({ ttl: 60000, staleTtl: 4 * 60000 });
+
+// Fallback error for items whose shared request failed without a chunk failure naming them
+const SHARED_REQUEST_FAILED = 'No data in response';
+
+const getItemCacheKey = (endpoint: ItemCacheEndpoint, scope: ItemCacheScope, itemId: string): string =>
+  [endpoint, scope.contextId || '', scope.language, scope.variant || '', formatGuidWithoutHyphens(itemId)].join('|');
+
+/**
+ * Read one item from the result of a shared item query; throws the error that kept it from loading
+ */
+const readItemResult = (result: ItemQueryResult, itemId: string): unknown => {
+  const data = result.error ? undefined : result.data?.data;
+  const normalizedId = formatGuidWithoutHyphens(itemId);
+  if (!data || !(normalizedId in data)) {
+    const failure = result.failures?.find(entry => entry.itemIds.includes(itemId));
+    throw new Error(failure?.error || (result.error instanceof Error ? result.error.message : SHARED_REQUEST_FAILED));
+  }
+  return data[normalizedId];
+};
+
+/**
+ * Run an ID-keyed item query (see batchItemQuery) through the item cache
+ * Items cached within the TTL are not queried again, and items another call is already loading
+ * wait for that request instead of being queried twice. Expired items still in the stale window
+ * are returned right away and re-queried in the background, so the next call sees the new values.
+ * Only the remaining items are passed to runQuery. Items that failed are reported in `failures`
+ * and are not cached.
+ */
+export const cachedItemQuery = async (
+  endpoint: ItemCacheEndpoint,
+  scope: ItemCacheScope,
+  itemIds: string[],
+  runQuery: (itemIds: string[]) => Promise<ItemQueryResult>
+): Promise<ItemQueryResult> => {
+  const toQuery: string[] = [];
+  const toRevalidate: Array<{ itemId: string; key: string }> = [];
+  const staleValues = new Map<string, unknown>();
+  const pending: Array<{ itemId: string; key: string }> = [];
+  itemIds.forEach(itemId => {
+    const key = getItemCacheKey(endpoint, scope, itemId);
+    const cached = itemCache.get(key);
+    if (cached?.isStale) {
+      staleValues.set(itemId, cached.value);
+      if (!itemCache.isLoading(key)) {
+        toRevalidate.push({ itemId, key });
+      }
+      return;
+    }
+    if (!cached && !itemCache.isLoading(key)) {
+      toQuery.push(itemId);
+    }
+    pending.push({ itemId, key });
+  });
+
+  // Stale items are refreshed with one request of their own that nobody waits for
+  if (toRevalidate.length > 0) {
+    let revalidation: Promise<ItemQueryResult> | undefined;
+    toRevalidate.forEach(({ itemId, key }) => {
+      itemCache.load(key, async () => {
+        revalidation = revalidation || runQuery(toRevalidate.map(entry => entry.itemId));
+        return readItemResult(await revalidation, itemId);
+      }).catch((error: unknown) => {
+        // The stale value stays cached until it expires
+        console.warn(`Error refreshing cached ${endpoint} item ${itemId}:`, error);
+      });
+    });
+  }
+
+  // One request for every item that is neither cached nor in flight; each item shares its outcome
+  let queryResult: Promise<ItemQueryResult> | undefined;
+  const runShared = () => {
+    queryResult = queryResult || runQuery(toQuery);
+    return queryResult;
+  };
+
+  const outcomes = await Promise.all(pending.map(({ itemId, key }) =>
+    itemCache.load(key, async () => readItemResult(await runShared(), itemId))
+      .then(value => ({ itemId, value, error: undefined as string | undefined }))
+      .catch((error: unknown) => ({
+        itemId,
+        value: undefined,
+        error: error instanceof Error ? error.message : String(error)
+      }))
+  ));
+
+  const merged: Record<string, unknown> = {};
+  staleValues.forEach((value, itemId) => {
+    merged[formatGuidWithoutHyphens(itemId)] = value;
+  });
+  const failedByError = new Map<string, string[]>();
+  outcomes.forEach(({ itemId, value, error }) => {
+    if (error === undefined) {
+      merged[formatGuidWithoutHyphens(itemId)] = value;
+    } else {
+      failedByError.set(error, [...(failedByError.get(error) || []), itemId]);
+    }
+  });
+
+  const failures: ChunkFailure[] = Array.from(failedByError, ([error, failedIds]) => ({ endpoint, itemIds: failedIds, error }));
+  const errors = queryResult ? (await queryResult).data?.errors : undefined;
+
+  // Only fail as a whole when no item could be loaded
+  if (failures.length > 0 && Object.keys(merged).length === 0) {
+    return { error: new Error(failures[0].error), failures };
+  }
+
+  return {
+    data: {
+      data: merged,
+      ...(errors && errors.length > 0 ? { errors } : {})
+    },
+    ...(failures.length > 0 ? { failures } : {})
+  };
+};
+
+/**
+ * Drop cached item lookups so the next query asks the endpoints again
+ * Without arguments the whole item cache is cleared
+ */
+export const invalidateItemCache = ({
+  endpoints,
+  itemIds
+}: { endpoints?: ItemCacheEndpoint[]; itemIds?: string[] } = {}) => {
+  const normalizedIds = itemIds && new Set(itemIds.map(formatGuidWithoutHyphens));
+  itemCache.invalidate(key => {
+    const parts = key.split('|');
+    return (!endpoints || endpoints.includes(parts[0] as ItemCacheEndpoint)) &&
+      (!normalizedIds || normalizedIds.has(parts[parts.length - 1]));
+  });
+};
@@ -0,0 +1,191 @@
+// utils/referenceTraversal.ts
+import { ClientSDK } from '@sitecore-marketplace-sdk/client';
+import type { AuthoringItemResponse, ChunkFailure, ProcessedItemInfo } from '../types/itemInformation';
+import { getItemsFromAuthoring } from './graphqlQueries';
+import {
+  addItemProvenance,
+  extractFieldReferences,
+  formatGuidWithHyphens,
+  formatGuidWithoutHyphens,
+  getItemProvenance
+} from './dataProcessing';
+import type { ProvenanceMap } from './dataProcessing';
+import { isMediaLibraryPath } from './mediaItems';
+
+/**
+ * Map of normalized referenced item IDs to the items whose fields reference them
+ */
+export type ReferencedByMap = Map<string, NonNullable<ProcessedItemInfo['referencedBy']>>;
+
+export const DEFAULT_MAX_REFERENCE_DEPTH = 3;
+
+// Items under these paths are never part of the content graph
+const EXCLUDED_PATHS = ['/sitecore/system/', '/sitecore/templates/', '/sitecore/layout/'];
+
+// Common system/settings fields that contain GUIDs but no content references
+// Layout fields are left to the presentation parser, which drops renderings removed in the final layout
+const SYSTEM_FIELDS = [
+  '__Created', '__Updated', '__Owner', '__Lock', '__Revision', '__Workflow', '__Standard Values', '__Sortorder',
+  '__Renderings', '__Final Renderings'
+];
+
+export interface ReferenceTraversalOptions {
+  /**
+   * Maximum number of hops to follow from the root items
+   * @default 3
+   */
+  maxDepth?: number;
+  sitecoreContextId?: string;
+  language: string;
+}
+
+export interface ReferenceTraversalResult {
+  /** Newly discovered item IDs in breadth-first order (uppercase with hyphens) */
+  nestedItemIds: string[];
+  /** Authoring data of the newly discovered items, aligned with nestedItemIds */
+  nestedAuthoringItems: AuthoringItemResponse[];
+  /** Which items reference which, for the root items and everything discovered */
+  referencedByMap: ReferencedByMap;
+  /** Link targets that do not exist on the authoring endpoint, i.e. deleted items (uppercase with hyphens) */
+  missingLinkIds: string[];
+  /** Whether there were still unvisited references when maxDepth was reached */
+  truncated: boolean;
+  /** Chunks of nested items that could not be loaded */
+  failures: ChunkFailure[];
+}
+
+/**
+ * Collect the references found in the content fields of a single item
+ * Records provenance and referenced-by relationships for every reference found
+ */
+const collectReferences = (
+  item: AuthoringItemResponse,
+  referencedByMap: ReferencedByMap,
+  provenanceMap: ProvenanceMap
+): string[] => {
+  const references: string[] = [];
+
+  if (!item.fields?.nodes) {
+    return references;
+  }
+
+  // Find displayName field if it exists
+  const displayNameField = item.fields.nodes.find(f => f.name === '__Display name' || f.name === 'Display Name');
+
+  const parentInfo = {
+    id: item.itemId?.replace(/[{}]/g, '').toUpperCase() || '',
+    name: item.name || 'Unknown',
+    displayName: displayNameField?.value,
+    path: item.path || ''
+  };
+
+  item.fields.nodes.forEach((field) => {
+    if (!field.value || typeof field.value !== 'string') {
+      return;
+    }
+
+    if (SYSTEM_FIELDS.some(sf => field.name.includes(sf))) {
+      return; // Skip system fields
+    }
+
+    extractFieldReferences(field.value).forEach(({ id, source }) => {
+      // Remember whether the GUID came from a link or a plain reference field
+      addItemProvenance(provenanceMap, id, {
+        source,
+        parentId: parentInfo.id,
+        fieldName: field.name
+      });
+
+      // Track the parent relationship for ALL referenced items (not just new ones)
+      const key = formatGuidWithoutHyphens(id);
+      const existingRefs = referencedByMap.get(key) || [];
+      if (!existingRefs.some(ref => ref.id === parentInfo.id)) {
+        referencedByMap.set(key, [...existingRefs, parentInfo]);
+      }
+
+      if (!references.includes(id)) {
+        references.push(id);
+      }
+    });
+  });
+
+  return references;
+};
+
+/**
+ * Walk the content graph breadth-first starting from the given authoring items
+ * Each level fetches the newly discovered items from the authoring endpoint, drops
+ * system items, and follows the references in their fields until maxDepth is reached.
+ * A visited set keyed by normalized ID prevents cycles and duplicate queries.
+ */
+export const traverseReferences = async (
+  client: ClientSDK,
+  rootItems: AuthoringItemResponse[],
+  knownItemIds: string[],
+  provenanceMap: ProvenanceMap,
+  { maxDepth = DEFAULT_MAX_REFERENCE_DEPTH, sitecoreContextId, language }: ReferenceTraversalOptions
+): Promise<ReferenceTraversalResult> => {
+  const referencedByMap: ReferencedByMap = new Map();
+  const nestedItemIds: string[] = [];
+  const nestedAuthoringItems: AuthoringItemResponse[] = [];
+  const missingLinkIds: string[] = [];
+  const visited = new Set(knownItemIds.map(formatGuidWithoutHyphens));
+
+  const failures: ChunkFailure[] = [];
+  let frontier = rootItems;
+  let truncated = false;
+
+  for (let depth = 1; frontier.length > 0; depth++) {
+    // Collect unvisited references of the current level
+    const levelIds: string[] = [];
+    frontier.forEach(item => {
+      collectReferences(item, referencedByMap, provenanceMap).forEach(id => {
+        const key = formatGuidWithoutHyphens(id);
+        if (!visited.has(key)) {
+          visited.add(key);
+          levelIds.push(id);
+        }
+      });
+    });
+
+    if (levelIds.length === 0) {
+      break;
+    }
+
+    if (depth > maxDepth) {
+      truncated = true;
+      break;
+    }
+
+    const levelResult = await getItemsFromAuthoring(client, levelIds, sitecoreContextId, language);
+    failures.push(...(levelResult.failures || []));
+    const levelData = (levelResult?.data?.data || {}) as Record<string, AuthoringItemResponse | null>;
+
+    // Filter out system items and items that could not be found; links to missing items are kept as broken links
+    const nextFrontier: AuthoringItemResponse[] = [];
+    levelIds.forEach(id => {
+      const key = formatGuidWithoutHyphens(id);
+      const nestedItem = levelData[key];
+      if (nestedItem === null && getItemProvenance(provenanceMap, id)?.some(entry => entry.source === 'link-field')) {
+        missingLinkIds.push(formatGuidWithHyphens(id));
+        return;
+      }
+
+      const itemPath = nestedItem?.path || '';
+      const isSystemItem = EXCLUDED_PATHS.some(excludedPath => itemPath.startsWith(excludedPath));
+
+      if (nestedItem && itemPath && !isSystemItem) {
+        nestedItemIds.push(formatGuidWithHyphens(nestedItem.itemId));
+        nestedAuthoringItems.push(nestedItem);
+        // Media items reference no content; their Blob field holds a blob ID, not an item ID
+        if (!isMediaLibraryPath(itemPath)) {
+          nextFrontier.push(nestedItem);
+        }
+      }
+    });
+
+    frontier = nextFrontier;
+  }
+
+  return { nestedItemIds, nestedAuthoringItems, referencedByMap, missingLinkIds, truncated, failures };
+};
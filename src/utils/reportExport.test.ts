@@ -0,0 +1,138 @@
+// utils/reportExport.test.ts
+import { describe, expect, it } from 'vitest';
+import { buildReferenceChains, getReportFileName, toCsv, toJson, toMarkdown } from './reportExport';
+import { generateSummary } from './dataProcessing';
+import type { ItemInformationResponse, ProcessedItemInfo } from '../types/itemInformation';
+
+const GENERATED_AT = new Date('2025-06-01T12:00:00.000Z');
+
+const item = (id: string, name: string, overrides: Partial<ProcessedItemInfo> = {}): ProcessedItemInfo => ({
+  id,
+  name,
+  path: `/sitecore/content/Site/Home/Data/${name}`,
+  latestVersion: 1,
+  publishedVersion: 1,
+  isPublished: true,
+  isOutdated: false,
+  versionDifference: 0,
+  itemType: 'datasource',
+  authoringState: 'found',
+  liveState: 'found',
+  ...overrides
+});
+
+const ref = (entry: ProcessedItemInfo) => ({ id: entry.id, name: entry.name, path: entry.path });
+
+const home = item('1', 'Home', { path: '/sitecore/content/Site/Home', itemType: 'current' });
+const promo = item('2', 'Spring Promo', {
+  latestVersion: 3,
+  publishedVersion: 2,
+  isOutdated: true,
+  versionDifference: 1,
+  provenance: [{ source: 'rendering-datasource', detail: 'headless-main' }]
+});
+const card = item('3', 'Launch Card', {
+  itemType: 'link',
+  publishedVersion: null,
+  isPublished: false,
+  referencedBy: [ref(promo)],
+  workflow: { workflowName: 'Sample Workflow', stateName: 'Draft', isFinal: false },
+  isBlockedByWorkflow: true
+});
+const quoted = item('4', 'Say "Hello", World', { itemType: 'reference', referencedBy: [ref(card)] });
+const missing = item('5', 'Missing', { authoringState: 'not-found', liveState: 'not-found', isPublished: false });
+
+const data: ItemInformationResponse = {
+  currentItem: home,
+  referencedItems: [promo, card, quoted, missing],
+  summary: generateSummary([home, promo, card, quoted, missing])
+};
+
+describe('buildReferenceChains', () => {
+  it('follows referencedBy up to the current page', () => {
+    expect(buildReferenceChains(quoted, data)).toEqual([['Home', 'Spring Promo', 'Launch Card', 'Say "Hello", World']]);
+    expect(buildReferenceChains(promo, data)).toEqual([['Home', 'Spring Promo']]);
+  });
+
+  it('stops at items already on the chain', () => {
+    const a = item('a', 'A');
+    const b = item('b', 'B', { referencedBy: [ref(a)] });
+    a.referencedBy = [ref(b)];
+
+    expect(buildReferenceChains(b, { ...data, referencedItems: [a, b] })).toEqual([['Home', 'A', 'B']]);
+  });
+
+  it('stops after a few chains on graphs with many shared references', () => {
+    // 30 levels of two items that both reference both items above them: 2^30 paths to the bottom
+    const levels: ProcessedItemInfo[][] = [];
+    for (let level = 0; level < 30; level++) {
+      const parents = levels[level - 1] || [];
+      levels.push(['L', 'R'].map(side => item(`${level}${side}`, `${side}${level}`, { referencedBy: parents.map(ref) })));
+    }
+    const referencedItems = levels.flat();
+
+    const chains = buildReferenceChains(referencedItems[referencedItems.length - 1], { ...data, referencedItems });
+
+    expect(chains).toHaveLength(5);
+    expect(chains[0]).toHaveLength(31);
+  });
+});
+
+describe('toCsv', () => {
+  it('writes a header and one row per item, quoting values with commas and quotes', () => {
+    const lines = toCsv(data).split('\r\n');
+
+    expect(lines).toHaveLength(6);
+    expect(lines[0]).toMatch(/^Role,Name,Path,ID,Type,/);
+    expect(lines[2]).toBe(
+      'Referenced,Spring Promo,/sitecore/content/Site/Home/Data/Spring Promo,2,Datasource,' +
+      'Rendering datasource in placeholder headless-main,3,,2,Outdated,,,Home → Spring Promo'
+    );
+    expect(lines[4]).toContain('"Say ""Hello"", World"');
+  });
+
+  it('keeps values that start like a formula from being run by spreadsheets', () => {
+    const formula = item('6', '=HYPERLINK("https://example.com")', { path: '@SUM(1)', referencedBy: [ref(home)] });
+
+    const row = toCsv({ ...data, referencedItems: [formula] }).split('\r\n')[2];
+
+    expect(row).toMatch(/^Referenced,"'=HYPERLINK\(""https:\/\/example\.com""\)",'@SUM\(1\),6,/);
+  });
+});
+
+describe('toJson', () => {
+  it('includes status labels, reference chains and the summary', () => {
+    const report = JSON.parse(toJson(data, GENERATED_AT));
+
+    expect(report.generatedAt).toBe('2025-06-01T12:00:00.000Z');
+    expect(report.currentItem.status).toBe('Up-to-date');
+    expect(report.referencedItems[1]).toMatchObject({
+      name: 'Launch Card',
+      status: 'Not Published — awaiting approval',
+      referenceChains: [['Home', 'Spring Promo', 'Launch Card']]
+    });
+    expect(report.summary).toEqual(data.summary);
+  });
+});
+
+describe('toMarkdown', () => {
+  it('groups items into a release checklist', () => {
+    const markdown = toMarkdown(data, GENERATED_AT);
+    const section = (title: string) => markdown.split(`## ${title}\n\n`)[1]?.split('\n\n')[0];
+
+    expect(markdown).toMatch(/^# Release checklist: Home\n/);
+    expect(section('To publish')).toBe(
+      '- [ ] **Spring Promo** — Outdated (`/sitecore/content/Site/Home/Data/Spring Promo`)\n' +
+      '  - Home → Spring Promo'
+    );
+    expect(section('Waiting on workflow or publishing restrictions')).toContain('**Launch Card**');
+    expect(section('Status unknown')).toContain('**Missing** — Not Found');
+    expect(section('Up to date')).toContain('- [x] **Home**');
+  });
+});
+
+describe('getReportFileName', () => {
+  it('builds a file name from the page name, date and format', () => {
+    expect(getReportFileName(data, 'markdown', GENERATED_AT)).toBe('publishing-status-home-2025-06-01.md');
+  });
+});
@@ -0,0 +1,223 @@
+// utils/reportExport.ts
+import type { ItemInformationResponse, ProcessedItemInfo } from '../types/itemInformation';
+import { formatGuidWithoutHyphens, isStatusUnknown } from './dataProcessing';
+import { describeProvenance, getItemTypeLabel } from './itemTypeUtils';
+import { getPublishingStatus, needsPublishing } from './publishingStatus';
+
+export type ReportExportFormat = 'csv' | 'json' | 'markdown';
+
+// Enough to explain why an item is on the page without listing every path in a dense graph
+const MAX_CHAINS_PER_ITEM = 5;
+
+const CSV_COLUMNS = [
+  'Role',
+  'Name',
+  'Path',
+  'ID',
+  'Type',
+  'Discovered Via',
+  'Authoring Version',
+  'Preview Version',
+  'Live Version',
+  'Status',
+  'Workflow',
+  'Restriction',
+  'Referenced By'
+];
+
+const FILE_EXTENSIONS: Record<ReportExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  markdown: 'md'
+};
+
+const MIME_TYPES: Record<ReportExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  markdown: 'text/markdown;charset=utf-8'
+};
+
+/**
+ * Paths of item names from the current page down to an item, following referencedBy upward
+ * Datasources without referencedBy entries hang directly off the page. Each chain stops at an
+ * item already on it, so cyclic references do not loop, and the walk stops after
+ * MAX_CHAINS_PER_ITEM chains, so items reached through many shared references stay cheap.
+ */
+export const buildReferenceChains = (
+  item: ProcessedItemInfo,
+  data: ItemInformationResponse
+): string[][] => {
+  const itemsById = new Map(
+    [data.currentItem, ...data.referencedItems].map(entry => [formatGuidWithoutHyphens(entry.id), entry])
+  );
+  const currentId = formatGuidWithoutHyphens(data.currentItem.id);
+
+  const walk = (entry: ProcessedItemInfo, visited: Set<string>, limit: number): string[][] => {
+    const id = formatGuidWithoutHyphens(entry.id);
+    if (id === currentId) {
+      return [[entry.name]];
+    }
+
+    const parents = (entry.referencedBy || []).filter(ref => !visited.has(formatGuidWithoutHyphens(ref.id)));
+    if (parents.length === 0) {
+      return [[data.currentItem.name, entry.name]];
+    }
+
+    const nextVisited = new Set(visited).add(id);
+    const chains: string[][] = [];
+    for (const ref of parents) {
+      if (chains.length >= limit) {
+        break;
+      }
+      const parent = itemsById.get(formatGuidWithoutHyphens(ref.id));
+      const parentChains = parent ? walk(parent, nextVisited, limit - chains.length) : [[ref.name]];
+      parentChains.forEach(chain => chains.push([...chain, entry.name]));
+    }
+    return chains;
+  };
+
+  return walk(item, new Set(), MAX_CHAINS_PER_ITEM);
+};
+
+const formatChain = (chain: string[]): string => chain.join(' → ');
+
+const formatVersion = (version: number | null | undefined): string =>
+  version === null || version === undefined ? '' : String(version);
+
+const formatWorkflow = (item: ProcessedItemInfo): string =>
+  item.workflow ? `${item.workflow.workflowName}: ${item.workflow.stateName}` : '';
+
+/**
+ * Quote a CSV value; values a spreadsheet would run as a formula get a leading apostrophe
+ * Names and paths are entered by authors, so they cannot be trusted not to start with =
+ */
+const escapeCsvValue = (rawValue: string): string => {
+  const value = /^[=+\-@\t\r]/.test(rawValue) ? `'${rawValue}` : rawValue;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Serialize the report as CSV with one row for the current item and one per referenced item
+ */
+export const toCsv = (data: ItemInformationResponse): string => {
+  const rows = [data.currentItem, ...data.referencedItems].map(item => [
+    item === data.currentItem ? 'Current' : 'Referenced',
+    item.name,
+    item.path,
+    item.id,
+    getItemTypeLabel(item.itemType),
+    (item.provenance || []).map(describeProvenance).join('; '),
+    item.authoringState === 'not-found' ? '' : String(item.latestVersion),
+    formatVersion(item.previewVersion),
+    formatVersion(item.publishedVersion),
+    getPublishingStatus(item).status,
+    formatWorkflow(item),
+    item.restriction?.reason || '',
+    item === data.currentItem ? '' : buildReferenceChains(item, data).map(formatChain).join('; ')
+  ]);
+
+  return [CSV_COLUMNS, ...rows]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\r\n');
+};
+
+/**
+ * Serialize the report as JSON, adding the status label and reference chains of each item
+ */
+export const toJson = (data: ItemInformationResponse, generatedAt: Date = new Date()): string => {
+  const withStatus = (item: ProcessedItemInfo) => ({
+    ...item,
+    status: getPublishingStatus(item).status
+  });
+
+  return JSON.stringify({
+    generatedAt: generatedAt.toISOString(),
+    currentItem: withStatus(data.currentItem),
+    referencedItems: data.referencedItems.map(item => ({
+      ...withStatus(item),
+      referenceChains: buildReferenceChains(item, data)
+    })),
+    summary: data.summary
+  }, null, 2);
+};
+
+const toChecklistLine = (item: ProcessedItemInfo, data: ItemInformationResponse, checked: boolean): string => {
+  const status = getPublishingStatus(item);
+  const lines = [`- [${checked ? 'x' : ' '}] **${item.name}** — ${status.status} (\`${item.path}\`)`];
+  if (item !== data.currentItem) {
+    buildReferenceChains(item, data).forEach(chain => lines.push(`  - ${formatChain(chain)}`));
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Serialize the report as a Markdown release checklist
+ * Items to publish come first, followed by items waiting on workflow or publishing restrictions,
+ * items whose status is unknown, and finally the items that are already up to date (checked)
+ */
+export const toMarkdown = (data: ItemInformationResponse, generatedAt: Date = new Date()): string => {
+  const items = [data.currentItem, ...data.referencedItems];
+  const isUnknown = (item: ProcessedItemInfo) =>
+    item.authoringState === 'not-found' || isStatusUnknown(item);
+
+  const toPublish = items.filter(item => needsPublishing(item) && !item.isBlockedByWorkflow);
+  const unknown = items.filter(isUnknown);
+  const upToDate = items.filter(item => !isUnknown(item) && item.isPublished && !item.isOutdated && !item.restriction);
+  const waiting = items.filter(item => !toPublish.includes(item) && !unknown.includes(item) && !upToDate.includes(item));
+
+  const { summary } = data;
+  const sections = [
+    `# Release checklist: ${data.currentItem.name}`,
+    [
+      `Generated ${generatedAt.toISOString()} for \`${data.currentItem.path}\``,
+      '',
+      `${summary.totalItems} items: ${summary.publishedItems} published, ${summary.outdatedItems} outdated, ${summary.unpublishedItems} unpublished, ${summary.previewOnlyItems} in preview only${summary.unknownItems > 0 ? `, ${summary.unknownItems} with unknown status` : ''}`
+    ].join('\n')
+  ];
+
+  const addSection = (title: string, sectionItems: ProcessedItemInfo[], checked: boolean) => {
+    if (sectionItems.length > 0) {
+      sections.push(`## ${title}\n\n${sectionItems.map(item => toChecklistLine(item, data, checked)).join('\n')}`);
+    }
+  };
+
+  addSection('To publish', toPublish, false);
+  addSection('Waiting on workflow or publishing restrictions', waiting, false);
+  addSection('Status unknown', unknown, false);
+  addSection('Up to date', upToDate, true);
+
+  return `${sections.join('\n\n')}\n`;
+};
+
+/**
+ * Serialize the report in the given format
+ */
+export const exportReport = (
+  data: ItemInformationResponse,
+  format: ReportExportFormat,
+  generatedAt: Date = new Date()
+): string => {
+  switch (format) {
+    case 'csv':
+      return toCsv(data);
+    case 'json':
+      return toJson(data, generatedAt);
+    case 'markdown':
+    default:
+      return toMarkdown(data, generatedAt);
+  }
+};
+
+/**
+ * File name for a downloaded report, e.g. "publishing-status-home-2025-06-01.csv"
+ */
+export const getReportFileName = (
+  data: ItemInformationResponse,
+  format: ReportExportFormat,
+  generatedAt: Date = new Date()
+): string => {
+  const slug = data.currentItem.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'item';
+  return `publishing-status-${slug}-${generatedAt.toISOString().slice(0, 10)}.${FILE_EXTENSIONS[format]}`;
+};
+
+export const getReportMimeType = (format: ReportExportFormat): string => MIME_TYPES[format];
@@ -0,0 +1,211 @@
+// utils/siteAudit.test.ts
+import { describe, expect, it } from 'vitest';
+import { discoverPages, runSiteAudit } from './siteAudit';
+import { formatGuidWithoutHyphens } from './dataProcessing';
+import { createFakeClient, respondWithItems } from '../test/fakeClient';
+import type { GraphQLResponder } from '../test/fakeClient';
+import {
+  FOOTER_ID,
+  HERO_ID,
+  PAGE_ID,
+  PAGE_PATH,
+  PROMO_ID,
+  applicationContext
+} from '../test/fixtures/pageContexts';
+import {
+  CARD_ID,
+  authoringItems,
+  liveItems,
+  previewItems
+} from '../test/fixtures/graphqlResponses';
+import type { AuthoringChildItemResponse, AuthoringItemResponse } from '../types/itemInformation';
+import type { SiteAuditProgress } from '../types/siteAudit';
+
+const compact = formatGuidWithoutHyphens;
+
+const ABOUT_ID = 'C0C0C0C0-0001-4000-8000-000000000001';
+const DEEP_ID = 'C0C0C0C0-0002-4000-8000-000000000002';
+const DEVICE = '{FE5D7FDF-89C0-4D99-9AA3-B5FBD009C9F3}';
+
+const sharedLayout = (...datasources: string[]) => `<r xmlns:xsd="http://www.w3.org/2001/XMLSchema"><d id="${DEVICE}">${
+  datasources.map((ds, index) => `<r uid="{${index}}" ph="headless-main" ds="{${ds}}" />`).join('')
+}</d></r>`;
+
+const pageItem = (itemId: string, name: string, path: string, layout: Partial<AuthoringChildItemResponse> = {}): AuthoringChildItemResponse => ({
+  itemId: itemId.toLowerCase(),
+  name,
+  path,
+  hasChildren: false,
+  template: { name: 'Page' },
+  renderings: null,
+  finalRenderings: null,
+  ...layout
+});
+
+const home = pageItem(PAGE_ID, 'Home', PAGE_PATH, { hasChildren: true, renderings: { value: sharedLayout(HERO_ID, PROMO_ID) } });
+const about = pageItem(ABOUT_ID, 'About', `${PAGE_PATH}/About`, {
+  finalRenderings: { value: `<r xmlns:p="p" xmlns:s="s" p:p="1"><d id="${DEVICE}"><r uid="{9}" s:ph="headless-footer" s:ds="{${FOOTER_ID}}" /></d></r>` }
+});
+const dataFolder = pageItem('D0D0D0D0-0001-4000-8000-000000000001', 'Data', `${PAGE_PATH}/Data`, {
+  hasChildren: true,
+  template: { name: 'PageData' }
+});
+const folder = pageItem('D0D0D0D0-0002-4000-8000-000000000002', 'Folder', `${PAGE_PATH}/Folder`, {
+  hasChildren: true,
+  template: { name: 'Folder' }
+});
+const deep = pageItem(DEEP_ID, 'Deep', `${PAGE_PATH}/Folder/Deep`, { renderings: { value: sharedLayout(HERO_ID) } });
+
+/**
+ * Answer GetChildItems queries from a path → children map, serving Home's children in two pages
+ */
+const respondWithTree = (): GraphQLResponder => {
+  const items = [home, about, dataFolder, folder, deep];
+  const childrenByPath: Record<string, AuthoringChildItemResponse[]> = {
+    [PAGE_PATH]: [about, dataFolder, folder],
+    [`${PAGE_PATH}/Folder`]: [deep]
+  };
+  const authoring = respondWithItems({
+    ...authoringItems,
+    [ABOUT_ID]: { ...authoringItems[PAGE_ID], itemId: ABOUT_ID.toLowerCase(), name: 'About', path: about.path, version: 1 } as AuthoringItemResponse,
+    [DEEP_ID]: { ...authoringItems[PAGE_ID], itemId: DEEP_ID.toLowerCase(), name: 'Deep', path: deep.path, version: 1 } as AuthoringItemResponse
+  });
+
+  return query => {
+    if (!query.includes('GetChildItems')) {
+      return authoring(query);
+    }
+
+    const path = /path: "([^"]*)"/.exec(query)?.[1] || '';
+    const after = /after: "([^"]*)"/.exec(query)?.[1];
+    const parent = items.find(item => item.path === path);
+    if (!parent) {
+      return { data: { parent: null } };
+    }
+
+    // Home's children come in two pages to exercise the cursor
+    const children = childrenByPath[path] || [];
+    const paged = path === PAGE_PATH;
+    const nodes = paged ? (after ? children.slice(1) : children.slice(0, 1)) : children;
+    return {
+      data: {
+        parent: {
+          ...parent,
+          children: {
+            nodes,
+            pageInfo: { hasNextPage: paged && !after, endCursor: paged && !after ? 'page-2' : null }
+          }
+        }
+      }
+    };
+  };
+};
+
+const createAuditClient = () => createFakeClient({
+  applicationContext,
+  authoring: respondWithTree(),
+  live: respondWithItems(liveItems),
+  preview: respondWithItems(previewItems)
+});
+
+describe('discoverPages', () => {
+  it('walks the subtree breadth-first and keeps items with a shared or final layout', async () => {
+    const { client } = createAuditClient();
+
+    const { pages, truncated } = await discoverPages(client, PAGE_PATH, 'ctx');
+
+    expect(pages.map(page => page.name)).toEqual(['Home', 'About', 'Deep']);
+    expect(truncated).toBe(false);
+  });
+
+  it('does not descend into datasource folders', async () => {
+    const { client, calls } = createAuditClient();
+
+    await discoverPages(client, PAGE_PATH, 'ctx');
+
+    expect(calls.some(call => call.query.includes(`path: "${PAGE_PATH}/Data"`))).toBe(false);
+  });
+
+  it('stops at the page limit', async () => {
+    const { client } = createAuditClient();
+
+    const { pages, truncated } = await discoverPages(client, PAGE_PATH, 'ctx', { maxPages: 2 });
+
+    expect(pages).toHaveLength(2);
+    expect(truncated).toBe(true);
+  });
+
+  it('records folders whose children cannot be listed and walks the rest', async () => {
+    const tree = respondWithTree();
+    const { client } = createFakeClient({
+      authoring: query => query.includes(`path: "${PAGE_PATH}/Folder"`)
+        ? { data: { parent: null }, errors: [{ message: 'Access denied' }] }
+        : tree(query)
+    });
+
+    const { pages, failures } = await discoverPages(client, PAGE_PATH, 'ctx');
+
+    expect(pages.map(page => page.name)).toEqual(['Home', 'About']);
+    expect(failures).toEqual([{ path: `${PAGE_PATH}/Folder`, error: 'Access denied' }]);
+  });
+
+  it('fails when the root item does not exist', async () => {
+    const { client } = createAuditClient();
+
+    await expect(discoverPages(client, '/sitecore/content/Missing', 'ctx')).rejects.toThrow('Item not found: /sitecore/content/Missing');
+  });
+});
+
+describe('runSiteAudit', () => {
+  it('reports outdated and unpublished items grouped by page', async () => {
+    const { client } = createAuditClient();
+
+    const report = await runSiteAudit(client, PAGE_PATH);
+
+    const issuesByPage = Object.fromEntries(report.pages.map(({ page, issues }) => [page.name, issues.map(item => item.name)]));
+    expect(issuesByPage).toEqual({
+      Home: ['Spring Promo', 'Launch Card'],
+      About: ['About', 'Footer'],
+      Deep: ['Deep']
+    });
+    expect(report.pages[0].issues.find(item => compact(item.id) === compact(CARD_ID))?.itemType).toBe('link');
+    expect(report.summary).toEqual({
+      pagesAudited: 3,
+      pagesWithIssues: 3,
+      pagesFailed: 0,
+      outdatedItems: 2,
+      unpublishedItems: 3
+    });
+    expect(report.cancelled).toBe(false);
+    expect(report.discoveryFailures).toEqual([]);
+  });
+
+  it('queries each endpoint with its own context', async () => {
+    const { client, calls } = createAuditClient();
+
+    await runSiteAudit(client, PAGE_PATH);
+
+    expect(calls.filter(call => call.key === 'xmc.live.graphql').every(call => call.sitecoreContextId === 'test-live-context')).toBe(true);
+    expect(calls.filter(call => call.key !== 'xmc.live.graphql').every(call => call.sitecoreContextId === 'test-preview-context')).toBe(true);
+  });
+
+  it('reports progress and keeps the pages audited before cancelling', async () => {
+    const { client } = createAuditClient();
+    const abortController = new AbortController();
+    const progress: SiteAuditProgress[] = [];
+
+    const report = await runSiteAudit(client, PAGE_PATH, {
+      signal: abortController.signal,
+      onProgress: update => {
+        progress.push(update);
+        if (update.phase === 'auditing' && update.pagesAudited === 1) {
+          abortController.abort();
+        }
+      }
+    });
+
+    expect(progress[0]).toMatchObject({ phase: 'discovering', currentPath: PAGE_PATH });
+    expect(report.pages.map(({ page }) => page.name)).toEqual(['Home', 'About']);
+    expect(report.cancelled).toBe(true);
+  });
+});
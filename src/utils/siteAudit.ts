@@ -0,0 +1,221 @@
+// utils/siteAudit.ts
+import { ClientSDK } from '@sitecore-marketplace-sdk/client';
+import type { AuthoringChildItemResponse, ProcessedItemInfo } from '../types/itemInformation';
+import type {
+  AuditPage,
+  DiscoveryFailure,
+  SiteAuditPageResult,
+  SiteAuditProgress,
+  SiteAuditReport,
+  SiteAuditSummary
+} from '../types/siteAudit';
+import { getChildItemsFromAuthoring, getSitecoreContextIds } from './graphqlQueries';
+import type { ChildItemsPage } from './graphqlQueries';
+import {
+  extractItemIdsWithLocalPaths,
+  formatGuidWithoutHyphens,
+  generateSummary,
+  isStatusUnknown
+} from './dataProcessing';
+import { getPageLayout, hasLayout } from './layoutXml';
+import { analyzePageItems } from './pageAnalysis';
+
+export const DEFAULT_MAX_AUDIT_PAGES = 200;
+
+// Datasource folders (SXA site Data folder and page-local Data folders) hold no pages
+const DATA_FOLDER_TEMPLATES = ['Data', 'PageData'];
+
+export interface SiteAuditOptions {
+  /**
+   * Language to audit
+   * @default 'en'
+   */
+  language?: string;
+  /**
+   * Stop walking the subtree once this many pages have been found
+   * @default 200
+   */
+  maxPages?: number;
+  /**
+   * Maximum number of hops to follow when traversing references in datasource fields
+   * @default 3
+   */
+  maxReferenceDepth?: number;
+  /** Cancels the audit; pages audited so far are kept in the report */
+  signal?: AbortSignal;
+  onProgress?: (progress: SiteAuditProgress) => void;
+}
+
+/**
+ * Whether an audited item is outdated or not published
+ * Items missing from authoring or with unknown status are reported as failures instead
+ */
+export const isAuditIssue = (item: ProcessedItemInfo): boolean => {
+  return item.authoringState !== 'not-found' &&
+    !isStatusUnknown(item) &&
+    (!item.isPublished || item.isOutdated);
+};
+
+const toAuditPage = (item: AuthoringChildItemResponse): AuditPage => ({
+  id: item.itemId,
+  name: item.name,
+  path: item.path
+});
+
+/**
+ * Walk the subtree below rootPath breadth-first and collect every item with a layout
+ * Datasource folders are not descended into. Stops at maxPages or when the signal is aborted.
+ * Items whose children cannot be listed are recorded in failures and skipped; only a failure
+ * to read the root item itself is thrown.
+ */
+export const discoverPages = async (
+  client: ClientSDK,
+  rootPath: string,
+  sitecoreContextId: string | undefined,
+  { language = 'en', maxPages = DEFAULT_MAX_AUDIT_PAGES, signal, onProgress }: SiteAuditOptions = {}
+): Promise<{ pages: AuthoringChildItemResponse[]; truncated: boolean; failures: DiscoveryFailure[] }> => {
+  const pages: AuthoringChildItemResponse[] = [];
+  const failures: DiscoveryFailure[] = [];
+  const queue = [rootPath];
+
+  while (queue.length > 0 && !signal?.aborted) {
+    const parentPath = queue.shift()!;
+    onProgress?.({ phase: 'discovering', pagesFound: pages.length, pagesAudited: 0, currentPath: parentPath });
+
+    let cursor: string | undefined;
+    do {
+      let childItems: ChildItemsPage;
+      try {
+        childItems = await getChildItemsFromAuthoring(client, parentPath, sitecoreContextId, language, cursor);
+      } catch (err) {
+        if (parentPath === rootPath && !cursor) {
+          throw err;
+        }
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+        console.error(`Error listing children of ${parentPath}:`, err);
+        failures.push({ path: parentPath, error: errorMessage });
+        break;
+      }
+
+      const { parent, children, nextCursor } = childItems;
+      const candidates = parentPath === rootPath && !cursor ? [parent, ...children] : children;
+      for (const item of candidates) {
+        if (hasLayout(item)) {
+          if (pages.length >= maxPages) {
+            return { pages, truncated: true, failures };
+          }
+          pages.push(item);
+        }
+        if (item !== parent && item.hasChildren && !DATA_FOLDER_TEMPLATES.includes(item.template?.name || '')) {
+          queue.push(item.path);
+        }
+      }
+
+      cursor = nextCursor;
+    } while (cursor && !signal?.aborted);
+  }
+
+  return { pages, truncated: false, failures };
+};
+
+/**
+ * Count distinct outdated and unpublished items across all audited pages
+ */
+const summarizeAudit = (pages: SiteAuditPageResult[]): SiteAuditSummary => {
+  const outdated = new Set<string>();
+  const unpublished = new Set<string>();
+
+  pages.forEach(({ issues }) => {
+    issues.forEach(item => {
+      const key = formatGuidWithoutHyphens(item.id);
+      if (item.isOutdated) {
+        outdated.add(key);
+      } else if (!item.isPublished) {
+        unpublished.add(key);
+      }
+    });
+  });
+
+  return {
+    pagesAudited: pages.length,
+    pagesWithIssues: pages.filter(page => page.issues.length > 0).length,
+    pagesFailed: pages.filter(page => !!page.error).length,
+    outdatedItems: outdated.size,
+    unpublishedItems: unpublished.size
+  };
+};
+
+/**
+ * Audit every page below rootPath: discover the pages through the authoring endpoint, then run
+ * the same authoring / preview / live comparison as the page view on each page and its references
+ * Pages are audited one at a time; cancelling through the signal keeps the pages audited so far
+ */
+export const runSiteAudit = async (
+  client: ClientSDK,
+  rootPath: string,
+  options: SiteAuditOptions = {}
+): Promise<SiteAuditReport> => {
+  const { language = 'en', maxReferenceDepth, signal, onProgress } = options;
+  const startedAt = new Date().toISOString();
+  const { sitecoreContextId, liveContextId } = await getSitecoreContextIds(client);
+
+  const { pages, truncated, failures: discoveryFailures } = await discoverPages(client, rootPath, sitecoreContextId, options);
+  let cancelled = !!signal?.aborted;
+
+  const results: SiteAuditPageResult[] = [];
+  for (const page of pages) {
+    if (signal?.aborted) {
+      cancelled = true;
+      break;
+    }
+    onProgress?.({ phase: 'auditing', pagesFound: pages.length, pagesAudited: results.length, currentPath: page.path });
+
+    try {
+      // Build the same extraction pages.context would give for this page
+      const extraction = extractItemIdsWithLocalPaths({
+        pageInfo: {
+          id: page.itemId,
+          path: page.path,
+          language,
+          presentationDetails: getPageLayout(page)
+        }
+      });
+      const { items, truncated: referenceGraphTruncated, failures } = await analyzePageItems(client, extraction, {
+        sitecoreContextId,
+        liveContextId,
+        maxReferenceDepth
+      });
+
+      results.push({
+        page: toAuditPage(page),
+        issues: items.filter(isAuditIssue),
+        summary: generateSummary(items),
+        referenceGraphTruncated,
+        failures
+      });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      console.error(`Error auditing page ${page.path}:`, err);
+      results.push({
+        page: toAuditPage(page),
+        issues: [],
+        summary: generateSummary([]),
+        referenceGraphTruncated: false,
+        failures: [],
+        error: errorMessage
+      });
+    }
+  }
+
+  return {
+    rootPath,
+    language,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    pages: results,
+    summary: summarizeAudit(results),
+    cancelled,
+    truncated,
+    discoveryFailures
+  };
+};
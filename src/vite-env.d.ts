@@ -1,7 +1,9 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_SITECORE_EDGE_TOKEN: string
+  readonly VITE_LIVE_DATA_SOURCE?: 'sdk' | 'proxy' | 'token'
+  readonly VITE_LIVE_PROXY_URL?: string
+  readonly VITE_SITECORE_EDGE_TOKEN?: string
   readonly VITE_SITECORE_EDGE_ENDPOINT?: string
 }
 
@@ -1,10 +1,38 @@
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import mkcert from 'vite-plugin-mkcert'
+import { mockMarketplace } from './mock/vitePlugin'
+import { demoSite } from './mock/fixtures/demoSite'
+
+// Fails the build when VITE_SITECORE_EDGE_TOKEN ends up in the bundle outside token mode
+const edgeTokenGuard = (): Plugin => {
+  let env: Record<string, string> = {}
+  return {
+    name: 'edge-token-guard',
+    apply: 'build',
+    configResolved(config) {
+      env = config.env
+    },
+    generateBundle(_options, bundle) {
+      const token = env.VITE_SITECORE_EDGE_TOKEN
+      if (!token || env.VITE_LIVE_DATA_SOURCE === 'token') {
+        return
+      }
+      const leaked = Object.values(bundle).filter(output =>
+        (output.type === 'chunk' ? output.code : String(output.source)).includes(token)
+      )
+      if (leaked.length > 0) {
+        this.error(`VITE_SITECORE_EDGE_TOKEN found in ${leaked.map(output => output.fileName).join(', ')} although VITE_LIVE_DATA_SOURCE is not "token"`)
+      }
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), mkcert()],
+  // mockMarketplace serves the endpoints used by mock-host.html (dev server only)
+  plugins: [react(), mkcert(), mockMarketplace(demoSite), edgeTokenGuard()],
   server: {
     port: 5173,
     host: true, // Allow external connections